@@ -1,8 +1,10 @@
 import { createFileRoute, Link, Outlet, useMatches } from "@tanstack/react-router";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Search, ArrowRight, Zap, Users, Activity, RefreshCw } from "lucide-react";
 import { useNavigate } from "@tanstack/react-router";
-import { getDeployments, getSyncStatus, triggerSync, searchAddress, timeAgo, type Deployment, type SyncStatus } from "../lib/api";
+import { getDeployments, getSyncStatus, triggerSync, waitForSyncJob, searchAddress, timeAgo, type Deployment, type SyncStatus } from "../lib/api";
+import { NetworkSwitcher } from "../components/molecules/network-switcher";
+import { useNetwork } from "../providers/network-context";
 
 export const Route = createFileRoute("/explorer")({
   component: ExplorerLayout,
@@ -11,6 +13,7 @@ export const Route = createFileRoute("/explorer")({
 function ExplorerLayout() {
   const [searchQuery, setSearchQuery] = useState("");
   const [searching, setSearching] = useState(false);
+  const { network } = useNetwork();
   const navigate = useNavigate();
   const matches = useMatches();
   
@@ -24,7 +27,7 @@ function ExplorerLayout() {
     
     setSearching(true);
     try {
-      const result = await searchAddress(searchQuery);
+      const result = await searchAddress(searchQuery, network);
       
       // If user search with more to discover, auto-continue
       if (result.type === 'user' && result.discoveryProgress?.hasMore) {
@@ -116,10 +119,11 @@ function DeploymentsGrid() {
   const [syncStatus, setSyncStatus] = useState<SyncStatus[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const { network } = useNetwork();
 
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     try {
-      const [deps, status] = await Promise.all([getDeployments(), getSyncStatus()]);
+      const [deps, status] = await Promise.all([getDeployments({ network }), getSyncStatus()]);
       setDeployments(deps);
       setSyncStatus(status.status);
     } catch (err) {
@@ -127,12 +131,13 @@ function DeploymentsGrid() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [network]);
 
   const handleSync = async () => {
     setSyncing(true);
     try {
-      await triggerSync({ force: true });
+      const { job } = await triggerSync({ network, force: true });
+      if (job) await waitForSyncJob(job);
       await loadData();
     } finally {
       setSyncing(false);
@@ -147,10 +152,11 @@ function DeploymentsGrid() {
       setSyncStatus(status.status);
     }, 10_000);
     return () => clearInterval(interval);
-  }, []);
+  }, [loadData]);
 
   const getLastSynced = (address: string) => {
     const s = syncStatus.find(s => s.deployment === address);
+    if (s?.failing) return `${s.lastSyncedAt ? timeAgo(s.lastSyncedAt) : 'never'} (sync failing)`;
     return s?.lastSyncedAt ? timeAgo(s.lastSyncedAt) : 'never';
   };
 
@@ -164,14 +170,17 @@ function DeploymentsGrid() {
         <h2 className="animate-fade-in-up delay-100 text-sm font-medium text-slate-500 uppercase tracking-wider">
           Known Deployments
         </h2>
-        <button
-          onClick={handleSync}
-          disabled={syncing}
-          className="flex items-center gap-2 text-xs text-slate-500 hover:text-white transition-colors disabled:opacity-50 focus:outline-none"
-        >
-          <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-4">
+          <NetworkSwitcher />
+          <button
+            onClick={handleSync}
+            disabled={syncing}
+            className="flex items-center gap-2 text-xs text-slate-500 hover:text-white transition-colors disabled:opacity-50 focus:outline-none"
+          >
+            <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
       </div>
       
       <div className="animate-fade-in-up delay-200 grid md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -185,7 +194,7 @@ function DeploymentsGrid() {
             <div className="flex items-start justify-between mb-4">
               <div>
                 <p className="text-white font-mono text-sm">{deployment.address.slice(0, 8)}...{deployment.address.slice(-4)}</p>
-                <p className="text-slate-500 text-xs mt-1">Movement Testnet</p>
+                <p className="text-slate-500 text-xs mt-1">{deployment.networkName}</p>
               </div>
               <div className="w-8 h-8 rounded-full bg-cyan-500/10 flex items-center justify-center">
                 <Zap className="w-4 h-4 text-cyan-400" />
@@ -9,6 +9,7 @@ import {
   getDeploymentStreams,
   getDeploymentVault,
   getSyncStatus,
+  subscribeDeploymentFeed,
   timeAgo,
   triggerSync,
   type Account,
@@ -16,6 +17,8 @@ import {
   type Deployment,
   type SplitConfig,
   type Stream,
+  type StreamChange,
+  type StreamChangeConfig,
   type VaultToken,
 } from "../../lib/api";
 
@@ -34,6 +37,7 @@ function DeploymentView() {
   const [activity, setActivity] = useState<ActivityEvent[]>([]);
   const [vault, setVault] = useState<VaultToken[]>([]);
   const [lastSynced, setLastSynced] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
   const [activeTab, setActiveTab] = useState<Tab>("activity");
@@ -78,61 +82,74 @@ function DeploymentView() {
       setActivity(act);
       setVault(vlt);
       setLastSynced(status.status[0]?.lastSyncedAt || null);
+      setSyncError(status.status[0]?.failing ? status.status[0].lastError : null);
+      return Math.max(0, ...act.map((e) => e.id));
     } catch (err) {
       console.error("Failed to load:", err);
+      return 0; // Not indexed yet - the feed replays everything
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSync = async (): Promise<boolean> => {
+  // The server queues one job per deployment and runs it to the chain tip;
+  // its progress arrives on the live feed
+  const handleSync = async () => {
     setSyncing(true);
     try {
-      const result = await triggerSync({ deployment: address });
-      console.log(`[Deployment] Sync result:`, result);
-
-      // If more data to sync, auto-continue
-      if (result.hasMore) {
-        console.log(
-          `[Deployment] Sync progress: ${result.eventsProcessed} events, cursor at ${result.cursor}, continuing...`,
-        );
-        await loadData(); // Refresh UI with new data
-        setTimeout(() => handleSync(), 500); // Continue after 500ms
-        return true; // Still syncing
-      }
-
-      console.log(`[Deployment] Sync complete: ${result.eventsProcessed} events`);
-      await loadData();
-      setSyncing(false);
-      return false; // Done
+      const { job } = await triggerSync({ deployment: address });
+      if (!job) setSyncing(false);
     } catch (err) {
       console.error("[Deployment] Sync failed:", err);
       setSyncing(false);
-      return false;
     }
   };
 
   useEffect(() => {
-    // Load existing data immediately, then start syncing
-    const init = async () => {
-      await loadData(); // Show existing data (or empty state)
-      handleSync(); // Start background sync (don't await - let it run)
-    };
-    init();
+    let closed = false;
+    let unsubscribe = () => {};
+    let stale = false; // Events arrived since the last full load
+
+    // Show existing data (or empty state). The sync request registers a new
+    // deployment - the feed 404s before that - and the feed starts after the
+    // newest loaded event, so nothing indexed in between is missed
+    Promise.all([loadData(), handleSync()]).then(([lastEventId]) => {
+      if (closed) return;
+      unsubscribe = subscribeDeploymentFeed(
+        address,
+        {
+          onEvent: (event) => {
+            setActivity((current) =>
+              current.some((e) => e.id === event.id) ? current : [event, ...current],
+            );
+            stale = true;
+          },
+          onSync: ({ status, job }) => {
+            setLastSynced(status[0]?.lastSyncedAt || null);
+            setSyncError(status[0]?.failing ? status[0].lastError : null);
+            setSyncing(job?.status === "queued" || job?.status === "running");
+            // Streams, splits and balances follow from the new events
+            if (stale) {
+              stale = false;
+              loadData();
+            }
+          },
+          onReset: () => loadData(),
+        },
+        lastEventId,
+      );
+    });
 
-    const interval = setInterval(async () => {
-      const status = await getSyncStatus(address);
-      setLastSynced(status.status[0]?.lastSyncedAt || null);
-    }, 30_000);
-    return () => clearInterval(interval);
+    return () => {
+      closed = true;
+      unsubscribe();
+    };
   }, [address]);
 
   if (loading) {
     return <div className="w-full max-w-5xl mx-auto mt-12 text-slate-500">Loading...</div>;
   }
 
-  const activeStreams = streams.filter((s) => s.active);
-
   return (
     <div className="w-full max-w-5xl mx-auto mt-12 pb-20 animate-fade-in-up">
       <Link
@@ -146,7 +163,7 @@ function DeploymentView() {
         <div>
           <h2 className="text-2xl font-serif text-white mb-2">Deployment</h2>
           <p className="text-slate-500 font-mono text-sm">{address}</p>
-          <p className="text-cyan-400 text-xs mt-1">Movement Testnet</p>
+          <p className="text-cyan-400 text-xs mt-1">{deployment?.networkName}</p>
         </div>
         <div className="text-right">
           <button
@@ -157,7 +174,13 @@ function DeploymentView() {
             <RefreshCw className={`w-3 h-3 ${syncing ? "animate-spin" : ""}`} />
             Refresh
           </button>
-          <p className="text-slate-600 text-xs mt-1">indexed {timeAgo(lastSynced)}</p>
+          {syncError ? (
+            <p className="text-red-400 text-xs mt-1" title={syncError}>
+              sync failing · indexed {timeAgo(lastSynced)}
+            </p>
+          ) : (
+            <p className="text-slate-600 text-xs mt-1">indexed {timeAgo(lastSynced)}</p>
+          )}
         </div>
       </div>
 
@@ -176,7 +199,9 @@ function DeploymentView() {
           <p className="text-slate-500 text-xs mt-1">Volume</p>
         </div>
         <div className="p-4 rounded-xl bg-white/[0.02] border border-white/5">
-          <p className="text-xl font-light text-white">{activeStreams.length}</p>
+          <p className="text-xl font-light text-white">
+            {deployment?.stats?.activeStreams ?? streams.length}
+          </p>
           <p className="text-slate-500 text-xs mt-1">Active Streams</p>
         </div>
         <div className="p-4 rounded-xl bg-white/[0.02] border border-white/5">
@@ -330,6 +355,9 @@ function AccountsList({
           >
             <div className="flex items-center gap-4">
               <div>
+                {account.metadata?.name && (
+                  <p className="text-white text-sm mb-0.5">{account.metadata.name}</p>
+                )}
                 <p className="text-slate-300 font-mono text-sm">
                   {formatAddress(walletAddr)}
                 </p>
@@ -382,6 +410,32 @@ function ActivityList({
   );
 }
 
+// "raised 0x12…34's rate from 10 to 15 MOVE/day"
+function describeStreamChange(change: StreamChange, receiver: string): string {
+  const symbol = change.tokenSymbol;
+  const rate = (config: StreamChangeConfig) => `${config.rate} ${symbol}${config.rateUnit}`;
+  const { from, to } = change;
+
+  switch (change.type) {
+    case "added":
+      return `started streaming ${to ? rate(to) : ""} to ${receiver}`;
+    case "removed":
+      return `stopped streaming to ${receiver}`;
+    case "rate_changed": {
+      if (!from || !to) return `changed ${receiver}'s rate`;
+      const raised = BigInt(to.amtPerSec) > BigInt(from.amtPerSec);
+      const fromRate = from.rateUnit === to.rateUnit ? from.rate : rate(from);
+      return `${raised ? "raised" : "lowered"} ${receiver}'s rate from ${fromRate} to ${rate(to)}`;
+    }
+    case "schedule_changed":
+      return `rescheduled ${receiver}'s stream`;
+    case "top_up":
+      return `topped up ${change.amount} ${symbol}`;
+    case "withdrawal":
+      return `withdrew ${change.amount} ${symbol}`;
+  }
+}
+
 function ActivityItem({
   event,
   getWalletAddress,
@@ -403,6 +457,7 @@ function ActivityItem({
     const rates = (data.receiver_amt_per_secs as string[]) || [];
     const isStopped = receivers.length === 0;
     const label = isStopped ? "Stop Stream" : "Set Streams";
+    const changes = event.changes ?? [];
 
     return (
       <div className="rounded-xl bg-white/[0.02] border border-white/5">
@@ -430,6 +485,20 @@ function ActivityItem({
                   </span>
                 )}
               </div>
+              {changes.length > 0 && (
+                <ul className="space-y-1 text-left">
+                  {changes.map((change) => (
+                    <li key={change.id} className="text-slate-400 text-sm">
+                      {describeStreamChange(
+                        change,
+                        change.receiverId
+                          ? formatAddress(getWalletAddress(change.receiverId), 6)
+                          : "",
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
             <div className="flex items-center gap-3">
               <span className="text-slate-600 text-xs">{timeAgo(event.timestamp)}</span>
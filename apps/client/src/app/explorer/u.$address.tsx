@@ -2,8 +2,8 @@ import { createFileRoute, Link } from "@tanstack/react-router";
 import { RefreshCw } from "lucide-react";
 import { useEffect, useState } from "react";
 import {
-  getSyncStatus,
   getUser,
+  subscribeUserFeed,
   timeAgo,
   triggerSync,
   type UserDeployment,
@@ -31,46 +31,49 @@ function UserView() {
     }
   };
 
-  const fetchSyncStatus = async () => {
-    try {
-      const status = await getSyncStatus();
-      if (status.status.length > 0) {
-        setLastSynced(status.status[0].lastSyncedAt);
-      }
-    } catch (err) {
-      console.error("Failed to fetch sync status:", err);
-    }
-  };
-
+  // Job progress and the finished sync arrive on the live feed
   const handleSync = async () => {
     setSyncing(true);
     try {
-      const result = await triggerSync({ user: address });
-      setLastSynced(result.lastSyncedAt);
-      await fetchData();
+      const { job } = await triggerSync({ user: address });
+      if (!job) setSyncing(false);
     } catch (err) {
       console.error("Sync failed:", err);
-    } finally {
       setSyncing(false);
     }
   };
 
   useEffect(() => {
-    // Trigger sync with user priority on mount
-    triggerSync({ user: address })
-      .then((result) => {
-        setLastSynced(result.lastSyncedAt);
-      })
-      .catch(() => {});
+    let stale = false; // Events arrived since the last fetch
+    let running: boolean | null = null; // Unknown until the feed's first sync state
 
     fetchData();
-    fetchSyncStatus();
+    // Trigger sync with user priority on mount
+    triggerSync({ user: address }).catch(() => {});
 
-    // Poll sync status every 30s for freshness indicator
-    const interval = setInterval(() => {
-      fetchSyncStatus();
-    }, 30_000);
-    return () => clearInterval(interval);
+    // Events involving this wallet and sync progress of its deployments
+    const unsubscribe = subscribeUserFeed(address, {
+      onEvent: () => {
+        stale = true;
+      },
+      onSync: ({ status }) => {
+        const synced = status.map((s) => s.lastSyncedAt).filter((t) => t !== null);
+        setLastSynced(synced.sort().at(-1) ?? null);
+        const busy = status.some(
+          (s) => s.job?.status === "queued" || s.job?.status === "running",
+        );
+        setSyncing(busy);
+        // Events indexed before the feed opened aren't replayed - reload once
+        // the jobs are done (or already were when it connected)
+        if (stale || (!busy && running !== false)) {
+          stale = false;
+          fetchData();
+        }
+        running = busy;
+      },
+      onReset: () => fetchData(),
+    });
+    return unsubscribe;
   }, [address]);
 
   if (loading) {
@@ -129,7 +132,7 @@ function UserView() {
                   >
                     {dep.address.slice(0, 6)}...{dep.address.slice(-4)}
                   </Link>
-                  <p className="text-slate-600 text-xs mt-0.5">{dep.network}</p>
+                  <p className="text-slate-600 text-xs mt-0.5">{dep.networkName ?? dep.network}</p>
                 </div>
               </div>
 
@@ -138,7 +141,7 @@ function UserView() {
                 <div className="p-4 rounded-xl bg-white/[0.02]">
                   <p className="text-xl font-light text-white">{dep.splittable}</p>
                   <p className="text-slate-500 text-xs">Splittable</p>
-                  {Number(dep.splittable) > 0 && (
+                  {dep.splittable !== "0" && (
                     <button className="mt-2 text-xs text-cyan-400 hover:text-cyan-300 focus:outline-none">
                       Split →
                     </button>
@@ -147,7 +150,7 @@ function UserView() {
                 <div className="p-4 rounded-xl bg-white/[0.02]">
                   <p className="text-xl font-light text-cyan-400">{dep.collectable}</p>
                   <p className="text-slate-500 text-xs">Collectable</p>
-                  {Number(dep.collectable) > 0 && (
+                  {dep.collectable !== "0" && (
                     <button className="mt-2 text-xs text-cyan-400 hover:text-cyan-300 focus:outline-none">
                       Collect →
                     </button>
@@ -0,0 +1,36 @@
+import { Check, ChevronDown, Globe } from "lucide-react";
+import { useNetwork } from "@/providers/network-context";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/atoms/dropdown-menu";
+
+export function NetworkSwitcher() {
+  const { network, setNetwork, networks, current } = useNetwork();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="flex items-center gap-2 text-xs text-slate-500 hover:text-white transition-colors focus:outline-none">
+          <Globe className="w-3 h-3" />
+          {current.name}
+          <ChevronDown className="w-3 h-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {networks.map((n) => (
+          <DropdownMenuItem key={n.id} onClick={() => setNetwork(n.id)}>
+            <Check className={`w-3 h-3 ${n.id === network ? "opacity-100" : "opacity-0"}`} />
+            {n.name}
+            {n.deployments > 0 && (
+              <span className="ml-auto text-xs text-slate-500">{n.deployments}</span>
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,9 +1,31 @@
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
 // Types
+export interface NetworkInfo {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  deployments: number;
+}
+
+export interface DeploymentTokenStats {
+  faMetadata: string;
+  symbol: string;
+  decimals: number;
+  priceUsd: number;
+  volume: string;
+  volumeUsd: string;
+  volumeByType: Record<"Given" | "Collected" | "Received" | "Squeezed", string>;
+  tvl: string;
+  tvlUsd: string;
+  holders: number;
+  activeStreams: number;
+}
+
 export interface Deployment {
   address: string;
   network: string;
+  networkName: string;
   firstSeenAt: string;
   volume: string;
   volumeUsd: string;
@@ -11,6 +33,7 @@ export interface Deployment {
   tvlUsd: string;
   streams: number;
   accounts: number;
+  tokens?: DeploymentTokenStats[];
   stats?: {
     totalAccounts: number;
     activeStreams: number;
@@ -20,9 +43,12 @@ export interface Deployment {
     totalVolumeUsd: string;
     tvl: string;
     tvlUsd: string;
+    tokens: DeploymentTokenStats[];
   };
 }
 
+export type StreamStatus = "scheduled" | "streaming" | "ended" | "out_of_funds" | "stopped";
+
 export interface Stream {
   from: string;
   to: string;
@@ -34,7 +60,10 @@ export interface Stream {
   startTime: number;
   duration: number;
   durationText: string;
-  active: boolean;
+  active: boolean; // Scheduled or streaming
+  status: StreamStatus;
+  startedAt: string;
+  endsAt: string | null;
 }
 
 export interface Split {
@@ -43,27 +72,47 @@ export interface Split {
   weight: number;
 }
 
+export interface StreamBalance {
+  faMetadata: string;
+  tokenSymbol: string;
+  splittable: string;
+  collectable: string;
+  streamed: string;
+  remaining: string;
+  streamedIn: string;
+  receivable: string;
+  squeezable: string;
+  fundedUntil: string | null; // When this token's outgoing streams run out of funds
+}
+
 export interface UserDeployment {
   address: string;
   network: string;
+  networkName?: string;
   accountId: string;
   driverType: number;
   driverName?: string | null; // Actual driver module name
   splittable: string;
   collectable: string;
   streaming: string;
+  streamBalances?: StreamBalance[];
   incoming: Array<{
     from: string;
+    faMetadata: string;
     rate: string;
     rateUnit: string;
     streamId: string;
+    status: StreamStatus;
+    durationText: string;
     tokenSymbol?: string;
   }>;
   outgoing: Array<{
     to: string;
+    faMetadata: string;
     rate: string;
     rateUnit: string;
     streamId: string;
+    status: StreamStatus;
     durationText: string;
     tokenSymbol?: string;
   }>;
@@ -73,13 +122,43 @@ export interface UserDeployment {
 export interface SyncStatus {
   deployment: string;
   lastSyncedAt: string | null;
-  ageMs: number;
+  ageMs: number | null;
+  failing: boolean; // Last sync attempt failed (e.g. RPC unreachable)
+  lastError: string | null;
+  lastErrorAt: string | null;
+  consecutiveFailures: number;
+}
+
+export interface SyncJob {
+  id: number;
+  deployment: string;
+  accountId: string | null;
+  force: boolean;
+  status: "queued" | "running" | "done" | "failed";
+  source: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  batches: number;
+  eventsProcessed: number;
+  cursor: string | null;
+  error: string | null;
 }
 
 // API functions
-export async function searchAddress(q: string): Promise<{
+export async function getNetworks(): Promise<NetworkInfo[]> {
+  const res = await fetch(`${API_URL}/networks`);
+  if (!res.ok) throw new Error("Failed to fetch networks");
+  return res.json();
+}
+
+export async function searchAddress(
+  q: string,
+  network?: string,
+): Promise<{
   type: "deployment" | "user";
   address: string;
+  network: string;
   deploymentsDiscovered?: number;
   discoveryProgress?: {
     processed: number;
@@ -87,18 +166,21 @@ export async function searchAddress(q: string): Promise<{
     batchSize: number;
   };
 }> {
-  const res = await fetch(`${API_URL}/search?q=${encodeURIComponent(q)}`);
+  const params = new URLSearchParams({ q });
+  if (network) params.set("network", network);
+  const res = await fetch(`${API_URL}/search?${params}`);
   if (!res.ok) throw new Error("Search failed");
   return res.json();
 }
 
 export async function getDeployments(
-  options: { limit?: number; random?: boolean } = {},
+  options: { limit?: number; random?: boolean; network?: string } = {},
 ): Promise<Deployment[]> {
-  const { limit = 6, random = true } = options;
+  const { limit = 6, random = true, network } = options;
   const params = new URLSearchParams();
   params.set("limit", limit.toString());
   params.set("random", random.toString());
+  if (network) params.set("network", network);
 
   const res = await fetch(`${API_URL}/deployments?${params}`);
   if (!res.ok) throw new Error("Failed to fetch deployments");
@@ -134,6 +216,17 @@ export interface Account {
   walletAddress: string | null;
   driverType: number;
   driverName?: string | null; // Actual driver module name (e.g., "address_driver", "nft_driver")
+  metadata?: Record<string, string>; // Self-published metadata (name, avatar, ...)
+}
+
+export interface AccountMetadataEntry {
+  key: string;
+  value: string | null;
+  json: unknown | null;
+  hex: string;
+  version: number | null;
+  txHash: string | null;
+  updatedAt: string;
 }
 
 export async function getDeploymentSplits(address: string): Promise<SplitConfig[]> {
@@ -148,15 +241,169 @@ export async function getDeploymentAccounts(address: string): Promise<Account[]>
   return res.json();
 }
 
+export async function getAccountMetadata(
+  address: string,
+  accountId: string,
+): Promise<{ accountId: string; metadata: AccountMetadataEntry[] }> {
+  const res = await fetch(`${API_URL}/deployments/${address}/accounts/${accountId}/metadata`);
+  if (!res.ok) throw new Error("Failed to fetch account metadata");
+  return res.json();
+}
+
+// A sender's streams of one token, as set by its latest StreamsSet for that token
+export interface AccountTokenStreams {
+  faMetadata: string;
+  symbol: string;
+  decimals: number;
+  balance: string;
+  balanceRaw: string;
+  maxEnd: string;
+  fundedUntil: string | null; // Null when the balance never runs out
+  version: number | null;
+  updatedAt: string;
+  streams: Stream[];
+}
+
+export async function getAccountStreams(
+  address: string,
+  accountId: string,
+  activeOnly = true,
+): Promise<{ accountId: string; tokens: AccountTokenStreams[] }> {
+  const res = await fetch(
+    `${API_URL}/deployments/${address}/accounts/${accountId}/streams?active=${activeOnly}`,
+  );
+  if (!res.ok) throw new Error("Failed to fetch account streams");
+  return res.json();
+}
+
+export interface AccountTokenBalance {
+  faMetadata: string;
+  symbol: string;
+  decimals: number;
+  splittable: string | null;
+  collectable: string | null;
+  receivable: string;
+  receivableCycles: string | null;
+  squeezable: string;
+  streamsBalance: string;
+  streamed: string;
+  streamedIn: string;
+  maxEnd: string;
+  live: boolean;
+  fetchedAt: string;
+}
+
+export async function getAccountBalances(
+  address: string,
+  accountId: string,
+): Promise<{ accountId: string; balances: AccountTokenBalance[] }> {
+  const res = await fetch(`${API_URL}/deployments/${address}/accounts/${accountId}/balances`);
+  if (!res.ok) throw new Error("Failed to fetch account balances");
+  return res.json();
+}
+
 export interface ActivityEvent {
   id: number;
+  deployment: string;
   eventType: string;
   accountId: string;
   data: Record<string, unknown>;
   tokenSymbol: string;
+  txHash: string | null;
+  version: number | null;
+  eventIndex: number | null;
+  timestamp: string; // On-chain block time
+  changes?: StreamChange[]; // StreamsSet only
+}
+
+export type StreamChangeType =
+  | "added"
+  | "removed"
+  | "rate_changed"
+  | "schedule_changed"
+  | "top_up"
+  | "withdrawal";
+
+export interface StreamChangeConfig {
+  amtPerSec: string;
+  rate: string;
+  rateUnit: string;
+  start: number; // 0 = when the StreamsSet happened
+  duration: number; // 0 = until the balance runs out
+}
+
+// One thing a StreamsSet changed against the sender's previous configuration
+export interface StreamChange {
+  id: number;
+  type: StreamChangeType;
+  accountId: string; // Sender
+  faMetadata: string;
+  tokenSymbol: string;
+  receiverId: string | null;
+  streamId: string | null;
+  from: StreamChangeConfig | null;
+  to: StreamChangeConfig | null;
+  amount: string | null; // Top-up / withdrawal, net of what was streamed
+  amountRaw: string | null;
+  version: number | null;
+  eventIndex: number | null;
+  txHash: string | null;
   timestamp: string;
 }
 
+export async function getStreamHistory(
+  address: string,
+  accountId: string,
+  limit = 50,
+): Promise<{ accountId: string; history: StreamChange[] }> {
+  const res = await fetch(
+    `${API_URL}/deployments/${address}/accounts/${accountId}/stream-history?limit=${limit}`,
+  );
+  if (!res.ok) throw new Error("Failed to fetch stream history");
+  return res.json();
+}
+
+// One sender configuration squeeze_streams replays - receivers are left out
+// (streamsHash set instead) when none of them is the squeezing account
+export interface SqueezeHistoryEntry {
+  streamsHash: string;
+  receivers: Array<{
+    accountId: string;
+    streamId: string;
+    amtPerSec: string;
+    start: string;
+    duration: string;
+  }>;
+  updateTime: string;
+  maxEnd: string;
+}
+
+export interface SqueezeArgs {
+  accountId: string; // Receiver
+  senderId: string;
+  faMetadata: string;
+  symbol: string;
+  squeezable: string;
+  squeezableRaw: string;
+  historyHash: string;
+  history: SqueezeHistoryEntry[];
+  function: string; // `<deployment>::drips::squeeze_streams`
+  arguments: unknown[]; // Ready for the transaction payload's functionArguments
+}
+
+export async function getSqueezeArgs(
+  address: string,
+  accountId: string,
+  senderId: string,
+  faMetadata: string,
+): Promise<SqueezeArgs> {
+  const res = await fetch(
+    `${API_URL}/deployments/${address}/accounts/${accountId}/squeeze?sender=${senderId}&token=${faMetadata}`,
+  );
+  if (!res.ok) throw new Error("Failed to fetch squeeze arguments");
+  return res.json();
+}
+
 export async function getDeploymentActivity(
   address: string,
   limit = 50,
@@ -191,15 +438,14 @@ export async function getUser(
 }
 
 export async function triggerSync(
-  options: { deployment?: string; user?: string; force?: boolean } = {},
-): Promise<{
-  success: boolean;
-  eventsProcessed: number;
-  skipped: boolean;
-  lastSyncedAt: string;
-  hasMore?: boolean;
-  cursor?: string;
-}> {
+  options: {
+    deployment?: string;
+    user?: string;
+    all?: boolean;
+    network?: string;
+    force?: boolean;
+  } = {},
+): Promise<{ success: boolean; job?: SyncJob; jobs?: SyncJob[] }> {
   const res = await fetch(`${API_URL}/sync`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -209,9 +455,70 @@ export async function triggerSync(
   return res.json();
 }
 
+export async function getSyncJob(id: number): Promise<SyncJob> {
+  const res = await fetch(`${API_URL}/sync/jobs/${id}`);
+  if (!res.ok) throw new Error("Failed to fetch sync job");
+  return res.json();
+}
+
+// Poll a queued sync job until it finishes; onProgress sees every update
+export async function waitForSyncJob(
+  job: SyncJob,
+  onProgress?: (job: SyncJob) => void,
+  intervalMs = 1000,
+): Promise<SyncJob> {
+  let current = job;
+  while (current.status === "queued" || current.status === "running") {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    const next = await getSyncJob(current.id);
+    if (next.eventsProcessed !== current.eventsProcessed || next.status !== current.status) {
+      onProgress?.(next);
+    }
+    current = next;
+  }
+  return current;
+}
+
+// Sync state pushed by the live feeds - without ageMs, work from lastSyncedAt
+export type FeedSyncStatus = Omit<SyncStatus, "ageMs">;
+
+export interface LiveFeedHandlers<S> {
+  onEvent?: (event: ActivityEvent) => void; // Each newly indexed event, in indexing order
+  onSync?: (state: S) => void; // Sync status / job progress, on connect and when it changes
+  onReset?: () => void; // Too far behind after a reconnect - reload instead
+}
+
+// EventSource reconnects on its own and resumes after the last event it saw
+function openLiveFeed<S>(url: string, handlers: LiveFeedHandlers<S>): () => void {
+  const source = new EventSource(url);
+  source.addEventListener("indexed", (e) => handlers.onEvent?.(JSON.parse(e.data)));
+  source.addEventListener("sync", (e) => handlers.onSync?.(JSON.parse(e.data)));
+  source.addEventListener("reset", () => handlers.onReset?.());
+  return () => source.close();
+}
+
+// Live events and sync progress of one deployment; returns the unsubscribe function.
+// `after` (the newest event id already loaded) replays what was indexed since
+export function subscribeDeploymentFeed(
+  address: string,
+  handlers: LiveFeedHandlers<{ status: FeedSyncStatus[]; job: SyncJob | null }>,
+  after?: number,
+): () => void {
+  const query = after !== undefined ? `?after=${after}` : "";
+  return openLiveFeed(`${API_URL}/deployments/${address}/events/stream${query}`, handlers);
+}
+
+// Live events involving a wallet, and sync progress of every deployment it is in
+export function subscribeUserFeed(
+  address: string,
+  handlers: LiveFeedHandlers<{ status: Array<FeedSyncStatus & { job: SyncJob | null }> }>,
+): () => void {
+  return openLiveFeed(`${API_URL}/users/${address}/events/stream`, handlers);
+}
+
 export async function getSyncStatus(
   deployment?: string,
-): Promise<{ status: SyncStatus[]; anyStale: boolean }> {
+): Promise<{ status: SyncStatus[]; anyStale: boolean; anyFailing: boolean }> {
   const url = deployment
     ? `${API_URL}/sync/status?deployment=${deployment}`
     : `${API_URL}/sync/status`;
@@ -1,17 +1,28 @@
 import type { ReactNode } from "react";
 import { AptosWalletAdapterProvider } from "@aptos-labs/wallet-adapter-react";
 import { Network } from "@aptos-labs/ts-sdk";
+import { useNetwork } from "./network-context";
 
 interface AptosWalletProviderProps {
   children: ReactNode;
 }
 
+// Wallets only accept networks they recognize - map ours onto the closest one
+const WALLET_NETWORKS: Record<string, Network> = {
+  "movement-mainnet": Network.MAINNET,
+  "movement-testnet": Network.DEVNET,
+  local: Network.LOCAL,
+};
+
 export function AptosWalletProvider({ children }: AptosWalletProviderProps) {
+  const { network } = useNetwork();
+
   return (
     <AptosWalletAdapterProvider
+      key={network} // Reconnect with the new config when the network changes
       autoConnect={false}
       dappConfig={{
-        network: Network.DEVNET, // Wallets need a recognized network
+        network: WALLET_NETWORKS[network] ?? Network.DEVNET,
       }}
       onError={(error) => {
         console.error("Wallet error:", error);
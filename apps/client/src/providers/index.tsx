@@ -1,5 +1,6 @@
 import type { ReactNode } from "react";
 import { AptosWalletProvider } from "./aptos-wallet-provider";
+import { NetworkProvider } from "./network-provider";
 import { ThemeProvider } from "./theme-provider";
 
 interface RootProviderProps {
@@ -9,7 +10,9 @@ interface RootProviderProps {
 export default function RootProvider({ children }: RootProviderProps) {
   return (
     <ThemeProvider>
-      <AptosWalletProvider>{children}</AptosWalletProvider>
+      <NetworkProvider>
+        <AptosWalletProvider>{children}</AptosWalletProvider>
+      </NetworkProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { NetworkInfo } from "@/lib/api";
+
+export interface NetworkContextType {
+  network: string;
+  setNetwork: (network: string) => void;
+  networks: NetworkInfo[];
+  current: NetworkInfo;
+}
+
+export const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
+
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error("useNetwork must be used within NetworkProvider");
+  }
+  return context;
+}
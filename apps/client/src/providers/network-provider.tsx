@@ -0,0 +1,38 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { getNetworks, type NetworkInfo } from "@/lib/api";
+import { NetworkContext } from "./network-context";
+
+// Shown until the server's /networks list arrives (or if it can't be reached)
+const FALLBACK_NETWORKS: NetworkInfo[] = [
+  { id: "movement-mainnet", name: "Movement Mainnet", isDefault: false, deployments: 0 },
+  { id: "movement-testnet", name: "Movement Testnet", isDefault: true, deployments: 0 },
+  { id: "local", name: "Local Devnet", isDefault: false, deployments: 0 },
+];
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const [networks, setNetworks] = useState<NetworkInfo[]>(FALLBACK_NETWORKS);
+  const [network, setNetwork] = useState<string>(() => {
+    return localStorage.getItem("network") || "movement-testnet";
+  });
+
+  useEffect(() => {
+    getNetworks()
+      .then(setNetworks)
+      .catch((err) => console.error("Failed to load networks:", err));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem("network", network);
+  }, [network]);
+
+  const current =
+    networks.find((n) => n.id === network) ??
+    networks.find((n) => n.isDefault) ??
+    networks[0];
+
+  return (
+    <NetworkContext.Provider value={{ network: current.id, setNetwork, networks, current }}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
@@ -0,0 +1,78 @@
+// Per-account balances: live view calls, backed by the off-chain ledger
+
+import { getLiveAccountBalance } from "../utils/drips.js";
+import { buildStreamsLedger, getAccountTokens } from "./ledger.js";
+import { getAccountStreamBalances, getStreamsReceivers } from "./streams.js";
+
+export interface AccountTokenBalance {
+  faMetadata: string;
+  splittable: string | null; // null when the chain could not be reached
+  collectable: string | null;
+  receivable: string;
+  receivableCycles: string | null;
+  squeezable: string;
+  streamsBalance: string;
+  streamed: string;
+  streamedIn: string;
+  maxEnd: string;
+  /** Whether the numbers come from view calls (true) or only from the ledger */
+  live: boolean;
+  fetchedAt: string;
+}
+
+/**
+ * Balances of one account for every token it has touched (or `tokens`)
+ *
+ * Chain values win when the view calls succeed; receivable and the streams
+ * balance fall back to the ledger replay otherwise. Squeezable is always
+ * computed off-chain since the view needs the sender's full history.
+ */
+export async function getAccountBalances(
+  deploymentAddress: string,
+  accountId: string,
+  tokens?: string[]
+): Promise<AccountTokenBalance[]> {
+  const ledger = await buildStreamsLedger(deploymentAddress);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const computed = new Map(
+    getAccountStreamBalances(ledger, BigInt(accountId), now).map((b) => [b.faMetadata, b])
+  );
+
+  const faMetadatas =
+    tokens && tokens.length > 0
+      ? tokens.map((t) => t.toLowerCase())
+      : [
+          ...new Set([
+            ...computed.keys(),
+            ...(await getAccountTokens(deploymentAddress, accountId)),
+          ]),
+        ];
+
+  return Promise.all(
+    faMetadatas.map(async (faMetadata) => {
+      const receivers = getStreamsReceivers(ledger, faMetadata, BigInt(accountId));
+      const chain = await getLiveAccountBalance(
+        deploymentAddress,
+        accountId,
+        faMetadata,
+        receivers
+      );
+      const offChain = computed.get(faMetadata);
+
+      return {
+        faMetadata,
+        splittable: chain.splittable,
+        collectable: chain.collectable,
+        receivable: chain.receivable ?? (offChain?.receivable ?? 0n).toString(),
+        receivableCycles: chain.receivableCycles,
+        squeezable: (offChain?.squeezable ?? 0n).toString(),
+        streamsBalance: chain.streamsBalance ?? (offChain?.remaining ?? 0n).toString(),
+        streamed: (offChain?.streamed ?? 0n).toString(),
+        streamedIn: (offChain?.streamedIn ?? 0n).toString(),
+        maxEnd: chain.streamsState?.maxEnd ?? (offChain?.maxEnd ?? 0n).toString(),
+        live: chain.splittable !== null,
+        fetchedAt: chain.fetchedAt,
+      };
+    })
+  );
+}
@@ -0,0 +1,164 @@
+// Stream changes - what a StreamsSet actually changed
+//
+// A StreamsSet replaces the sender's whole receiver list for a token, so the
+// event alone can't tell a raised rate from a new stream. Diffing it against
+// the previous configuration of the same (sender, token) gives one record per
+// change: streams added or removed, rate or schedule changes, and the balance
+// moved in or out - net of what the old configuration streamed in between.
+
+import type { Insertable, Selectable } from "kysely";
+import type { StreamChangesTable, StreamChangeType } from "../database/schema.js";
+import { formatAmount, formatRate } from "../utils/token.js";
+import { calcBalance, type StreamReceiver, type StreamsHistoryEntry } from "./streams.js";
+
+/** The parts of a change record the diff decides - the event fills in the rest */
+export type StreamChangeValues = Pick<
+  Insertable<StreamChangesTable>,
+  | "change_type"
+  | "receiver_id"
+  | "stream_id"
+  | "old_amt_per_sec"
+  | "old_start"
+  | "old_duration"
+  | "new_amt_per_sec"
+  | "new_start"
+  | "new_duration"
+  | "amount"
+>;
+
+const receiverKey = (r: StreamReceiver) => `${r.accountId}:${r.config.streamId}`;
+
+function change(
+  type: StreamChangeType,
+  receiver: StreamReceiver | null,
+  before: StreamReceiver | null,
+  after: StreamReceiver | null,
+  amount: bigint | null = null
+): StreamChangeValues {
+  return {
+    change_type: type,
+    receiver_id: receiver?.accountId.toString() ?? null,
+    stream_id: receiver?.config.streamId.toString() ?? null,
+    old_amt_per_sec: before?.config.amtPerSec.toString() ?? null,
+    old_start: before ? Number(before.config.start) : null,
+    old_duration: before ? Number(before.config.duration) : null,
+    new_amt_per_sec: after?.config.amtPerSec.toString() ?? null,
+    new_start: after ? Number(after.config.start) : null,
+    new_duration: after ? Number(after.config.duration) : null,
+    amount: amount?.toString() ?? null,
+  };
+}
+
+/**
+ * Changes from `previous` (null for the sender's first StreamsSet of the
+ * token) to `next`. Streams are matched by receiver and stream id.
+ */
+export function diffStreamsConfigs(
+  previous: StreamsHistoryEntry | null,
+  next: StreamsHistoryEntry
+): StreamChangeValues[] {
+  const changes: StreamChangeValues[] = [];
+  const before = new Map((previous?.receivers ?? []).map((r) => [receiverKey(r), r]));
+  const after = new Map(next.receivers.map((r) => [receiverKey(r), r]));
+
+  for (const [key, r] of after) {
+    const old = before.get(key);
+    if (!old) {
+      changes.push(change("added", r, null, r));
+      continue;
+    }
+    if (old.config.amtPerSec !== r.config.amtPerSec) {
+      changes.push(change("rate_changed", r, old, r));
+    }
+    if (old.config.start !== r.config.start || old.config.duration !== r.config.duration) {
+      changes.push(change("schedule_changed", r, old, r));
+    }
+  }
+  for (const [key, r] of before) {
+    if (!after.has(key)) changes.push(change("removed", r, r, null));
+  }
+
+  // Whatever the old configuration didn't stream away was still there
+  const expected = previous
+    ? calcBalance(
+        previous.balance,
+        previous.updateTime,
+        previous.maxEnd,
+        previous.receivers,
+        next.updateTime
+      )
+    : 0n;
+  const delta = next.balance - expected;
+  if (delta > 0n) changes.push(change("top_up", null, null, null, delta));
+  if (delta < 0n) changes.push(change("withdrawal", null, null, null, -delta));
+
+  return changes;
+}
+
+/** One side of a rate / schedule change */
+export interface StreamChangeConfig {
+  amtPerSec: string;
+  rate: string;
+  rateUnit: string;
+  start: number; // 0 = when the StreamsSet happened
+  duration: number; // 0 = until the balance runs out
+}
+
+export interface StreamChangeEntry {
+  id: number;
+  type: StreamChangeType;
+  accountId: string; // Sender
+  faMetadata: string;
+  tokenSymbol: string;
+  receiverId: string | null;
+  streamId: string | null;
+  from: StreamChangeConfig | null;
+  to: StreamChangeConfig | null;
+  amount: string | null;
+  amountRaw: string | null;
+  version: number | null;
+  eventIndex: number | null;
+  txHash: string | null;
+  timestamp: string;
+}
+
+function toConfig(
+  amtPerSec: string | null,
+  start: number | null,
+  duration: number | null,
+  decimals: number
+): StreamChangeConfig | null {
+  if (amtPerSec === null) return null;
+  const { value, unit } = formatRate(amtPerSec, decimals);
+  return {
+    amtPerSec,
+    rate: value,
+    rateUnit: unit,
+    start: start ?? 0,
+    duration: duration ?? 0,
+  };
+}
+
+/** Format a stored change with its token's symbol and decimals */
+export function toStreamChangeEntry(
+  row: Selectable<StreamChangesTable>,
+  token: { symbol: string; decimals: number }
+): StreamChangeEntry {
+  return {
+    id: row.id,
+    type: row.change_type,
+    accountId: row.account_id,
+    faMetadata: row.fa_metadata,
+    tokenSymbol: token.symbol,
+    receiverId: row.receiver_id,
+    streamId: row.stream_id,
+    from: toConfig(row.old_amt_per_sec, row.old_start, row.old_duration, token.decimals),
+    to: toConfig(row.new_amt_per_sec, row.new_start, row.new_duration, token.decimals),
+    amount: row.amount !== null ? formatAmount(row.amount, token.decimals) : null,
+    amountRaw: row.amount,
+    version: row.transaction_version,
+    eventIndex: row.event_index,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+  };
+}
@@ -0,0 +1,146 @@
+// Streams history - the sender configurations `squeeze_streams` replays
+//
+// Squeezing lets a receiver take what a sender streamed to it in the current,
+// unfinished cycle. The contract doesn't keep past configurations, only a
+// hash chain over them, so the caller hands the entries back together with
+// the history hash they start from.
+
+import type { Selectable } from "kysely";
+import { hashStreams, hashStreamsHistory } from "xylkit-hashing";
+import type { StreamsHistoryTable } from "../database/schema.js";
+import { cycleOf, type StreamReceiver } from "./streams.js";
+
+/** A receiver as kept in `streams_history.receivers` */
+interface StoredReceiver {
+  account_id: string;
+  stream_id: string;
+  amt_per_sec: string;
+  start: string;
+  duration: string;
+}
+
+/** One `streams::StreamsHistory` entry, as squeeze_streams takes it */
+export interface SqueezeHistoryEntry {
+  streamsHash: Uint8Array; // Empty whenever receivers are given
+  receivers: StreamReceiver[];
+  updateTime: bigint;
+  maxEnd: bigint;
+}
+
+export interface SqueezeHistory {
+  /** History hash valid right before the first entry */
+  historyHash: Uint8Array;
+  entries: SqueezeHistoryEntry[];
+}
+
+export function toStoredReceivers(receivers: StreamReceiver[]): string {
+  return JSON.stringify(
+    receivers.map((r): StoredReceiver => ({
+      account_id: r.accountId.toString(),
+      stream_id: r.config.streamId.toString(),
+      amt_per_sec: r.config.amtPerSec.toString(),
+      start: r.config.start.toString(),
+      duration: r.config.duration.toString(),
+    }))
+  );
+}
+
+export function parseStoredReceivers(json: string): StreamReceiver[] {
+  return (JSON.parse(json) as StoredReceiver[]).map((r) => ({
+    accountId: BigInt(r.account_id),
+    config: {
+      streamId: BigInt(r.stream_id),
+      amtPerSec: BigInt(r.amt_per_sec),
+      start: BigInt(r.start),
+      duration: BigInt(r.duration),
+    },
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                                 SQUEEZE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * The part of a sender's history (oldest first) that `squeeze_streams` reads
+ * for `receiverId` at `timestamp`
+ *
+ * The contract only walks the configurations set in the current cycle - just
+ * the latest one if the sender hasn't updated since the cycle started - so
+ * older entries are left out and `historyHash` starts the chain after them.
+ * Entries that don't stream to the receiver are collapsed to their streams
+ * hash: the chain still verifies and there's less to submit.
+ */
+export function buildSqueezeHistory(
+  rows: Selectable<StreamsHistoryTable>[],
+  receiverId: bigint,
+  cycleSecs: bigint,
+  timestamp: bigint
+): SqueezeHistory {
+  // `curr_cycle_configs` as set_streams keeps it
+  let currCycleConfigs = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const newCycle =
+      i > 0 &&
+      cycleOf(BigInt(rows[i - 1].update_time), cycleSecs) !==
+        cycleOf(BigInt(rows[i].update_time), cycleSecs);
+    currCycleConfigs = newCycle ? 2 : currCycleConfigs + 1;
+  }
+
+  const last = rows[rows.length - 1];
+  const currCycleStart = timestamp - (timestamp % cycleSecs);
+  const walked = last && BigInt(last.update_time) >= currCycleStart ? currCycleConfigs : 1;
+  const first = Math.max(rows.length - walked, 0);
+
+  let historyHash: Uint8Array = new Uint8Array();
+  const entries: SqueezeHistoryEntry[] = [];
+  rows.forEach((row, i) => {
+    const receivers = parseStoredReceivers(row.receivers);
+    const streamsHash = hashStreams(receivers);
+    const updateTime = BigInt(row.update_time);
+    const maxEnd = BigInt(row.max_end);
+
+    if (i >= first) {
+      const streamsToReceiver = receivers.some((r) => r.accountId === receiverId);
+      entries.push({
+        streamsHash: streamsToReceiver ? new Uint8Array() : streamsHash,
+        receivers: streamsToReceiver ? receivers : [],
+        updateTime,
+        maxEnd,
+      });
+    } else {
+      historyHash = hashStreamsHistory(historyHash, streamsHash, updateTime, maxEnd);
+    }
+  });
+
+  return { historyHash, entries };
+}
+
+/**
+ * Arguments of `drips::squeeze_streams`, in order, the way the Aptos SDK
+ * takes them: byte vectors as byte arrays, integers as decimal strings
+ */
+export function squeezeStreamsArguments(
+  accountId: string,
+  faMetadata: string,
+  senderId: string,
+  { historyHash, entries }: SqueezeHistory
+): unknown[] {
+  const receiverField = (pick: (r: StreamReceiver) => bigint) =>
+    entries.map((e) => e.receivers.map((r) => pick(r).toString()));
+
+  return [
+    accountId,
+    faMetadata,
+    senderId,
+    Array.from(historyHash),
+    entries.map((e) => Array.from(e.streamsHash)),
+    receiverField((r) => r.accountId),
+    receiverField((r) => r.config.streamId),
+    receiverField((r) => r.config.amtPerSec),
+    receiverField((r) => r.config.start),
+    receiverField((r) => r.config.duration),
+    entries.map((e) => e.updateTime.toString()),
+    entries.map((e) => e.maxEnd.toString()),
+  ];
+}
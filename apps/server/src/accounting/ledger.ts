@@ -0,0 +1,227 @@
+// Builds a StreamsLedger for a deployment from its indexed events
+
+import { sql } from "kysely";
+import { getDb } from "../database/connection.js";
+import type {
+  ReceivedEventData,
+  SqueezedEventData,
+  StreamsSetEventData,
+} from "../indexer/types.js";
+import { getDeploymentNetwork } from "../utils/network.js";
+import { rpcGetOptional } from "../utils/rpc.js";
+import {
+  applyReceived,
+  applySqueezed,
+  applyStreamsSet,
+  createStreamsLedger,
+  DEFAULT_CYCLE_SECS,
+  type StreamReceiver,
+  type StreamsLedger,
+} from "./streams.js";
+
+const LEDGER_EVENT_TYPES = ["StreamsSet", "Received", "Squeezed"];
+
+// cycle_secs is fixed at deployment time, cache it for the process lifetime
+const cycleSecsCache = new Map<string, bigint>();
+
+// Last built ledger per deployment, reused until a new event is indexed
+const ledgerCache = new Map<string, { lastEventId: number; ledger: StreamsLedger }>();
+
+/**
+ * Read cycle_secs from the deployment's StreamsStorage resource
+ * Falls back to the drips.move default if the resource can't be read
+ */
+export async function getCycleSecs(deploymentAddress: string): Promise<bigint> {
+  const cached = cycleSecsCache.get(deploymentAddress);
+  if (cached) return cached;
+
+  try {
+    const resource = await rpcGetOptional<{ data: { cycle_secs: string } }>(
+      await getDeploymentNetwork(deploymentAddress),
+      `/accounts/${deploymentAddress}/resource/${deploymentAddress}::streams::StreamsStorage`
+    );
+    if (!resource) return DEFAULT_CYCLE_SECS;
+
+    const cycleSecs = BigInt(resource.data.cycle_secs);
+    cycleSecsCache.set(deploymentAddress, cycleSecs);
+    return cycleSecs;
+  } catch {
+    return DEFAULT_CYCLE_SECS;
+  }
+}
+
+/** Block time of a stored event in whole seconds, as the contract sees it */
+function toChainSeconds(timestamp: string): bigint {
+  return BigInt(Math.floor(new Date(timestamp).getTime() / 1000));
+}
+
+/** A StreamsSet's receiver list, as the streams math takes it */
+export function parseReceivers(data: StreamsSetEventData): StreamReceiver[] {
+  return data.receiver_account_ids.map((accountId, i) => ({
+    accountId: BigInt(accountId),
+    config: {
+      streamId: BigInt(data.receiver_stream_ids[i]),
+      amtPerSec: BigInt(data.receiver_amt_per_secs[i]),
+      start: BigInt(data.receiver_starts[i]),
+      duration: BigInt(data.receiver_durations[i]),
+    },
+  }));
+}
+
+/**
+ * Replay a deployment's StreamsSet, Received and Squeezed events in chain
+ * order into a fresh ledger
+ */
+export async function buildStreamsLedger(
+  deploymentAddress: string
+): Promise<StreamsLedger> {
+  const db = getDb();
+
+  const latest = await db
+    .selectFrom("events")
+    .select((eb) => eb.fn.max("id").as("last_id"))
+    .where("deployment_address", "=", deploymentAddress)
+    .where("event_type", "in", LEDGER_EVENT_TYPES)
+    .executeTakeFirst();
+  const lastEventId = Number(latest?.last_id ?? 0);
+
+  const cached = ledgerCache.get(deploymentAddress);
+  if (cached && cached.lastEventId === lastEventId) {
+    return cached.ledger;
+  }
+
+  const ledger = createStreamsLedger(await getCycleSecs(deploymentAddress));
+
+  const events = await db
+    .selectFrom("events")
+    .select(["event_type", "data", "timestamp"])
+    .where("deployment_address", "=", deploymentAddress)
+    .where("event_type", "in", LEDGER_EVENT_TYPES)
+    .orderBy("transaction_version", "asc")
+    .orderBy("event_index", "asc")
+    .orderBy("id", "asc")
+    .execute();
+  replayLedgerEvents(ledger, events);
+
+  ledgerCache.set(deploymentAddress, { lastEventId, ledger });
+  return ledger;
+}
+
+/**
+ * Ledger holding just what `squeeze_streams` reads for one receiver and
+ * sender: the sender's StreamsSets and the receiver's earlier squeezes from
+ * that sender, in one token
+ */
+export async function buildSqueezeLedger(
+  deploymentAddress: string,
+  faMetadata: string,
+  accountId: string,
+  senderId: string
+): Promise<StreamsLedger> {
+  const ledger = createStreamsLedger(await getCycleSecs(deploymentAddress));
+
+  const events = await getDb()
+    .selectFrom("events")
+    .select(["event_type", "data", "timestamp"])
+    .where("deployment_address", "=", deploymentAddress)
+    .where(sql`json_extract(data, '$.fa_metadata')`, "=", faMetadata)
+    .where((eb) =>
+      eb.or([
+        eb.and([eb("event_type", "=", "StreamsSet"), eb("account_id", "=", senderId)]),
+        eb.and([
+          eb("event_type", "=", "Squeezed"),
+          eb("account_id", "=", accountId),
+          eb(sql`json_extract(data, '$.sender_id')`, "=", senderId),
+        ]),
+      ])
+    )
+    .orderBy("transaction_version", "asc")
+    .orderBy("event_index", "asc")
+    .orderBy("id", "asc")
+    .execute();
+  replayLedgerEvents(ledger, events);
+
+  return ledger;
+}
+
+/** Apply stored StreamsSet, Received and Squeezed events, in the order given */
+function replayLedgerEvents(
+  ledger: StreamsLedger,
+  events: Array<{ event_type: string; data: string; timestamp: string }>
+): void {
+  for (const e of events) {
+    const timestamp = toChainSeconds(e.timestamp);
+    try {
+      switch (e.event_type) {
+        case "StreamsSet": {
+          const data = JSON.parse(e.data) as StreamsSetEventData;
+          applyStreamsSet(
+            ledger,
+            data.fa_metadata,
+            BigInt(data.account_id),
+            parseReceivers(data),
+            BigInt(data.balance),
+            BigInt(data.max_end),
+            timestamp
+          );
+          break;
+        }
+        case "Received": {
+          const data = JSON.parse(e.data) as ReceivedEventData;
+          applyReceived(
+            ledger,
+            data.fa_metadata,
+            BigInt(data.account_id),
+            BigInt(data.amount),
+            timestamp
+          );
+          break;
+        }
+        case "Squeezed": {
+          const data = JSON.parse(e.data) as SqueezedEventData;
+          applySqueezed(
+            ledger,
+            data.fa_metadata,
+            BigInt(data.account_id),
+            BigInt(data.sender_id),
+            BigInt(data.amount),
+            timestamp
+          );
+          break;
+        }
+      }
+    } catch (err) {
+      console.error(`[Ledger] Skipping malformed ${e.event_type} event:`, err);
+    }
+  }
+}
+
+/**
+ * Every token an account has touched in a deployment: streams it sent or
+ * received, funds given to or by it, and anything it split or collected
+ */
+export async function getAccountTokens(
+  deploymentAddress: string,
+  accountId: string
+): Promise<string[]> {
+  const db = getDb();
+  const rows = await db
+    .selectFrom("events")
+    .select(sql<string>`json_extract(data, '$.fa_metadata')`.as("fa_metadata"))
+    .distinct()
+    .where("deployment_address", "=", deploymentAddress)
+    .where((eb) =>
+      eb.or([
+        eb("account_id", "=", accountId),
+        eb(sql`json_extract(data, '$.receiver_id')`, "=", accountId),
+        eb(sql`json_extract(data, '$.receiver_account_ids')`, "like", `%"${accountId}"%`),
+      ])
+    )
+    .execute();
+
+  return [
+    ...new Set(
+      rows.map((r) => r.fa_metadata?.toLowerCase()).filter((fa): fa is string => !!fa)
+    ),
+  ];
+}
@@ -0,0 +1,156 @@
+// Stream lifecycle - where a configured stream stands at a point in time
+//
+// A `streams` row only changes when its sender emits a StreamsSet, but streams
+// also end on their own: when their duration elapses, or at the sender's
+// max_end, once the balance can't fund them any longer. Every StreamsSet
+// records when each of its streams starts and stops by itself (starts_at,
+// ends_at) and when dropped streams were stopped (stopped_at), so the status
+// can be told at read time - here for one row, in `liveStreams` /
+// `streamingStreams` for SQL filters.
+
+import type { ExpressionBuilder, Selectable } from "kysely";
+import type { DB, StreamsTable } from "../database/schema.js";
+
+export const STREAM_STATUSES = [
+  "scheduled", // Starts in the future
+  "streaming",
+  "ended", // Its duration elapsed
+  "out_of_funds", // The sender balance ran out at max_end
+  "stopped", // The sender's next StreamsSet dropped it
+] as const;
+
+export type StreamStatus = (typeof STREAM_STATUSES)[number];
+
+export interface StreamLifecycle {
+  status: StreamStatus;
+  /** Scheduled or streaming */
+  active: boolean;
+  /** When the stream starts (or started) streaming, unix seconds */
+  startsAt: number;
+  /** When it stops (or stopped) - null while it runs until its sender stops it */
+  endsAt: number | null;
+}
+
+// max_end beyond any real timestamp means the balance never runs out
+const NEVER = 2n ** 53n;
+
+const toSeconds = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+/** max_end as seconds, null when the balance lasts forever */
+export function fundedUntil(maxEnd: string): number | null {
+  const value = BigInt(maxEnd);
+  return value < NEVER ? Number(value) : null;
+}
+
+/**
+ * Where a stream configured at `updateTime` (seconds) stops by itself: when
+ * its duration runs out or at the sender's max_end, whichever comes first
+ */
+export function streamEnd(
+  config: { start: number; duration: number },
+  updateTime: number,
+  maxEnd: string
+): number | null {
+  const durationEnd =
+    config.duration > 0 ? (config.start || updateTime) + config.duration : null;
+  const fundsEnd = fundedUntil(maxEnd);
+  if (durationEnd === null) return fundsEnd;
+  return fundsEnd === null ? durationEnd : Math.min(durationEnd, fundsEnd);
+}
+
+/** Status of a stored stream at `now` (ms) */
+export function getStreamLifecycle(
+  stream: Selectable<StreamsTable>,
+  now = Date.now()
+): StreamLifecycle {
+  const nowSecs = Math.floor(now / 1000);
+  // Rows written before lifecycle columns existed: no max_end, start from the row
+  const startsAt = stream.starts_at ?? (stream.start_time || toSeconds(stream.created_at));
+  const naturalEnd =
+    stream.max_end !== null
+      ? stream.ends_at
+      : stream.duration > 0
+        ? startsAt + stream.duration
+        : null;
+  const stoppedAt = stream.active
+    ? null
+    : toSeconds(stream.stopped_at ?? stream.updated_at);
+
+  let status: StreamStatus;
+  let endsAt = naturalEnd;
+  if (stoppedAt !== null && (naturalEnd === null || stoppedAt < naturalEnd)) {
+    status = "stopped";
+    endsAt = stoppedAt;
+  } else if (naturalEnd !== null && (naturalEnd <= nowSecs || naturalEnd <= startsAt)) {
+    const fundsEnd = stream.max_end !== null ? fundedUntil(stream.max_end) : null;
+    status = fundsEnd !== null && naturalEnd >= fundsEnd ? "out_of_funds" : "ended";
+  } else {
+    status = nowSecs < startsAt ? "scheduled" : "streaming";
+  }
+
+  return {
+    status,
+    active: status === "scheduled" || status === "streaming",
+    startsAt,
+    endsAt,
+  };
+}
+
+/** SQL filter for streams that are scheduled or streaming at `now` (ms) */
+export function liveStreams(now = Date.now()) {
+  const nowSecs = Math.floor(now / 1000);
+  return (eb: ExpressionBuilder<DB, "streams">) =>
+    eb.and([
+      eb("active", "=", 1),
+      eb.or([
+        eb("ends_at", "is", null),
+        eb.and([
+          eb("ends_at", ">", nowSecs),
+          eb.or([eb("starts_at", "is", null), eb("ends_at", ">", eb.ref("starts_at"))]),
+        ]),
+      ]),
+    ]);
+}
+
+/** SQL filter for streams that are streaming at `now` (ms) */
+export function streamingStreams(now = Date.now()) {
+  const nowSecs = Math.floor(now / 1000);
+  return (eb: ExpressionBuilder<DB, "streams">) =>
+    eb.and([
+      liveStreams(now)(eb),
+      eb.or([eb("starts_at", "is", null), eb("starts_at", "<=", nowSecs)]),
+    ]);
+}
+
+/** Short human description - "3d left", "2h (stopped)", "ended 5d ago" */
+export function describeStream(lifecycle: StreamLifecycle, now = Date.now()): string {
+  const nowSecs = Math.floor(now / 1000);
+  const { status, startsAt, endsAt } = lifecycle;
+  switch (status) {
+    case "scheduled":
+      return `starts in ${formatDuration(startsAt - nowSecs)}`;
+    case "streaming": {
+      if (endsAt !== null) return formatDuration(endsAt - nowSecs) + " left";
+      const runningFor = nowSecs - startsAt;
+      return runningFor > 60 ? formatDuration(runningFor) + " running" : "ongoing";
+    }
+    case "stopped": {
+      const ranFor = (endsAt ?? nowSecs) - startsAt;
+      return ranFor > 0 ? formatDuration(ranFor) + " (stopped)" : "stopped";
+    }
+    case "ended":
+      return `ended ${formatDuration(nowSecs - (endsAt ?? nowSecs))} ago`;
+    case "out_of_funds":
+      return endsAt !== null && endsAt > startsAt
+        ? `out of funds ${formatDuration(nowSecs - endsAt)} ago`
+        : "out of funds";
+  }
+}
+
+// Format duration in seconds to human readable
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
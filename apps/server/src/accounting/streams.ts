@@ -0,0 +1,641 @@
+// Off-chain stream accounting
+//
+// A TypeScript port of the cycle/delta bookkeeping in streams.move. Replaying
+// the StreamsSet, Received and Squeezed events of a deployment through these
+// functions reproduces the on-chain StreamsState of every (token, account)
+// pair, which lets the API answer "how much has been streamed, what is left,
+// what can be received or squeezed" without a view call per account.
+//
+// All amounts and timestamps are bigints: amt_per_sec carries 9 extra decimals
+// and max_end can be u64::MAX, neither of which fits in a JS number.
+
+/** amt_per_sec is stored with this many extra decimals (1e9) */
+export const AMT_PER_SEC_MULTIPLIER = 1_000_000_000n;
+
+/** Cycle length used by drips.move unless the deployment was built with another one */
+export const DEFAULT_CYCLE_SECS = 60n;
+
+const MAX_U64 = 2n ** 64n - 1n;
+
+export interface StreamConfig {
+  streamId: bigint;
+  amtPerSec: bigint; // With AMT_PER_SEC_MULTIPLIER extra decimals
+  start: bigint; // 0 = starts at the update time
+  duration: bigint; // 0 = runs until max_end
+}
+
+export interface StreamReceiver {
+  accountId: bigint;
+  config: StreamConfig;
+}
+
+/** One sender configuration, as recorded in the contract's streams history */
+export interface StreamsHistoryEntry {
+  receivers: StreamReceiver[];
+  updateTime: bigint;
+  maxEnd: bigint;
+  balance: bigint; // Balance right after the update
+}
+
+interface AmtDelta {
+  thisCycle: bigint;
+  nextCycle: bigint;
+}
+
+/** Mirror of `streams::StreamsState` for one (token, account) pair */
+export interface StreamsState {
+  // Sender side
+  receivers: StreamReceiver[];
+  updateTime: bigint;
+  maxEnd: bigint;
+  balance: bigint;
+  currCycleConfigs: bigint;
+  history: StreamsHistoryEntry[];
+  // Receiver side
+  nextReceivableCycle: bigint;
+  amtDeltas: Map<bigint, AmtDelta>;
+  nextSqueezed: Map<string, bigint>; // `${senderId}:${configIndex}` -> timestamp
+}
+
+export interface StreamsLedger {
+  cycleSecs: bigint;
+  states: Map<string, StreamsState>; // `${faMetadata}:${accountId}` -> state
+}
+
+export interface ReceivableStreams {
+  amount: bigint;
+  fromCycle: bigint;
+  toCycle: bigint;
+}
+
+/** Per-token view of one account's streams at a point in time */
+export interface AccountStreamBalance {
+  faMetadata: string;
+  /** Total the account has streamed out as a sender */
+  streamed: bigint;
+  /** Sender balance not yet streamed */
+  remaining: bigint;
+  /** When the sender balance runs out (u64::MAX if it never does) */
+  maxEnd: bigint;
+  /** Total streamed to the account as a receiver, received or not */
+  streamedIn: bigint;
+  /** Amount receive_streams would move to splittable, from completed cycles */
+  receivable: bigint;
+  /** Amount squeeze_streams could take from the current cycle, all senders */
+  squeezable: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CORE MATH
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Cycle containing the timestamp - there is never a cycle 0 */
+export function cycleOf(timestamp: bigint, cycleSecs: bigint): bigint {
+  return timestamp / cycleSecs + 1n;
+}
+
+function cycleStart(timestamp: bigint, cycleSecs: bigint): bigint {
+  return timestamp - (timestamp % cycleSecs);
+}
+
+const maxBig = (a: bigint, b: bigint) => (a > b ? a : b);
+const minBig = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/** floor(end × rate) - floor(start × rate), the contract's rounding */
+export function streamedAmt(amtPerSec: bigint, start: bigint, end: bigint): bigint {
+  if (end <= start) return 0n;
+  return (
+    (end * amtPerSec) / AMT_PER_SEC_MULTIPLIER -
+    (start * amtPerSec) / AMT_PER_SEC_MULTIPLIER
+  );
+}
+
+/** Time range in which a receiver is streamed to, capped to [startCap, endCap] */
+export function streamRange(
+  config: StreamConfig,
+  updateTime: bigint,
+  maxEnd: bigint,
+  startCap: bigint,
+  endCap: bigint
+): [bigint, bigint] {
+  const streamStart = config.start === 0n ? updateTime : config.start;
+  let streamEnd = streamStart + config.duration;
+  // Duration 0 (forever) or past max_end is capped to max_end
+  if (streamEnd === streamStart || streamEnd > maxEnd) {
+    streamEnd = maxEnd;
+  }
+  const start = maxBig(streamStart, startCap);
+  const end = maxBig(minBig(streamEnd, endCap), start);
+  return [start, end];
+}
+
+/** Sender balance at `timestamp` given the configuration set at `lastUpdate` */
+export function calcBalance(
+  lastBalance: bigint,
+  lastUpdate: bigint,
+  maxEnd: bigint,
+  receivers: StreamReceiver[],
+  timestamp: bigint
+): bigint {
+  let balance = lastBalance;
+  for (const receiver of receivers) {
+    const [start, end] = streamRange(
+      receiver.config,
+      lastUpdate,
+      maxEnd,
+      lastUpdate,
+      timestamp
+    );
+    balance -= streamedAmt(receiver.config.amtPerSec, start, end);
+  }
+  return balance;
+}
+
+/** Receivers are sorted by account id, then stream id, rate, start and duration */
+function isOrdered(prev: StreamReceiver, next: StreamReceiver): boolean {
+  if (prev.accountId !== next.accountId) return prev.accountId < next.accountId;
+  const a = prev.config;
+  const b = next.config;
+  if (a.streamId !== b.streamId) return a.streamId < b.streamId;
+  if (a.amtPerSec !== b.amtPerSec) return a.amtPerSec < b.amtPerSec;
+  if (a.start !== b.start) return a.start < b.start;
+  return a.duration < b.duration;
+}
+
+// BigInt division truncates toward zero, same as the contract's signed I256
+function addDelta(
+  amtDeltas: Map<bigint, AmtDelta>,
+  timestamp: bigint,
+  amtPerSec: bigint,
+  cycleSecs: bigint
+): void {
+  const fullCycle = (cycleSecs * amtPerSec) / AMT_PER_SEC_MULTIPLIER;
+  const nextCycle = ((timestamp % cycleSecs) * amtPerSec) / AMT_PER_SEC_MULTIPLIER;
+  const cycle = cycleOf(timestamp, cycleSecs);
+
+  const delta = amtDeltas.get(cycle) ?? { thisCycle: 0n, nextCycle: 0n };
+  delta.thisCycle += fullCycle - nextCycle;
+  delta.nextCycle += nextCycle;
+  amtDeltas.set(cycle, delta);
+}
+
+function addDeltaRange(
+  state: StreamsState,
+  start: bigint,
+  end: bigint,
+  amtPerSec: bigint,
+  cycleSecs: bigint
+): void {
+  if (start === end) return;
+  addDelta(state.amtDeltas, start, amtPerSec, cycleSecs);
+  addDelta(state.amtDeltas, end, -amtPerSec, cycleSecs);
+}
+
+function processCycles(
+  state: StreamsState,
+  fromCycle: bigint,
+  toCycle: bigint
+): { received: bigint; amtPerCycle: bigint } {
+  let received = 0n;
+  let amtPerCycle = 0n;
+  for (let cycle = fromCycle; cycle < toCycle; cycle++) {
+    const delta = state.amtDeltas.get(cycle);
+    if (delta) {
+      amtPerCycle += delta.thisCycle;
+      received += amtPerCycle;
+      amtPerCycle += delta.nextCycle;
+    } else {
+      received += amtPerCycle;
+    }
+  }
+  return { received, amtPerCycle };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              LEDGER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createStreamsLedger(cycleSecs = DEFAULT_CYCLE_SECS): StreamsLedger {
+  return { cycleSecs, states: new Map() };
+}
+
+const stateKey = (faMetadata: string, accountId: bigint) =>
+  `${faMetadata.toLowerCase()}:${accountId}`;
+
+function getState(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint
+): StreamsState | undefined {
+  return ledger.states.get(stateKey(faMetadata, accountId));
+}
+
+function ensureState(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint
+): StreamsState {
+  const key = stateKey(faMetadata, accountId);
+  let state = ledger.states.get(key);
+  if (!state) {
+    state = {
+      receivers: [],
+      updateTime: 0n,
+      maxEnd: 0n,
+      balance: 0n,
+      currCycleConfigs: 0n,
+      history: [],
+      nextReceivableCycle: 0n,
+      amtDeltas: new Map(),
+      nextSqueezed: new Map(),
+    };
+    ledger.states.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Apply a StreamsSet event emitted at `timestamp` (block time, seconds)
+ *
+ * Two-pointer merge of the previous and new receiver lists, exactly as
+ * `update_receiver_states` does on chain.
+ */
+export function applyStreamsSet(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  senderId: bigint,
+  receivers: StreamReceiver[],
+  balance: bigint,
+  maxEnd: bigint,
+  timestamp: bigint
+): void {
+  const { cycleSecs } = ledger;
+  const sender = ensureState(ledger, faMetadata, senderId);
+  const currReceivers = sender.receivers;
+  const lastUpdate = sender.updateTime;
+  const currMaxEnd = sender.maxEnd;
+
+  let currIdx = 0;
+  let newIdx = 0;
+  for (;;) {
+    let pickCurr = currIdx < currReceivers.length;
+    let pickNew = newIdx < receivers.length;
+    const curr = currReceivers[currIdx];
+    const next = receivers[newIdx];
+
+    // Only shift an existing stream when nothing but its timing changed
+    if (pickCurr && pickNew) {
+      if (
+        curr.accountId !== next.accountId ||
+        curr.config.amtPerSec !== next.config.amtPerSec
+      ) {
+        pickCurr = isOrdered(curr, next);
+        pickNew = !pickCurr;
+      }
+    }
+
+    if (pickCurr && pickNew) {
+      const state = ensureState(ledger, faMetadata, curr.accountId);
+      const [currStart, currEnd] = streamRange(
+        curr.config,
+        lastUpdate,
+        currMaxEnd,
+        timestamp,
+        MAX_U64
+      );
+      const [newStart, newEnd] = streamRange(
+        next.config,
+        timestamp,
+        maxEnd,
+        timestamp,
+        MAX_U64
+      );
+      const amtPerSec = curr.config.amtPerSec;
+      addDeltaRange(state, currStart, newStart, -amtPerSec, cycleSecs);
+      addDeltaRange(state, currEnd, newEnd, amtPerSec, cycleSecs);
+
+      const currStartCycle = cycleOf(currStart, cycleSecs);
+      const newStartCycle = cycleOf(newStart, cycleSecs);
+      if (currStartCycle > newStartCycle && state.nextReceivableCycle > newStartCycle) {
+        state.nextReceivableCycle = newStartCycle;
+      }
+      currIdx++;
+      newIdx++;
+    } else if (pickCurr) {
+      const state = ensureState(ledger, faMetadata, curr.accountId);
+      const [start, end] = streamRange(
+        curr.config,
+        lastUpdate,
+        currMaxEnd,
+        timestamp,
+        MAX_U64
+      );
+      addDeltaRange(state, start, end, -curr.config.amtPerSec, cycleSecs);
+      currIdx++;
+    } else if (pickNew) {
+      const state = ensureState(ledger, faMetadata, next.accountId);
+      const [start, end] = streamRange(next.config, timestamp, maxEnd, timestamp, MAX_U64);
+      addDeltaRange(state, start, end, next.config.amtPerSec, cycleSecs);
+
+      const startCycle = cycleOf(start, cycleSecs);
+      if (state.nextReceivableCycle === 0n || state.nextReceivableCycle > startCycle) {
+        state.nextReceivableCycle = startCycle;
+      }
+      newIdx++;
+    } else {
+      break;
+    }
+  }
+
+  // A new cycle restarts the count at 2: the last config of the previous
+  // cycle still streams into this one
+  if (
+    sender.history.length > 0 &&
+    cycleOf(lastUpdate, cycleSecs) !== cycleOf(timestamp, cycleSecs)
+  ) {
+    sender.currCycleConfigs = 2n;
+  } else {
+    sender.currCycleConfigs += 1n;
+  }
+
+  sender.receivers = receivers;
+  sender.updateTime = timestamp;
+  sender.maxEnd = maxEnd;
+  sender.balance = balance;
+  sender.history.push({ receivers, updateTime: timestamp, maxEnd, balance });
+}
+
+/**
+ * Amount `receive_streams` would return at `timestamp` with unlimited cycles
+ */
+export function receivableStreams(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint,
+  timestamp: bigint
+): ReceivableStreams {
+  const state = getState(ledger, faMetadata, accountId);
+  if (!state) return { amount: 0n, fromCycle: 0n, toCycle: 0n };
+
+  const fromCycle = state.nextReceivableCycle;
+  const toCycle = cycleOf(timestamp, ledger.cycleSecs);
+  if (fromCycle === 0n || toCycle < fromCycle) {
+    return { amount: 0n, fromCycle, toCycle: fromCycle };
+  }
+
+  const { received } = processCycles(state, fromCycle, toCycle);
+  return { amount: received, fromCycle, toCycle };
+}
+
+/**
+ * Apply a Received event
+ *
+ * The event does not say how many cycles were processed. The full receivable
+ * range is assumed unless its total differs from the received amount, in which
+ * case the shortest range adding up to the amount is used (a capped
+ * `max_cycles` call).
+ */
+export function applyReceived(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint,
+  amount: bigint,
+  timestamp: bigint
+): void {
+  const state = getState(ledger, faMetadata, accountId);
+  if (!state) return;
+
+  const {
+    amount: fullAmount,
+    fromCycle,
+    toCycle: fullToCycle,
+  } = receivableStreams(ledger, faMetadata, accountId, timestamp);
+  if (fromCycle >= fullToCycle) return;
+
+  let toCycle = fullToCycle;
+  if (fullAmount !== amount) {
+    // Same accumulation as processCycles, stopping where the total matches
+    let received = 0n;
+    let amtPerCycle = 0n;
+    for (let cycle = fromCycle; cycle < fullToCycle - 1n; cycle++) {
+      const delta = state.amtDeltas.get(cycle);
+      amtPerCycle += delta?.thisCycle ?? 0n;
+      received += amtPerCycle;
+      amtPerCycle += delta?.nextCycle ?? 0n;
+      if (received === amount) {
+        toCycle = cycle + 1n;
+        break;
+      }
+    }
+  }
+
+  const { amtPerCycle } = processCycles(state, fromCycle, toCycle);
+  state.nextReceivableCycle = toCycle;
+  for (let cycle = fromCycle; cycle < toCycle; cycle++) {
+    state.amtDeltas.delete(cycle);
+  }
+  // The delta after the last received cycle becomes absolute
+  if (amtPerCycle !== 0n) {
+    const delta = state.amtDeltas.get(toCycle) ?? { thisCycle: 0n, nextCycle: 0n };
+    delta.thisCycle += amtPerCycle;
+    state.amtDeltas.set(toCycle, delta);
+  }
+}
+
+/**
+ * Walk the sender's configurations active in the current cycle, newest first,
+ * as `squeeze_streams_result` does. Returns the squeezable amount and the
+ * config indexes that would be marked as squeezed.
+ */
+function squeezeResult(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint,
+  senderId: bigint,
+  timestamp: bigint
+): { amount: bigint; configIndexes: bigint[] } {
+  const sender = getState(ledger, faMetadata, senderId);
+  if (!sender) return { amount: 0n, configIndexes: [] };
+
+  const receiver = getState(ledger, faMetadata, accountId);
+  const currCycleStart = cycleStart(timestamp, ledger.cycleSecs);
+  const currCycleConfigs =
+    sender.updateTime >= currCycleStart ? sender.currCycleConfigs : 1n;
+
+  let amount = 0n;
+  const configIndexes: bigint[] = [];
+  let endCap = timestamp;
+  const history = sender.history;
+
+  for (let i = 1n; i <= BigInt(history.length) && i <= currCycleConfigs; i++) {
+    const entry = history[history.length - Number(i)];
+    const configIndex = currCycleConfigs - i;
+
+    if (entry.receivers.length > 0) {
+      const nextSqueezed = receiver?.nextSqueezed.get(`${senderId}:${configIndex}`) ?? 0n;
+      const startCap = maxBig(maxBig(nextSqueezed, currCycleStart), entry.updateTime);
+      if (startCap < endCap) {
+        configIndexes.push(configIndex);
+        for (const r of entry.receivers) {
+          if (r.accountId !== accountId) continue;
+          const [start, end] = streamRange(
+            r.config,
+            entry.updateTime,
+            entry.maxEnd,
+            startCap,
+            endCap
+          );
+          amount += streamedAmt(r.config.amtPerSec, start, end);
+        }
+      }
+    }
+    endCap = entry.updateTime;
+  }
+
+  return { amount, configIndexes };
+}
+
+/** Amount `squeeze_streams` would return for one sender at `timestamp` */
+export function squeezableStreams(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint,
+  senderId: bigint,
+  timestamp: bigint
+): bigint {
+  return squeezeResult(ledger, faMetadata, accountId, senderId, timestamp).amount;
+}
+
+/** Apply a Squeezed event - `amount` comes from the event and is authoritative */
+export function applySqueezed(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint,
+  senderId: bigint,
+  amount: bigint,
+  timestamp: bigint
+): void {
+  const { configIndexes } = squeezeResult(
+    ledger,
+    faMetadata,
+    accountId,
+    senderId,
+    timestamp
+  );
+  const state = ensureState(ledger, faMetadata, accountId);
+
+  for (const configIndex of configIndexes) {
+    state.nextSqueezed.set(`${senderId}:${configIndex}`, timestamp);
+  }
+
+  // Move the squeezed amount out of the current cycle so receive_streams
+  // does not pay it again
+  if (amount > 0n) {
+    const start = cycleStart(timestamp, ledger.cycleSecs);
+    addDeltaRange(
+      state,
+      start,
+      start + 1n,
+      -amount * AMT_PER_SEC_MULTIPLIER,
+      ledger.cycleSecs
+    );
+  }
+}
+
+/** The sender's current receiver list, as `balance_at` expects it */
+export function getStreamsReceivers(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint
+): StreamReceiver[] {
+  return getState(ledger, faMetadata, accountId)?.receivers ?? [];
+}
+
+/** Sender balance at `timestamp`, like the `balance_at` view */
+export function balanceAt(
+  ledger: StreamsLedger,
+  faMetadata: string,
+  accountId: bigint,
+  timestamp: bigint
+): bigint {
+  const state = getState(ledger, faMetadata, accountId);
+  if (!state) return 0n;
+  return calcBalance(
+    state.balance,
+    state.updateTime,
+    state.maxEnd,
+    state.receivers,
+    maxBig(timestamp, state.updateTime)
+  );
+}
+
+/**
+ * Amount streamed under each configuration of a sender up to `timestamp`,
+ * optionally only the part that went to one receiver
+ */
+function streamedFromHistory(
+  history: StreamsHistoryEntry[],
+  timestamp: bigint,
+  receiverId?: bigint
+): bigint {
+  let total = 0n;
+  history.forEach((entry, i) => {
+    const until = minBig(history[i + 1]?.updateTime ?? timestamp, timestamp);
+    for (const r of entry.receivers) {
+      if (receiverId !== undefined && r.accountId !== receiverId) continue;
+      const [start, end] = streamRange(
+        r.config,
+        entry.updateTime,
+        entry.maxEnd,
+        entry.updateTime,
+        until
+      );
+      total += streamedAmt(r.config.amtPerSec, start, end);
+    }
+  });
+  return total;
+}
+
+/**
+ * Everything the ledger knows about one account at `timestamp`, one row per
+ * token the account has streamed or been streamed
+ */
+export function getAccountStreamBalances(
+  ledger: StreamsLedger,
+  accountId: bigint,
+  timestamp: bigint
+): AccountStreamBalance[] {
+  const tokens = new Set<string>();
+  for (const key of ledger.states.keys()) {
+    const [faMetadata, id] = key.split(":");
+    if (id === accountId.toString()) tokens.add(faMetadata);
+  }
+
+  return [...tokens].map((faMetadata) => {
+    const state = getState(ledger, faMetadata, accountId)!;
+
+    // Incoming: scan every sender of this token that ever listed the account
+    let streamedIn = 0n;
+    let squeezable = 0n;
+    for (const [key, sender] of ledger.states) {
+      if (!key.startsWith(`${faMetadata}:`)) continue;
+      const listsAccount = sender.history.some((entry) =>
+        entry.receivers.some((r) => r.accountId === accountId)
+      );
+      if (!listsAccount) continue;
+      const senderId = BigInt(key.slice(faMetadata.length + 1));
+      streamedIn += streamedFromHistory(sender.history, timestamp, accountId);
+      squeezable += squeezableStreams(ledger, faMetadata, accountId, senderId, timestamp);
+    }
+
+    return {
+      faMetadata,
+      streamed: streamedFromHistory(state.history, timestamp),
+      remaining: balanceAt(ledger, faMetadata, accountId, timestamp),
+      maxEnd: state.maxEnd,
+      streamedIn,
+      receivable: receivableStreams(ledger, faMetadata, accountId, timestamp).amount,
+      squeezable,
+    };
+  });
+}
@@ -0,0 +1,102 @@
+// Config verification - does what the indexer rebuilt match the chain?
+//
+// The contracts keep a hash of each account's splits receivers and, per
+// token, of its streams receivers plus a hash chain over every streams
+// configuration. Hashing the indexed splits and streams history the same way
+// and comparing with the `splits_hash` / `streams_state` views shows whether
+// the index missed or misread an event.
+
+import { hashSplits, hashStreams, hashStreamsHistory, toHex } from "xylkit-hashing";
+import { getDb } from "../database/connection.js";
+import { getSplitsHash, getStreamsState } from "../utils/drips.js";
+import { parseStoredReceivers } from "./history.js";
+
+export interface HashCheck {
+  indexed: string;
+  onChain: string | null; // null when the view call failed
+  matches: boolean | null;
+}
+
+export interface AccountConfigCheck {
+  accountId: string;
+  splits: HashCheck;
+  streams: Array<{ faMetadata: string; streamsHash: HashCheck; historyHash: HashCheck }>;
+  /** Every hash matches - null if any of them couldn't be read from chain */
+  matches: boolean | null;
+}
+
+function check(indexed: Uint8Array, onChain: string | null | undefined): HashCheck {
+  const hex = toHex(indexed);
+  return {
+    indexed: hex,
+    onChain: onChain ?? null,
+    matches: onChain != null ? onChain.toLowerCase() === hex : null,
+  };
+}
+
+/** Compare an account's indexed splits and streams configurations with the chain */
+export async function verifyAccountConfig(
+  deploymentAddress: string,
+  accountId: string
+): Promise<AccountConfigCheck> {
+  const db = getDb();
+  const [splits, history] = await Promise.all([
+    db
+      .selectFrom("splits")
+      .select(["receiver_id", "weight"])
+      .where("deployment_address", "=", deploymentAddress)
+      .where("account_id", "=", accountId)
+      .execute(),
+    db
+      .selectFrom("streams_history")
+      .selectAll()
+      .where("deployment_address", "=", deploymentAddress)
+      .where("account_id", "=", accountId)
+      .orderBy("transaction_version")
+      .orderBy("event_index")
+      .orderBy("id")
+      .execute(),
+  ]);
+
+  // The contract only accepts splits receivers sorted by account id
+  const splitsReceivers = splits
+    .map((s) => ({ accountId: BigInt(s.receiver_id), weight: s.weight }))
+    .sort((a, b) => (a.accountId < b.accountId ? -1 : a.accountId > b.accountId ? 1 : 0));
+
+  const tokens = [...new Set(history.map((h) => h.fa_metadata))].sort();
+  const [splitsHash, streams] = await Promise.all([
+    getSplitsHash(deploymentAddress, accountId),
+    Promise.all(
+      tokens.map(async (faMetadata) => {
+        let streamsHash: Uint8Array = new Uint8Array();
+        let historyHash: Uint8Array = new Uint8Array();
+        for (const entry of history.filter((h) => h.fa_metadata === faMetadata)) {
+          streamsHash = hashStreams(parseStoredReceivers(entry.receivers));
+          historyHash = hashStreamsHistory(
+            historyHash,
+            streamsHash,
+            BigInt(entry.update_time),
+            BigInt(entry.max_end)
+          );
+        }
+        const state = await getStreamsState(deploymentAddress, accountId, faMetadata);
+        return {
+          faMetadata,
+          streamsHash: check(streamsHash, state?.streamsHash),
+          historyHash: check(historyHash, state?.historyHash),
+        };
+      })
+    ),
+  ]);
+
+  const checks = [
+    check(hashSplits(splitsReceivers), splitsHash),
+    ...streams.flatMap((s) => [s.streamsHash, s.historyHash]),
+  ];
+  return {
+    accountId,
+    splits: checks[0],
+    streams,
+    matches: checks.some((c) => c.matches === null) ? null : checks.every((c) => c.matches),
+  };
+}
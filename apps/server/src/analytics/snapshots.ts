@@ -0,0 +1,528 @@
+// Hourly and daily analytics snapshots per deployment and token, for charts.
+// A periodic job replays each deployment's events into time buckets: every
+// figure is as of the bucket's end. USD values use the price when the bucket
+// was last written before it closed - or, for a bucket first written after it
+// closed, the historical price at its end, null when none is known.
+
+import type { Insertable } from "kysely";
+import { streamRange, type StreamConfig } from "../accounting/streams.js";
+import { getDb } from "../database/connection.js";
+import type {
+  AnalyticsSnapshotsTable,
+  AnalyticsTokenSnapshotsTable,
+  SnapshotInterval,
+} from "../database/schema.js";
+import type { StreamsSetEventData } from "../indexer/types.js";
+import { ValidationError } from "../utils/errors.js";
+import { ensureToken, getTokenPrice, getTokenPriceHistory } from "../utils/token.js";
+import {
+  emptyVolume,
+  sumVolume,
+  tallyVolume,
+  usdValue,
+  VOLUME_EVENT_TYPES,
+  type Volume,
+  type VolumeEventType,
+} from "./stats.js";
+
+const INTERVAL_MS: Record<SnapshotInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+const DEFAULT_SNAPSHOT_MS = 5 * 60 * 1000;
+// Hourly buckets are only kept up to date this far back
+const HOURLY_HISTORY_DAYS = 30;
+// Buckets returned when the query gives no `from`, and the most it may span
+const DEFAULT_BUCKETS = 30;
+const MAX_BUCKETS = 1000;
+const WRITE_CHUNK = 200;
+
+/** A sender's configuration for one token, from its latest StreamsSet */
+interface SenderConfig {
+  balance: bigint;
+  updateTime: bigint;
+  maxEnd: bigint;
+  receivers: StreamConfig[];
+}
+
+export interface TokenAnalytics {
+  faMetadata: string;
+  symbol: string;
+  decimals: number;
+  priceUsd: number | null; // Null when no price for the bucket is known
+  tvl: string; // Raw amounts (smallest units)
+  volume: string;
+  volumeByType: Record<VolumeEventType, string>;
+  activeStreams: number;
+  streamingRate: string; // Summed amt_per_sec, with 9 extra decimals
+  volumeUsd: number | null;
+  tvlUsd: number | null;
+}
+
+export interface AnalyticsBucket {
+  start: string;
+  newAccounts: number;
+  totalAccounts: number;
+  volumeUsd: number | null; // Null if a token of the bucket has no price
+  tvlUsd: number | null;
+  tokens: TokenAnalytics[];
+}
+
+let snapshotting = false;
+
+function getSnapshotMs(): number {
+  const configured = parseInt(process.env.ANALYTICS_SNAPSHOT_MS || "", 10);
+  return configured > 0 ? configured : DEFAULT_SNAPSHOT_MS;
+}
+
+/** Start of the UTC hour / day containing `time` (ms) */
+function bucketOf(time: number, interval: SnapshotInterval): number {
+  return time - (time % INTERVAL_MS[interval]);
+}
+
+function applyStreamsSet(
+  senders: Map<string, Map<string, SenderConfig>>,
+  eventData: string,
+  timestamp: string
+): string | null {
+  try {
+    const data = JSON.parse(eventData) as StreamsSetEventData;
+    const configs = senders.get(data.fa_metadata) ?? new Map<string, SenderConfig>();
+    senders.set(data.fa_metadata, configs);
+    configs.set(data.account_id, {
+      balance: BigInt(data.balance),
+      updateTime: BigInt(Math.floor(Date.parse(timestamp) / 1000)),
+      maxEnd: BigInt(data.max_end),
+      receivers: data.receiver_account_ids.map((_, i) => ({
+        streamId: BigInt(data.receiver_stream_ids[i]),
+        amtPerSec: BigInt(data.receiver_amt_per_secs[i]),
+        start: BigInt(data.receiver_starts[i]),
+        duration: BigInt(data.receiver_durations[i]),
+      })),
+    });
+    return data.fa_metadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Price at `time` (ms) from a CoinGecko series - its last point at or before
+ * then, if no more than a day older
+ */
+function priceAt(points: Array<[number, number]>, time: number): number | null {
+  for (let i = points.length - 1; i >= 0; i--) {
+    const [at, price] = points[i];
+    if (at <= time) return at > time - INTERVAL_MS.day ? price : null;
+  }
+  return null;
+}
+
+/** TVL, and the streams running at `at` (seconds) with their summed rate */
+function streamsAt(
+  configs: Iterable<SenderConfig>,
+  at: bigint
+): { tvl: bigint; activeStreams: number; streamingRate: bigint } {
+  let tvl = 0n;
+  let activeStreams = 0;
+  let streamingRate = 0n;
+  for (const sender of configs) {
+    tvl += sender.balance;
+    for (const config of sender.receivers) {
+      if (config.amtPerSec === 0n) continue;
+      const [start, end] = streamRange(
+        config,
+        sender.updateTime,
+        sender.maxEnd,
+        sender.updateTime,
+        sender.maxEnd
+      );
+      if (start <= at && at < end) {
+        activeStreams++;
+        streamingRate += config.amtPerSec;
+      }
+    }
+  }
+  return { tvl, activeStreams, streamingRate };
+}
+
+/**
+ * Write a deployment's snapshots for one interval, up to the current (open)
+ * bucket. Buckets are rewritten from the earliest one holding events indexed
+ * since the last run, and the last one written is always refreshed.
+ * Returns how many buckets were written.
+ */
+export async function snapshotDeployment(
+  deployment: string,
+  interval: SnapshotInterval,
+  now = new Date()
+): Promise<number> {
+  const db = getDb();
+  const step = INTERVAL_MS[interval];
+
+  const [latest, cursor, lastBucket] = await Promise.all([
+    db
+      .selectFrom("events")
+      .select((eb) => eb.fn.max("id").as("id"))
+      .where("deployment_address", "=", deployment)
+      .executeTakeFirst(),
+    db
+      .selectFrom("analytics_cursors")
+      .select("last_event_id")
+      .where("deployment_address", "=", deployment)
+      .where("interval", "=", interval)
+      .executeTakeFirst(),
+    db
+      .selectFrom("analytics_snapshots")
+      .select((eb) => eb.fn.max("bucket_start").as("bucket_start"))
+      .where("deployment_address", "=", deployment)
+      .where("interval", "=", interval)
+      .executeTakeFirst(),
+  ]);
+  const lastEventId = Number(latest?.id ?? 0);
+  if (lastEventId === 0) return 0;
+
+  const dirty = await db
+    .selectFrom("events")
+    .select((eb) => eb.fn.min("timestamp").as("timestamp"))
+    .where("deployment_address", "=", deployment)
+    .where("id", ">", cursor?.last_event_id ?? 0)
+    .where("id", "<=", lastEventId)
+    .executeTakeFirst();
+
+  let from = lastBucket?.bucket_start ? Date.parse(lastBucket.bucket_start) : Infinity;
+  if (dirty?.timestamp) {
+    from = Math.min(from, bucketOf(Date.parse(dirty.timestamp), interval));
+  }
+  if (interval === "hour") {
+    from = Math.max(
+      from,
+      bucketOf(now.getTime() - HOURLY_HISTORY_DAYS * INTERVAL_MS.day, "hour")
+    );
+  }
+  const current = bucketOf(now.getTime(), interval);
+  if (!Number.isFinite(from) || from > current) return 0;
+
+  const [events, accounts, recorded] = await Promise.all([
+    db
+      .selectFrom("events")
+      .select(["event_type", "data", "timestamp"])
+      .where("deployment_address", "=", deployment)
+      .where("event_type", "in", ["StreamsSet", ...VOLUME_EVENT_TYPES])
+      .where("id", "<=", lastEventId)
+      .orderBy("transaction_version")
+      .orderBy("event_index")
+      .orderBy("id")
+      .execute(),
+    db
+      .selectFrom("accounts")
+      .select("created_at")
+      .where("deployment_address", "=", deployment)
+      .orderBy("created_at")
+      .execute(),
+    db
+      .selectFrom("analytics_token_snapshots")
+      .select(["bucket_start", "fa_metadata", "price_usd"])
+      .where("deployment_address", "=", deployment)
+      .where("interval", "=", interval)
+      .where("bucket_start", ">=", new Date(from).toISOString())
+      .execute(),
+  ]);
+
+  // Closed buckets keep the price they were last written with; open buckets
+  // follow the market
+  const recordedPrices = new Map<string, number>();
+  for (const r of recorded) {
+    if (r.price_usd !== null) {
+      recordedPrices.set(`${r.bucket_start}|${r.fa_metadata}`, r.price_usd);
+    }
+  }
+  const tokenInfo = new Map<string, Promise<{ decimals: number; priceUsd: number }>>();
+  const infoOf = (fa: string) => {
+    let info = tokenInfo.get(fa);
+    if (!info) {
+      info = Promise.all([ensureToken(fa), getTokenPrice(fa)]).then(
+        ([token, priceUsd]) => ({ decimals: token.decimals, priceUsd })
+      );
+      tokenInfo.set(fa, info);
+    }
+    return info;
+  };
+  // Only fetched for closed buckets that were never written with a price
+  const priceHistory = new Map<string, Promise<Array<[number, number]>>>();
+  const historyOf = (fa: string) => {
+    let history = priceHistory.get(fa);
+    if (!history) {
+      history = getTokenPriceHistory(fa, from, now.getTime());
+      priceHistory.set(fa, history);
+    }
+    return history;
+  };
+
+  const updatedAt = now.toISOString();
+  const senders = new Map<string, Map<string, SenderConfig>>(); // token -> account -> config
+  const seen = new Set<string>();
+  const snapshots: Insertable<AnalyticsSnapshotsTable>[] = [];
+  const tokenSnapshots: Insertable<AnalyticsTokenSnapshotsTable>[] = [];
+  let e = 0;
+  let a = 0;
+
+  for (let start = from; start <= current; start += step) {
+    const end = start + step;
+    const bucketStart = new Date(start).toISOString();
+
+    const volumes = new Map<string, Volume>();
+    for (; e < events.length && Date.parse(events[e].timestamp) < end; e++) {
+      const { event_type, data, timestamp } = events[e];
+      if (event_type === "StreamsSet") {
+        const fa = applyStreamsSet(senders, data, timestamp);
+        if (fa) seen.add(fa);
+      } else if (Date.parse(timestamp) >= start) {
+        tallyVolume(volumes, event_type, data);
+      }
+    }
+    for (const fa of volumes.keys()) seen.add(fa);
+
+    let newAccounts = 0;
+    for (; a < accounts.length && Date.parse(accounts[a].created_at) < end; a++) {
+      if (Date.parse(accounts[a].created_at) >= start) newAccounts++;
+    }
+
+    const closed = end <= now.getTime();
+    const at = BigInt(Math.floor(Math.min(end, now.getTime()) / 1000));
+    let volumeUsdTotal: number | null = 0;
+    let tvlUsdTotal: number | null = 0;
+    for (const fa of [...seen].sort()) {
+      const { decimals, priceUsd: currentPrice } = await infoOf(fa);
+      const priceUsd = closed
+        ? (recordedPrices.get(`${bucketStart}|${fa}`) ?? priceAt(await historyOf(fa), end))
+        : currentPrice;
+      const volume = volumes.get(fa) ?? emptyVolume();
+      const { tvl, activeStreams, streamingRate } = streamsAt(
+        senders.get(fa)?.values() ?? [],
+        at
+      );
+      const volumeUsd =
+        priceUsd === null ? null : usdValue(sumVolume(volume), decimals, priceUsd);
+      const tvlUsd = priceUsd === null ? null : usdValue(tvl, decimals, priceUsd);
+      volumeUsdTotal =
+        volumeUsdTotal === null || volumeUsd === null ? null : volumeUsdTotal + volumeUsd;
+      tvlUsdTotal = tvlUsdTotal === null || tvlUsd === null ? null : tvlUsdTotal + tvlUsd;
+
+      tokenSnapshots.push({
+        deployment_address: deployment,
+        interval,
+        bucket_start: bucketStart,
+        fa_metadata: fa,
+        tvl: tvl.toString(),
+        volume_given: volume.Given.toString(),
+        volume_collected: volume.Collected.toString(),
+        volume_received: volume.Received.toString(),
+        volume_squeezed: volume.Squeezed.toString(),
+        active_streams: activeStreams,
+        streaming_rate: streamingRate.toString(),
+        price_usd: priceUsd,
+        volume_usd: volumeUsd,
+        tvl_usd: tvlUsd,
+        updated_at: updatedAt,
+      });
+    }
+
+    snapshots.push({
+      deployment_address: deployment,
+      interval,
+      bucket_start: bucketStart,
+      new_accounts: newAccounts,
+      total_accounts: a,
+      volume_usd: volumeUsdTotal,
+      tvl_usd: tvlUsdTotal,
+      updated_at: updatedAt,
+    });
+  }
+
+  await db.transaction().execute(async (trx) => {
+    for (let i = 0; i < snapshots.length; i += WRITE_CHUNK) {
+      await trx
+        .insertInto("analytics_snapshots")
+        .values(snapshots.slice(i, i + WRITE_CHUNK))
+        .onConflict((oc) =>
+          oc
+            .columns(["deployment_address", "interval", "bucket_start"])
+            .doUpdateSet((eb) => ({
+              new_accounts: eb.ref("excluded.new_accounts"),
+              total_accounts: eb.ref("excluded.total_accounts"),
+              volume_usd: eb.ref("excluded.volume_usd"),
+              tvl_usd: eb.ref("excluded.tvl_usd"),
+              updated_at: eb.ref("excluded.updated_at"),
+            }))
+        )
+        .execute();
+    }
+    for (let i = 0; i < tokenSnapshots.length; i += WRITE_CHUNK) {
+      await trx
+        .insertInto("analytics_token_snapshots")
+        .values(tokenSnapshots.slice(i, i + WRITE_CHUNK))
+        .onConflict((oc) =>
+          oc
+            .columns(["deployment_address", "interval", "bucket_start", "fa_metadata"])
+            .doUpdateSet((eb) => ({
+              tvl: eb.ref("excluded.tvl"),
+              volume_given: eb.ref("excluded.volume_given"),
+              volume_collected: eb.ref("excluded.volume_collected"),
+              volume_received: eb.ref("excluded.volume_received"),
+              volume_squeezed: eb.ref("excluded.volume_squeezed"),
+              active_streams: eb.ref("excluded.active_streams"),
+              streaming_rate: eb.ref("excluded.streaming_rate"),
+              price_usd: eb.ref("excluded.price_usd"),
+              volume_usd: eb.ref("excluded.volume_usd"),
+              tvl_usd: eb.ref("excluded.tvl_usd"),
+              updated_at: eb.ref("excluded.updated_at"),
+            }))
+        )
+        .execute();
+    }
+    await trx
+      .insertInto("analytics_cursors")
+      .values({
+        deployment_address: deployment,
+        interval,
+        last_event_id: lastEventId,
+        updated_at: updatedAt,
+      })
+      .onConflict((oc) =>
+        oc
+          .columns(["deployment_address", "interval"])
+          .doUpdateSet({ last_event_id: lastEventId, updated_at: updatedAt })
+      )
+      .execute();
+  });
+
+  return snapshots.length;
+}
+
+/** Snapshot every deployment, hourly and daily - one failure doesn't stop the rest */
+export async function snapshotAll(): Promise<void> {
+  if (snapshotting) return;
+  snapshotting = true;
+  try {
+    const deployments = await getDb().selectFrom("deployments").select("address").execute();
+    for (const { address } of deployments) {
+      for (const interval of ["hour", "day"] as const) {
+        try {
+          await snapshotDeployment(address, interval);
+        } catch (err) {
+          console.error(`[Analytics] Failed to snapshot ${address} (${interval}):`, err);
+        }
+      }
+    }
+  } catch (err) {
+    console.error("[Analytics] Failed to list deployments:", err);
+  } finally {
+    snapshotting = false;
+  }
+}
+
+/**
+ * Take snapshots now and every ANALYTICS_SNAPSHOT_MS (default 5 minutes)
+ * Returns the stop function.
+ */
+export function startSnapshotter(intervalMs = getSnapshotMs()): () => void {
+  void snapshotAll();
+  const timer = setInterval(() => void snapshotAll(), intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Stored buckets from `from` to `to` (the last 30 buckets by default), oldest
+ * first. Buckets the job hasn't written yet are missing, not zero.
+ */
+export async function getAnalytics(
+  deployment: string,
+  interval: SnapshotInterval,
+  range: { from?: Date; to?: Date } = {}
+): Promise<{ from: string; to: string; buckets: AnalyticsBucket[] }> {
+  const db = getDb();
+  const step = INTERVAL_MS[interval];
+  const to = bucketOf((range.to ?? new Date()).getTime(), interval);
+  const from = range.from
+    ? bucketOf(range.from.getTime(), interval)
+    : to - (DEFAULT_BUCKETS - 1) * step;
+  if (from > to) {
+    throw new ValidationError("from must not be after to", {
+      from: range.from,
+      to: range.to,
+    });
+  }
+  if ((to - from) / step + 1 > MAX_BUCKETS) {
+    throw new ValidationError(`At most ${MAX_BUCKETS} ${interval} buckets per request`, {
+      from: range.from,
+      to: range.to,
+    });
+  }
+
+  const fromIso = new Date(from).toISOString();
+  const toIso = new Date(to).toISOString();
+  const [snapshots, tokenSnapshots] = await Promise.all([
+    db
+      .selectFrom("analytics_snapshots")
+      .selectAll()
+      .where("deployment_address", "=", deployment)
+      .where("interval", "=", interval)
+      .where("bucket_start", ">=", fromIso)
+      .where("bucket_start", "<=", toIso)
+      .orderBy("bucket_start")
+      .execute(),
+    db
+      .selectFrom("analytics_token_snapshots")
+      .leftJoin("tokens", "tokens.address", "analytics_token_snapshots.fa_metadata")
+      .selectAll("analytics_token_snapshots")
+      .select(["tokens.symbol", "tokens.decimals"])
+      .where("deployment_address", "=", deployment)
+      .where("interval", "=", interval)
+      .where("bucket_start", ">=", fromIso)
+      .where("bucket_start", "<=", toIso)
+      .orderBy("fa_metadata")
+      .execute(),
+  ]);
+
+  const tokensByBucket = new Map<string, TokenAnalytics[]>();
+  for (const t of tokenSnapshots) {
+    const volumeByType = {
+      Given: t.volume_given,
+      Collected: t.volume_collected,
+      Received: t.volume_received,
+      Squeezed: t.volume_squeezed,
+    };
+    const tokens = tokensByBucket.get(t.bucket_start) ?? [];
+    tokensByBucket.set(t.bucket_start, tokens);
+    tokens.push({
+      faMetadata: t.fa_metadata,
+      symbol: t.symbol ?? "TOKEN",
+      decimals: t.decimals ?? 8,
+      priceUsd: t.price_usd,
+      tvl: t.tvl,
+      volume: Object.values(volumeByType)
+        .reduce((sum, v) => sum + BigInt(v), 0n)
+        .toString(),
+      volumeByType,
+      activeStreams: t.active_streams,
+      streamingRate: t.streaming_rate,
+      volumeUsd: t.volume_usd,
+      tvlUsd: t.tvl_usd,
+    });
+  }
+
+  return {
+    from: fromIso,
+    to: toIso,
+    buckets: snapshots.map((s) => ({
+      start: s.bucket_start,
+      newAccounts: s.new_accounts,
+      totalAccounts: s.total_accounts,
+      volumeUsd: s.volume_usd,
+      tvlUsd: s.tvl_usd,
+      tokens: tokensByBucket.get(s.bucket_start) ?? [],
+    })),
+  };
+}
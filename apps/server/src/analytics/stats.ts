@@ -0,0 +1,199 @@
+// Deployment metrics, kept per fungible asset - amounts of different tokens
+// are never added together, only their USD values are
+
+import { streamingStreams } from "../accounting/lifecycle.js";
+import { getDb } from "../database/connection.js";
+import { ensureToken, formatAmount, formatUsd, getTokenPrice } from "../utils/token.js";
+
+// Event types whose amounts count towards volume
+export const VOLUME_EVENT_TYPES = ["Given", "Collected", "Received", "Squeezed"] as const;
+export type VolumeEventType = (typeof VOLUME_EVENT_TYPES)[number];
+
+export type Volume = Record<VolumeEventType, bigint>;
+
+/** One fungible asset's share of a deployment's activity */
+export interface TokenStats {
+  faMetadata: string;
+  symbol: string;
+  decimals: number;
+  priceUsd: number;
+  volume: string;
+  volumeUsd: string;
+  volumeByType: Record<VolumeEventType, string>; // Raw amounts (smallest units)
+  tvl: string;
+  tvlUsd: string;
+  holders: number; // Accounts with a non-zero streams balance
+  activeStreams: number; // Streaming right now
+}
+
+export interface DeploymentStats {
+  totalAccounts: number;
+  activeStreams: number;
+  totalSplits: number;
+  totalEvents: number;
+  totalVolume: string; // Per-token amounts, e.g. "12.5 MOVE, 3 USDC"
+  totalVolumeUsd: string; // Sum of the per-token USD values
+  tvl: string;
+  tvlUsd: string;
+  tokens: TokenStats[];
+}
+
+export function emptyVolume(): Volume {
+  return { Given: 0n, Collected: 0n, Received: 0n, Squeezed: 0n };
+}
+
+export function sumVolume(volume: Volume): bigint {
+  return Object.values(volume).reduce((sum, v) => sum + v, 0n);
+}
+
+/** Add a stored volume event's amount to its token's tally (token -> volume) */
+export function tallyVolume(
+  volumes: Map<string, Volume>,
+  eventType: string,
+  eventData: string
+): void {
+  try {
+    const data = JSON.parse(eventData);
+    if (!data.amount || !data.fa_metadata) return;
+    let volume = volumes.get(data.fa_metadata);
+    if (!volume) {
+      volume = emptyVolume();
+      volumes.set(data.fa_metadata, volume);
+    }
+    volume[eventType as VolumeEventType] += BigInt(data.amount);
+  } catch {
+    /* skip */
+  }
+}
+
+/** USD value of a raw amount */
+export function usdValue(raw: bigint, decimals: number, priceUsd: number): number {
+  return (Number(raw) / 10 ** decimals) * priceUsd;
+}
+
+// "12.5 MOVE, 3 USDC" - or "0" when every amount is zero
+function joinTokenAmounts(tokens: TokenStats[], field: "volume" | "tvl"): string {
+  return (
+    tokens
+      .filter((t) => t[field] !== "0")
+      .map((t) => `${t[field]} ${t.symbol}`)
+      .join(", ") || "0"
+  );
+}
+
+/**
+ * Latest streams balance of every account, per token (token -> account -> balance)
+ * Taken from each sender's streams state, kept per token by the indexer.
+ */
+export async function getStreamsBalances(
+  address: string
+): Promise<Map<string, Map<string, bigint>>> {
+  const states = await getDb()
+    .selectFrom("streams_states")
+    .select(["account_id", "fa_metadata", "balance"])
+    .where("deployment_address", "=", address)
+    .execute();
+
+  const tokenBalances = new Map<string, Map<string, bigint>>();
+  for (const state of states) {
+    if (!tokenBalances.has(state.fa_metadata)) {
+      tokenBalances.set(state.fa_metadata, new Map());
+    }
+    tokenBalances.get(state.fa_metadata)!.set(state.account_id, BigInt(state.balance));
+  }
+  return tokenBalances;
+}
+
+/** Current totals for a deployment, with the per-token breakdown */
+export async function getDeploymentStats(address: string): Promise<DeploymentStats> {
+  const db = getDb();
+  const [accounts, streams, splits, events, volumeEvents, balances] = await Promise.all([
+    db
+      .selectFrom("accounts")
+      .select(db.fn.countAll().as("count"))
+      .where("deployment_address", "=", address)
+      .executeTakeFirst(),
+    db
+      .selectFrom("streams")
+      .select(["fa_metadata", db.fn.countAll().as("count")])
+      .where("deployment_address", "=", address)
+      .where(streamingStreams())
+      .groupBy("fa_metadata")
+      .execute(),
+    db
+      .selectFrom("splits")
+      .select(db.fn.countAll().as("count"))
+      .where("deployment_address", "=", address)
+      .executeTakeFirst(),
+    db
+      .selectFrom("events")
+      .select(db.fn.countAll().as("count"))
+      .where("deployment_address", "=", address)
+      .executeTakeFirst(),
+    db
+      .selectFrom("events")
+      .select(["event_type", "data"])
+      .where("deployment_address", "=", address)
+      .where("event_type", "in", [...VOLUME_EVENT_TYPES])
+      .execute(),
+    getStreamsBalances(address),
+  ]);
+
+  // Raw amounts per token - summed as bigints, never across tokens
+  const volumes = new Map<string, Volume>();
+  for (const e of volumeEvents) tallyVolume(volumes, e.event_type, e.data);
+
+  const activeStreams = new Map(streams.map((s) => [s.fa_metadata, Number(s.count)]));
+  const faMetadatas = [
+    ...new Set([...volumes.keys(), ...balances.keys(), ...activeStreams.keys()]),
+  ].sort();
+
+  let volumeUsdTotal = 0;
+  let tvlUsdTotal = 0;
+  const tokens = await Promise.all(
+    faMetadatas.map(async (fa): Promise<TokenStats> => {
+      const [token, priceUsd] = await Promise.all([ensureToken(fa), getTokenPrice(fa)]);
+      const volumeByType = volumes.get(fa) ?? emptyVolume();
+      const volumeRaw = sumVolume(volumeByType);
+      // TVL is the latest streams balance of every account holding the token
+      const tokenBalances = [...(balances.get(fa)?.values() ?? [])];
+      const tvlRaw = tokenBalances.reduce((sum, b) => sum + b, 0n);
+
+      const volumeUsd = usdValue(volumeRaw, token.decimals, priceUsd);
+      const tvlUsd = usdValue(tvlRaw, token.decimals, priceUsd);
+      volumeUsdTotal += volumeUsd;
+      tvlUsdTotal += tvlUsd;
+
+      return {
+        faMetadata: fa,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        priceUsd,
+        volume: formatAmount(volumeRaw, token.decimals, 2),
+        volumeUsd: formatUsd(volumeUsd),
+        volumeByType: {
+          Given: volumeByType.Given.toString(),
+          Collected: volumeByType.Collected.toString(),
+          Received: volumeByType.Received.toString(),
+          Squeezed: volumeByType.Squeezed.toString(),
+        },
+        tvl: formatAmount(tvlRaw, token.decimals, 2),
+        tvlUsd: formatUsd(tvlUsd),
+        holders: tokenBalances.filter((b) => b > 0n).length,
+        activeStreams: activeStreams.get(fa) ?? 0,
+      };
+    })
+  );
+
+  return {
+    totalAccounts: Number(accounts?.count || 0),
+    activeStreams: [...activeStreams.values()].reduce((sum, n) => sum + n, 0),
+    totalSplits: Number(splits?.count || 0),
+    totalEvents: Number(events?.count || 0),
+    totalVolume: joinTokenAmounts(tokens, "volume"),
+    totalVolumeUsd: formatUsd(volumeUsdTotal),
+    tvl: joinTokenAmounts(tokens, "tvl"),
+    tvlUsd: formatUsd(tvlUsdTotal),
+    tokens,
+  };
+}
@@ -0,0 +1,70 @@
+import express from "express";
+import cors from "cors";
+import deploymentsRouter from "./routes/deployments.js";
+import usersRouter from "./routes/users.js";
+import syncRouter from "./routes/sync.js";
+import searchRouter from "./routes/search.js";
+import networksRouter from "./routes/networks.js";
+import webhooksRouter from "./routes/webhooks.js";
+import { createGraphqlHandler } from "./graphql/index.js";
+import { AppError } from "./utils/errors.js";
+import { httpMetrics, METRICS_CONTENT_TYPE, renderMetrics } from "./utils/metrics.js";
+
+/**
+ * Build the API app without listening - the server entry point and the
+ * integration tests both mount it
+ */
+export function createApp(): express.Express {
+  const app = express();
+  const NODE_ENV = process.env.NODE_ENV || "development";
+
+  // Middleware
+  // Cursor-paginated lists return the next page's cursor in X-Next-Cursor
+  app.use(cors({ exposedHeaders: ["X-Next-Cursor"] }));
+  app.use(express.json());
+  app.use(httpMetrics());
+
+  // Health check
+  app.get("/health", (_req, res) => {
+    res.json({
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      env: NODE_ENV,
+    });
+  });
+
+  // Prometheus scrape target
+  app.get("/metrics", (_req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+  });
+
+  // API Routes
+  app.use("/deployments", deploymentsRouter);
+  app.use("/users", usersRouter);
+  app.use("/sync", syncRouter);
+  app.use("/search", searchRouter);
+  app.use("/networks", networksRouter);
+  app.use("/webhooks", webhooksRouter);
+  app.all("/graphql", createGraphqlHandler());
+
+  // Error handling
+  app.use(
+    (
+      err: unknown,
+      _req: express.Request,
+      res: express.Response,
+      _next: express.NextFunction
+    ) => {
+      console.error("Error:", err);
+
+      if (err instanceof AppError) {
+        return res.status(err.statusCode).json(err.toJSON());
+      }
+
+      const message = err instanceof Error ? err.message : "An unexpected error occurred";
+      res.status(500).json({ error: "InternalServerError", message });
+    }
+  );
+
+  return app;
+}
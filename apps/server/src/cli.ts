@@ -0,0 +1,499 @@
+#!/usr/bin/env node
+import dotenv from "dotenv";
+dotenv.config();
+
+import { parseArgs } from "node:util";
+import { getAccountBalances } from "./accounting/balances.js";
+import { liveStreams } from "./accounting/lifecycle.js";
+import { snapshotDeployment } from "./analytics/snapshots.js";
+import { getDb } from "./database/connection.js";
+import { withSyncLease, type SyncLease } from "./indexer/lock.js";
+import {
+  listDiscrepancies,
+  reconcileDeployment,
+  resyncDiscrepancy,
+  type Discrepancy,
+} from "./indexer/reconcile.js";
+import { reindexDeployment } from "./indexer/reindex.js";
+import {
+  addDeployment,
+  backfillDeployment,
+  getSyncStatus,
+  syncDeployment,
+} from "./indexer/sync.js";
+import { createIndexerWorker, getPollIntervalMs } from "./indexer/worker.js";
+import { calcAccountId } from "./utils/account.js";
+import { getDeploymentNetwork, resolveNetworkId } from "./utils/network.js";
+import { rpcGet } from "./utils/rpc.js";
+
+const USAGE = `Usage: xylkit-indexer <command> [options]
+
+Commands:
+  add <deployment> [--network <id>] [--start-version <v>]   Register a deployment
+  sync [deployment] [--network <id>] [--follow]             Sync until caught up (--follow keeps polling)
+  backfill <deployment> --from <v> --to <v>                  Index a version range (cursor untouched)
+  reindex <deployment> [--from <v>]                          Rebuild derived tables from stored events
+  status [deployment]                                       Cursor, chain tip and lag per deployment
+  reset <deployment> [--version <v>]                         Move the sync cursor (default 0)
+  account <deployment> <accountId|wallet>                    Show an account's streams, splits and balances
+  snapshot [deployment]                                     Write hourly and daily analytics snapshots
+  reconcile [deployment] [--account <id>] [--token <fa>]    Compare indexed state with the chain
+  discrepancies [deployment] [--all]                        List open (--all: also resolved) discrepancies
+  resync <discrepancy-id>                                   Rescan and replay what a discrepancy involves
+`;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        network: { type: "string" },
+        "start-version": { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        version: { type: "string" },
+        limit: { type: "string" },
+        account: { type: "string" },
+        token: { type: "string" },
+        all: { type: "boolean" },
+        follow: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+const { positionals, values } = parseCommandLine();
+const [command, ...args] = positionals;
+
+function versionArg(name: string, value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) fail(`--${name} must be a transaction version`);
+  return value;
+}
+
+function limitArg(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value) || Number(value) < 1) fail("--limit must be a positive number");
+  return Number(value);
+}
+
+function requireDeployment(): string {
+  const deployment = args[0];
+  if (!deployment?.startsWith("0x")) fail("A deployment address is required");
+  return deployment;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function syncUntilCaughtUp(lease: SyncLease, limit?: number): Promise<number> {
+  const { deployment } = lease;
+  let processed = 0;
+  for (;;) {
+    const result = await syncDeployment({ deployment, force: true, limit });
+    processed += result.eventsProcessed;
+    if (result.skipped) {
+      console.log(`   ${deployment}: skipped (${result.reason})`);
+      break;
+    }
+    console.log(
+      `   ${deployment}: cursor ${result.cursor}, ${result.eventsProcessed} events`
+    );
+    if (!result.hasMore) break;
+    if (!(await lease.renew())) {
+      console.log(`   ${deployment}: sync lease lost, stopping`);
+      break;
+    }
+  }
+  return processed;
+}
+
+async function add(): Promise<void> {
+  const deployment = requireDeployment();
+  const network = resolveNetworkId(values.network);
+  const startVersion = versionArg("start-version", values["start-version"]);
+  await addDeployment(deployment, { network, startVersion });
+  console.log(
+    `✅ ${deployment} registered on ${network}` +
+      (startVersion ? `, scanning from version ${startVersion}` : "")
+  );
+}
+
+async function sync(): Promise<void> {
+  const limit = limitArg(values.limit);
+  const deployment = args[0];
+
+  // Following every deployment is exactly what the background worker does
+  if (values.follow && !deployment) {
+    const worker = createIndexerWorker({ batchLimit: limit });
+    worker.start();
+    const shutdown = async () => {
+      await worker.stop();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    await new Promise(() => {});
+  }
+
+  let targets: string[];
+  if (deployment) {
+    targets = [deployment];
+  } else {
+    let query = getDb().selectFrom("deployments").select("address");
+    if (values.network) {
+      query = query.where("network", "=", resolveNetworkId(values.network));
+    }
+    targets = (await query.execute()).map((d) => d.address);
+  }
+  if (targets.length === 0) fail("No deployments to sync");
+
+  let stopping = false;
+  process.on("SIGINT", () => (stopping = true));
+  do {
+    for (const target of targets) {
+      const run = await withSyncLease(target, (lease) => syncUntilCaughtUp(lease, limit));
+      if (!run.acquired) {
+        console.log(`   ${target}: skipped (being synced by ${run.holder ?? "another process"})`);
+      } else if (run.result > 0) {
+        console.log(`✅ ${target}: ${run.result} events processed`);
+      }
+    }
+    if (values.follow && !stopping) await sleep(getPollIntervalMs());
+  } while (values.follow && !stopping);
+}
+
+async function backfill(): Promise<void> {
+  const deployment = requireDeployment();
+  const fromVersion = versionArg("from", values.from);
+  const toVersion = versionArg("to", values.to);
+  if (!fromVersion || !toVersion) fail("backfill needs --from and --to");
+  if (BigInt(fromVersion) > BigInt(toVersion)) fail("--from must not be after --to");
+
+  const result = await backfillDeployment({
+    deployment,
+    fromVersion,
+    toVersion,
+    onBatch: (p) =>
+      console.log(`   up to version ${p.lastVersion}: ${p.eventsProcessed} new events`),
+  });
+  console.log(
+    `✅ Scanned ${result.transactionsScanned} transactions, ${result.eventsProcessed} new events`
+  );
+  if (result.replayedFrom !== null) {
+    console.log(`   Replayed the derived tables from version ${result.replayedFrom}`);
+  }
+}
+
+async function reindex(): Promise<void> {
+  const deployment = requireDeployment();
+  const from = versionArg("from", values.from);
+  const fromVersion = from !== undefined ? Number(from) : undefined;
+  if (fromVersion !== undefined && !Number.isSafeInteger(fromVersion)) {
+    fail("--from is past the largest version reindex can replay from");
+  }
+  const result = await reindexDeployment({
+    deployment,
+    fromVersion,
+    onProgress: (p) => {
+      if (p.status === "running") {
+        console.log(
+          `   ${p.eventsReplayed}/${p.totalEvents} events (version ${p.lastVersion ?? "-"})`
+        );
+      }
+    },
+  });
+  console.log(`✅ Replayed ${result.eventsReplayed} events in ${result.durationMs}ms`);
+}
+
+async function status(): Promise<void> {
+  const db = getDb();
+  let query = db
+    .selectFrom("deployments")
+    .leftJoin("sync_cursors", (join) =>
+      join
+        .onRef("sync_cursors.deployment_address", "=", "deployments.address")
+        .on("sync_cursors.event_type", "=", "transactions")
+    )
+    .leftJoin("sync_metadata", "sync_metadata.deployment_address", "deployments.address")
+    .select([
+      "deployments.address",
+      "deployments.network",
+      "sync_cursors.last_sequence",
+      "sync_metadata.has_more",
+    ]);
+  if (args[0]) {
+    query = query.where("deployments.address", "=", args[0]);
+  }
+  const rows = await query.execute();
+  const syncStatus = await getSyncStatus(args[0]);
+
+  // One chain tip lookup per network
+  const tips = new Map<string, Promise<number | null>>();
+  const chainTip = (network: string) => {
+    if (!tips.has(network)) {
+      tips.set(
+        network,
+        rpcGet<{ ledger_version: string }>(network, "")
+          .then((info) => parseInt(info.ledger_version))
+          .catch(() => null)
+      );
+    }
+    return tips.get(network)!;
+  };
+
+  const table = await Promise.all(
+    rows.map(async (row) => {
+      const tip = await chainTip(row.network);
+      const cursor = row.last_sequence ? parseInt(row.last_sequence) : 0;
+      const synced = syncStatus.find((s) => s.deployment === row.address);
+      return {
+        deployment: row.address,
+        network: row.network,
+        cursor,
+        chainTip: tip ?? "unreachable",
+        lag: tip !== null ? Math.max(0, tip - cursor) : "-",
+        lastSynced:
+          synced?.ageMs != null ? `${Math.round(synced.ageMs / 1000)}s ago` : "never",
+        hasMore: Boolean(row.has_more),
+        failing: synced?.failing
+          ? `${synced.consecutiveFailures}x: ${synced.lastError}`
+          : "-",
+      };
+    })
+  );
+  if (table.length === 0) {
+    console.log("No deployments registered");
+    return;
+  }
+  console.table(table);
+}
+
+async function reset(): Promise<void> {
+  const deployment = requireDeployment();
+  const version = versionArg("version", values.version) ?? "0";
+  const known = await getDb()
+    .selectFrom("deployments")
+    .select("address")
+    .where("address", "=", deployment)
+    .executeTakeFirst();
+  if (!known) fail(`Unknown deployment: ${deployment}`);
+
+  // Under the sync lease, so a running sync can't write its cursor back over this
+  const run = await withSyncLease(deployment, async () => {
+    await addDeployment(deployment, { startVersion: version });
+    // Forget the last sync so the scheduler picks the deployment up right away
+    await getDb()
+      .deleteFrom("sync_metadata")
+      .where("deployment_address", "=", deployment)
+      .execute();
+  });
+  if (!run.acquired) {
+    fail(`${deployment} is being synced by ${run.holder ?? "another process"}, try again`);
+  }
+  console.log(`✅ ${deployment} cursor reset to version ${version}`);
+}
+
+async function snapshot(): Promise<void> {
+  let query = getDb().selectFrom("deployments").select("address");
+  if (args[0]) query = query.where("address", "=", args[0]);
+  const deployments = await query.execute();
+  if (args[0] && deployments.length === 0) fail(`Unknown deployment: ${args[0]}`);
+
+  for (const { address } of deployments) {
+    const hours = await snapshotDeployment(address, "hour");
+    const days = await snapshotDeployment(address, "day");
+    console.log(`   ${address}: ${hours} hourly, ${days} daily buckets written`);
+  }
+  console.log(`✅ Snapshotted ${deployments.length} deployment(s)`);
+}
+
+function printDiscrepancies(discrepancies: Discrepancy[]): void {
+  console.table(
+    discrepancies.map((d) => ({
+      id: d.id,
+      deployment: d.deployment,
+      kind: d.kind,
+      account: d.accountId ?? "-",
+      token: d.faMetadata ?? "-",
+      indexed: d.indexed,
+      onChain: d.onChain,
+      detected: d.detectedAt,
+      resolved: d.resolvedAt ?? "-",
+    }))
+  );
+}
+
+async function reconcile(): Promise<void> {
+  let query = getDb().selectFrom("deployments").select("address");
+  if (args[0]) query = query.where("address", "=", args[0]);
+  const deployments = await query.execute();
+  if (args[0] && deployments.length === 0) fail(`Unknown deployment: ${args[0]}`);
+  if (values.account && !/^\d+$/.test(values.account)) {
+    fail("--account must be a decimal account ID");
+  }
+
+  let open = 0;
+  for (const { address } of deployments) {
+    const result = await reconcileDeployment(address, {
+      accountId: values.account,
+      faMetadata: values.token,
+    });
+    console.log(
+      `   ${address}: ${result.accountsChecked} accounts, ${result.tokensChecked} tokens - ` +
+        `${result.opened} new, ${result.resolved} resolved, ${result.skipped} unreadable`
+    );
+    open += result.open.length;
+    if (result.open.length > 0) printDiscrepancies(result.open);
+  }
+  console.log(`${open > 0 ? "⚠️ " : "✅"} ${open} open discrepancies`);
+}
+
+async function discrepancies(): Promise<void> {
+  const rows = await listDiscrepancies({
+    deployment: args[0],
+    status: values.all ? "all" : "open",
+    limit: limitArg(values.limit),
+  });
+  if (rows.length === 0) {
+    console.log("No discrepancies");
+    return;
+  }
+  printDiscrepancies(rows);
+}
+
+async function resync(): Promise<void> {
+  const id = parseInt(args[0] ?? "", 10);
+  if (Number.isNaN(id)) fail("A discrepancy id is required");
+
+  const result = await resyncDiscrepancy(id);
+  if (!result) fail(`Unknown discrepancy: ${id}`);
+  if (result.backfill) {
+    console.log(
+      `   Rescanned ${result.backfill.transactionsScanned} transactions from version ` +
+        `${result.fromVersion}: ${result.backfill.eventsProcessed} new events`
+    );
+  }
+  console.log(`   Replayed ${result.reindex.eventsReplayed} events`);
+  console.log(
+    result.discrepancy.resolvedAt
+      ? `✅ Discrepancy ${id} resolved`
+      : `⚠️  Discrepancy ${id} still open (indexed ${result.discrepancy.indexed}, ` +
+          `on chain ${result.discrepancy.onChain})`
+  );
+}
+
+async function account(): Promise<void> {
+  const deployment = requireDeployment();
+  const input = args[1];
+  if (!input) fail("An account ID or wallet address is required");
+  // Wallet addresses map straight to AddressDriver account IDs
+  const accountId = input.startsWith("0x") ? calcAccountId(input).toString() : input;
+
+  const db = getDb();
+  const row = await db
+    .selectFrom("accounts")
+    .selectAll()
+    .where("deployment_address", "=", deployment)
+    .where("account_id", "=", accountId)
+    .executeTakeFirst();
+
+  console.log(
+    `\nAccount ${accountId} on ${deployment} (${await getDeploymentNetwork(deployment)})`
+  );
+  if (!row) {
+    console.log("   Not indexed");
+  } else {
+    console.log(`   Wallet: ${row.wallet_address ?? "-"}`);
+    console.log(`   Driver: ${row.driver_name ?? "unknown"} (type ${row.driver_type})`);
+    console.log(`   First seen: ${row.created_at}`);
+  }
+
+  const streamColumns = [
+    "sender_id",
+    "receiver_id",
+    "stream_id",
+    "fa_metadata",
+    "amt_per_sec",
+    "start_time",
+    "duration",
+  ] as const;
+  const outgoing = await db
+    .selectFrom("streams")
+    .select(streamColumns)
+    .where("deployment_address", "=", deployment)
+    .where("sender_id", "=", accountId)
+    .where(liveStreams())
+    .execute();
+  const incoming = await db
+    .selectFrom("streams")
+    .select(streamColumns)
+    .where("deployment_address", "=", deployment)
+    .where("receiver_id", "=", accountId)
+    .where(liveStreams())
+    .execute();
+  const splits = await db
+    .selectFrom("splits")
+    .select(["receiver_id", "weight"])
+    .where("deployment_address", "=", deployment)
+    .where("account_id", "=", accountId)
+    .execute();
+
+  console.log(`\nOutgoing streams (${outgoing.length})`);
+  if (outgoing.length > 0) console.table(outgoing);
+  console.log(`\nIncoming streams (${incoming.length})`);
+  if (incoming.length > 0) console.table(incoming);
+  console.log(`\nSplits (${splits.length})`);
+  if (splits.length > 0) console.table(splits);
+
+  const balances = await getAccountBalances(deployment, accountId);
+  console.log(`\nBalances (${balances.length})`);
+  if (balances.length > 0) {
+    console.table(
+      balances.map((b) => ({
+        token: b.faMetadata,
+        splittable: b.splittable ?? "-",
+        collectable: b.collectable ?? "-",
+        receivable: b.receivable,
+        squeezable: b.squeezable,
+        streamsBalance: b.streamsBalance,
+        live: b.live,
+      }))
+    );
+  }
+}
+
+const commands: Record<string, () => Promise<void>> = {
+  add,
+  sync,
+  backfill,
+  reindex,
+  status,
+  reset,
+  account,
+  snapshot,
+  reconcile,
+  discrepancies,
+  resync,
+};
+
+if (values.help || !command) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (!commands[command]) fail(`Unknown command: ${command}`);
+
+try {
+  await commands[command]();
+  process.exit(0);
+} catch (err) {
+  console.error(`❌ ${command} failed:`, err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -26,7 +26,8 @@ export function getDb(): Kysely<DB> {
       console.log("📦 Using Turso database");
     } else {
       // Local: SQLite
-      const dbPath = path.join(__dirname, "../../data/xylkit.db");
+      const dbPath =
+        process.env.DATABASE_PATH || path.join(__dirname, "../../data/xylkit.db");
       db = new Kysely<DB>({
         dialect: new SqliteDialect({ database: new Database(dbPath) }),
       });
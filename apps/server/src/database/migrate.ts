@@ -4,8 +4,8 @@ import { fileURLToPath } from "url";
 import fs from "fs";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const dataDir = path.join(__dirname, "../../data");
-const dbPath = path.join(dataDir, "xylkit.db");
+const dbPath = process.env.DATABASE_PATH || path.join(__dirname, "../../data/xylkit.db");
+const dataDir = path.dirname(dbPath);
 
 // Ensure data directory exists
 if (!fs.existsSync(dataDir)) {
@@ -39,7 +39,37 @@ db.exec(`
     last_synced_at TEXT NOT NULL,
     events_processed INTEGER NOT NULL DEFAULT 0,
     sync_duration_ms INTEGER NOT NULL DEFAULT 0,
-    has_more INTEGER NOT NULL DEFAULT 0
+    has_more INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_error_at TEXT,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0
+  );
+
+  -- Sync leases (one syncing instance per deployment)
+  CREATE TABLE IF NOT EXISTS sync_locks (
+    deployment_address TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    acquired_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    purpose TEXT NOT NULL DEFAULT 'sync'
+  );
+
+  -- Sync job queue
+  CREATE TABLE IF NOT EXISTS sync_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    account_id TEXT,
+    force INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL,
+    source TEXT,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    heartbeat_at TEXT,
+    finished_at TEXT,
+    batches INTEGER NOT NULL DEFAULT 0,
+    events_processed INTEGER NOT NULL DEFAULT 0,
+    cursor TEXT,
+    error TEXT
   );
 
   -- Accounts
@@ -66,9 +96,66 @@ db.exec(`
     start_time INTEGER NOT NULL,
     duration INTEGER NOT NULL,
     active INTEGER NOT NULL DEFAULT 1,
+    starts_at INTEGER,
+    ends_at INTEGER,
+    max_end TEXT,
+    balance TEXT,
+    stopped_at TEXT,
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-    UNIQUE(deployment_address, sender_id, receiver_id, stream_id)
+    UNIQUE(deployment_address, sender_id, fa_metadata, receiver_id, stream_id)
+  );
+
+  -- Streams states (per sender and token)
+  CREATE TABLE IF NOT EXISTS streams_states (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    fa_metadata TEXT NOT NULL,
+    balance TEXT NOT NULL,
+    max_end TEXT NOT NULL,
+    update_time INTEGER NOT NULL,
+    transaction_version INTEGER,
+    updated_at TEXT NOT NULL,
+    UNIQUE(deployment_address, account_id, fa_metadata)
+  );
+
+  -- Stream changes (diff of consecutive StreamsSets per sender and token)
+  CREATE TABLE IF NOT EXISTS stream_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    fa_metadata TEXT NOT NULL,
+    change_type TEXT NOT NULL,
+    receiver_id TEXT,
+    stream_id TEXT,
+    old_amt_per_sec TEXT,
+    old_start INTEGER,
+    old_duration INTEGER,
+    new_amt_per_sec TEXT,
+    new_start INTEGER,
+    new_duration INTEGER,
+    amount TEXT,
+    transaction_version INTEGER,
+    event_index INTEGER,
+    tx_hash TEXT,
+    timestamp TEXT NOT NULL
+  );
+
+  -- Streams history (every StreamsSet configuration per sender and token)
+  CREATE TABLE IF NOT EXISTS streams_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    fa_metadata TEXT NOT NULL,
+    receivers TEXT NOT NULL,
+    update_time INTEGER NOT NULL,
+    max_end TEXT NOT NULL,
+    balance TEXT NOT NULL,
+    transaction_version INTEGER,
+    event_index INTEGER,
+    timestamp TEXT NOT NULL,
+    UNIQUE(deployment_address, transaction_version, event_index)
   );
 
   -- Splits
@@ -91,7 +178,39 @@ db.exec(`
     account_id TEXT NOT NULL,
     data TEXT NOT NULL,
     tx_hash TEXT,
+    transaction_version INTEGER,
+    event_index INTEGER,
     sequence_number TEXT NOT NULL DEFAULT '0',
+    timestamp TEXT NOT NULL DEFAULT (datetime('now')),
+    sender TEXT,
+    entry_function TEXT
+  );
+
+  -- Account metadata (latest value per key)
+  CREATE TABLE IF NOT EXISTS account_metadata (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT,
+    value_hex TEXT NOT NULL,
+    transaction_version INTEGER,
+    tx_hash TEXT,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(deployment_address, account_id, key)
+  );
+
+  -- Account metadata history (every emitted value)
+  CREATE TABLE IF NOT EXISTS account_metadata_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT,
+    value_hex TEXT NOT NULL,
+    transaction_version INTEGER,
+    event_index INTEGER,
+    tx_hash TEXT,
     timestamp TEXT NOT NULL DEFAULT (datetime('now'))
   );
 
@@ -113,13 +232,108 @@ db.exec(`
     updated_at TEXT NOT NULL DEFAULT (datetime('now'))
   );
 
+  -- Webhook subscriptions
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    description TEXT,
+    deployment_address TEXT,
+    event_types TEXT,
+    account_id TEXT,
+    fa_metadata TEXT,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Webhook delivery log
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL,
+    event_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_attempt_at TEXT,
+    response_status INTEGER,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    delivered_at TEXT
+  );
+
+  -- Analytics snapshots (hourly / daily, per deployment and per token)
+  CREATE TABLE IF NOT EXISTS analytics_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    interval TEXT NOT NULL,
+    bucket_start TEXT NOT NULL,
+    new_accounts INTEGER NOT NULL DEFAULT 0,
+    total_accounts INTEGER NOT NULL DEFAULT 0,
+    volume_usd REAL,
+    tvl_usd REAL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(deployment_address, interval, bucket_start)
+  );
+
+  CREATE TABLE IF NOT EXISTS analytics_token_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    interval TEXT NOT NULL,
+    bucket_start TEXT NOT NULL,
+    fa_metadata TEXT NOT NULL,
+    tvl TEXT NOT NULL DEFAULT '0',
+    volume_given TEXT NOT NULL DEFAULT '0',
+    volume_collected TEXT NOT NULL DEFAULT '0',
+    volume_received TEXT NOT NULL DEFAULT '0',
+    volume_squeezed TEXT NOT NULL DEFAULT '0',
+    active_streams INTEGER NOT NULL DEFAULT 0,
+    streaming_rate TEXT NOT NULL DEFAULT '0',
+    price_usd REAL,
+    volume_usd REAL,
+    tvl_usd REAL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(deployment_address, interval, bucket_start, fa_metadata)
+  );
+
+  CREATE TABLE IF NOT EXISTS analytics_cursors (
+    deployment_address TEXT NOT NULL,
+    interval TEXT NOT NULL,
+    last_event_id INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (deployment_address, interval)
+  );
+
+  -- Reconciliation discrepancies (indexed state vs view results)
+  CREATE TABLE IF NOT EXISTS discrepancies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deployment_address TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    account_id TEXT,
+    fa_metadata TEXT,
+    indexed TEXT NOT NULL,
+    on_chain TEXT NOT NULL,
+    detected_at TEXT NOT NULL,
+    checked_at TEXT NOT NULL,
+    resolved_at TEXT
+  );
+
   -- Indexes
   CREATE INDEX IF NOT EXISTS idx_accounts_wallet ON accounts(wallet_address);
   CREATE INDEX IF NOT EXISTS idx_streams_sender ON streams(sender_id);
   CREATE INDEX IF NOT EXISTS idx_streams_receiver ON streams(receiver_id);
   CREATE INDEX IF NOT EXISTS idx_splits_account ON splits(account_id);
   CREATE INDEX IF NOT EXISTS idx_events_account ON events(account_id);
+  CREATE INDEX IF NOT EXISTS idx_stream_changes_account ON stream_changes(deployment_address, account_id, transaction_version);
+  CREATE INDEX IF NOT EXISTS idx_stream_changes_event ON stream_changes(deployment_address, transaction_version, event_index);
+  CREATE INDEX IF NOT EXISTS idx_streams_history_sender ON streams_history(deployment_address, account_id, fa_metadata, transaction_version);
+  CREATE INDEX IF NOT EXISTS idx_account_metadata_history ON account_metadata_history(deployment_address, account_id, key);
   CREATE INDEX IF NOT EXISTS idx_events_sequence ON events(deployment_address, event_type, sequence_number);
+  CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status, created_at);
+  CREATE INDEX IF NOT EXISTS idx_sync_jobs_deployment ON sync_jobs(deployment_address, status);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
+  CREATE INDEX IF NOT EXISTS idx_discrepancies_open ON discrepancies(deployment_address, resolved_at, kind);
 `);
 
 // Add driver_name column if it doesn't exist (for existing databases)
@@ -132,5 +346,282 @@ try {
   }
 }
 
+// Add purpose column to sync_locks if it doesn't exist (for existing databases)
+try {
+  db.exec(`ALTER TABLE sync_locks ADD COLUMN purpose TEXT NOT NULL DEFAULT 'sync';`);
+  console.log("✅ Added purpose column to sync_locks table");
+} catch (err: any) {
+  if (!err.message.includes("duplicate column name")) {
+    console.error("⚠️  Error adding purpose column:", err.message);
+  }
+}
+
+// Add chain position and transaction columns to events if they don't exist (for existing databases)
+for (const column of [
+  "transaction_version INTEGER",
+  "event_index INTEGER",
+  "sender TEXT",
+  "entry_function TEXT",
+]) {
+  try {
+    db.exec(`ALTER TABLE events ADD COLUMN ${column};`);
+    console.log(`✅ Added ${column.split(" ")[0]} column to events table`);
+  } catch (err: any) {
+    if (!err.message.includes("duplicate column name")) {
+      console.error(`⚠️  Error adding ${column.split(" ")[0]} column:`, err.message);
+    }
+  }
+}
+
+// Add sync failure columns to sync_metadata if they don't exist (for existing databases)
+for (const column of [
+  "last_error TEXT",
+  "last_error_at TEXT",
+  "consecutive_failures INTEGER NOT NULL DEFAULT 0",
+]) {
+  try {
+    db.exec(`ALTER TABLE sync_metadata ADD COLUMN ${column};`);
+    console.log(`✅ Added ${column.split(" ")[0]} column to sync_metadata table`);
+  } catch (err: any) {
+    if (!err.message.includes("duplicate column name")) {
+      console.error(`⚠️  Error adding ${column.split(" ")[0]} column:`, err.message);
+    }
+  }
+}
+
+// Add stream lifecycle columns if they don't exist (for existing databases)
+for (const column of [
+  "starts_at INTEGER",
+  "ends_at INTEGER",
+  "max_end TEXT",
+  "balance TEXT",
+  "stopped_at TEXT",
+]) {
+  try {
+    db.exec(`ALTER TABLE streams ADD COLUMN ${column};`);
+    console.log(`✅ Added ${column.split(" ")[0]} column to streams table`);
+  } catch (err: any) {
+    if (!err.message.includes("duplicate column name")) {
+      console.error(`⚠️  Error adding ${column.split(" ")[0]} column:`, err.message);
+    }
+  }
+}
+
+// Streams used to be unique per (sender, receiver, stream id) across tokens -
+// rebuild the table so every token keeps its own streams (for existing databases)
+const streamsTable = db
+  .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'streams'`)
+  .get() as { sql: string };
+if (!streamsTable.sql.includes("sender_id, fa_metadata, receiver_id")) {
+  const columns = `id, deployment_address, sender_id, receiver_id, stream_id, fa_metadata,
+    amt_per_sec, start_time, duration, active, starts_at, ends_at, max_end, balance,
+    stopped_at, created_at, updated_at`;
+  db.transaction(() => {
+    db.exec(`
+      ALTER TABLE streams RENAME TO streams_old;
+      CREATE TABLE streams (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_address TEXT NOT NULL,
+        sender_id TEXT NOT NULL,
+        receiver_id TEXT NOT NULL,
+        stream_id TEXT NOT NULL,
+        fa_metadata TEXT NOT NULL,
+        amt_per_sec TEXT NOT NULL,
+        start_time INTEGER NOT NULL,
+        duration INTEGER NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1,
+        starts_at INTEGER,
+        ends_at INTEGER,
+        max_end TEXT,
+        balance TEXT,
+        stopped_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(deployment_address, sender_id, fa_metadata, receiver_id, stream_id)
+      );
+      INSERT INTO streams (${columns}) SELECT ${columns} FROM streams_old;
+      DROP TABLE streams_old;
+      CREATE INDEX IF NOT EXISTS idx_streams_sender ON streams(sender_id);
+      CREATE INDEX IF NOT EXISTS idx_streams_receiver ON streams(receiver_id);
+    `);
+  })();
+  console.log("✅ Rebuilt streams table with per-token keys");
+
+  // Rows kept from the old key may hold another token's streams, and only a
+  // replay of the stored events sorts them out
+  const stale = db
+    .prepare(`SELECT DISTINCT deployment_address FROM streams ORDER BY deployment_address`)
+    .all() as Array<{ deployment_address: string }>;
+  for (const { deployment_address } of stale) {
+    console.warn(
+      `⚠️  Streams of ${deployment_address} were indexed before per-token keys - rebuild them with: npm run reindex -- ${deployment_address}`
+    );
+  }
+}
+
+// Analytics USD values used to be NOT NULL - closed buckets without a known
+// price now store null, so rebuild both tables (for existing databases)
+const tokenSnapshotsTable = db
+  .prepare(
+    `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'analytics_token_snapshots'`
+  )
+  .get() as { sql: string };
+if (tokenSnapshotsTable.sql.includes("price_usd REAL NOT NULL")) {
+  const bucketColumns = `id, deployment_address, interval, bucket_start, new_accounts,
+    total_accounts, volume_usd, tvl_usd, updated_at`;
+  const tokenColumns = `id, deployment_address, interval, bucket_start, fa_metadata, tvl,
+    volume_given, volume_collected, volume_received, volume_squeezed, active_streams,
+    streaming_rate, price_usd, volume_usd, tvl_usd, updated_at`;
+  db.transaction(() => {
+    db.exec(`
+      ALTER TABLE analytics_snapshots RENAME TO analytics_snapshots_old;
+      CREATE TABLE analytics_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_address TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        bucket_start TEXT NOT NULL,
+        new_accounts INTEGER NOT NULL DEFAULT 0,
+        total_accounts INTEGER NOT NULL DEFAULT 0,
+        volume_usd REAL,
+        tvl_usd REAL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(deployment_address, interval, bucket_start)
+      );
+      INSERT INTO analytics_snapshots (${bucketColumns})
+        SELECT ${bucketColumns} FROM analytics_snapshots_old;
+      DROP TABLE analytics_snapshots_old;
+
+      ALTER TABLE analytics_token_snapshots RENAME TO analytics_token_snapshots_old;
+      CREATE TABLE analytics_token_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_address TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        bucket_start TEXT NOT NULL,
+        fa_metadata TEXT NOT NULL,
+        tvl TEXT NOT NULL DEFAULT '0',
+        volume_given TEXT NOT NULL DEFAULT '0',
+        volume_collected TEXT NOT NULL DEFAULT '0',
+        volume_received TEXT NOT NULL DEFAULT '0',
+        volume_squeezed TEXT NOT NULL DEFAULT '0',
+        active_streams INTEGER NOT NULL DEFAULT 0,
+        streaming_rate TEXT NOT NULL DEFAULT '0',
+        price_usd REAL,
+        volume_usd REAL,
+        tvl_usd REAL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(deployment_address, interval, bucket_start, fa_metadata)
+      );
+      INSERT INTO analytics_token_snapshots (${tokenColumns})
+        SELECT ${tokenColumns} FROM analytics_token_snapshots_old;
+      DROP TABLE analytics_token_snapshots_old;
+    `);
+  })();
+  console.log("✅ Rebuilt analytics snapshot tables with nullable USD values");
+}
+
+// Fill streams states from each sender's latest StreamsSet per token (for
+// existing databases - the indexer keeps them current from then on)
+const backfilled = db
+  .prepare(
+    `INSERT OR IGNORE INTO streams_states
+       (deployment_address, account_id, fa_metadata, balance, max_end, update_time, transaction_version, updated_at)
+     SELECT deployment_address, account_id, fa_metadata, balance, max_end,
+            CAST(strftime('%s', timestamp) AS INTEGER), transaction_version, timestamp
+     FROM (
+       SELECT deployment_address, account_id, timestamp, transaction_version,
+              json_extract(data, '$.fa_metadata') AS fa_metadata,
+              json_extract(data, '$.balance') AS balance,
+              json_extract(data, '$.max_end') AS max_end,
+              row_number() OVER (
+                PARTITION BY deployment_address, account_id, json_extract(data, '$.fa_metadata')
+                ORDER BY transaction_version DESC, event_index DESC, id DESC
+              ) AS position
+       FROM events
+       WHERE event_type = 'StreamsSet'
+     )
+     WHERE position = 1 AND fa_metadata IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM streams_states)`
+  )
+  .run();
+if (backfilled.changes > 0) {
+  console.log(`✅ Filled ${backfilled.changes} streams states from StreamsSet events`);
+}
+
+// Same for the streams history - every StreamsSet, receivers as one JSON list
+const historyBackfilled = db
+  .prepare(
+    `INSERT OR IGNORE INTO streams_history
+       (deployment_address, account_id, fa_metadata, receivers, update_time, max_end, balance, transaction_version, event_index, timestamp)
+     SELECT deployment_address, account_id, json_extract(data, '$.fa_metadata'),
+            (SELECT json_group_array(json_object(
+                      'account_id', r.value,
+                      'stream_id', json_extract(data, '$.receiver_stream_ids[' || r.key || ']'),
+                      'amt_per_sec', json_extract(data, '$.receiver_amt_per_secs[' || r.key || ']'),
+                      'start', json_extract(data, '$.receiver_starts[' || r.key || ']'),
+                      'duration', json_extract(data, '$.receiver_durations[' || r.key || ']')))
+             FROM json_each(data, '$.receiver_account_ids') AS r),
+            CAST(strftime('%s', timestamp) AS INTEGER), json_extract(data, '$.max_end'),
+            json_extract(data, '$.balance'), transaction_version, event_index, timestamp
+     FROM events
+     WHERE event_type = 'StreamsSet' AND json_extract(data, '$.fa_metadata') IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM streams_history)
+     ORDER BY transaction_version, event_index, id`
+  )
+  .run();
+if (historyBackfilled.changes > 0) {
+  console.log(
+    `✅ Filled ${historyBackfilled.changes} streams history entries from StreamsSet events`
+  );
+}
+
+// Natural key for events: (deployment, transaction version, event index).
+// Remove duplicates left by earlier non-idempotent syncs before enforcing it.
+const duplicates = db
+  .prepare(
+    `DELETE FROM events
+     WHERE transaction_version IS NOT NULL
+       AND id NOT IN (
+         SELECT MIN(id) FROM events
+         WHERE transaction_version IS NOT NULL
+         GROUP BY deployment_address, transaction_version, event_index
+       )`
+  )
+  .run();
+if (duplicates.changes > 0) {
+  console.log(`✅ Removed ${duplicates.changes} duplicate events`);
+}
+
+// Events stored before transaction versions were recorded never collide with
+// their re-synced copies (NULLs are distinct in a unique index), so a re-sync
+// would store them twice. Drop them - a backfill stores them again, versioned.
+const unversioned = db
+  .prepare(
+    `SELECT e.deployment_address, COUNT(*) AS count, c.last_sequence
+     FROM events e
+     LEFT JOIN sync_cursors c
+       ON c.deployment_address = e.deployment_address AND c.event_type = 'transactions'
+     WHERE e.transaction_version IS NULL
+     GROUP BY e.deployment_address
+     ORDER BY e.deployment_address`
+  )
+  .all() as Array<{
+  deployment_address: string;
+  count: number;
+  last_sequence: string | null;
+}>;
+if (unversioned.length > 0) {
+  db.prepare(`DELETE FROM events WHERE transaction_version IS NULL`).run();
+  for (const { deployment_address, count, last_sequence } of unversioned) {
+    console.warn(
+      `⚠️  Removed ${count} events of ${deployment_address} stored without a transaction version - store them again (before any reindex) with: npm run cli -- backfill ${deployment_address} --from 0 --to ${last_sequence ?? "<synced version>"}`
+    );
+  }
+}
+
+db.exec(`
+  DROP INDEX IF EXISTS idx_events_chain_order;
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_events_natural_key ON events(deployment_address, transaction_version, event_index);
+`);
+
 console.log("✅ Database migrated:", dbPath);
 db.close();
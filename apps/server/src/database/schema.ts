@@ -23,6 +23,36 @@ export interface SyncMetadataTable {
   events_processed: number;
   sync_duration_ms: number;
   has_more: number; // SQLite boolean - 1 if more data to sync, 0 if complete
+  last_error: string | null; // Message of the last failed sync, cleared on success
+  last_error_at: string | null;
+  consecutive_failures: ColumnType<number, number | undefined, number>;
+}
+
+// Sync leases - at most one instance syncs a deployment at a time
+export interface SyncLocksTable {
+  deployment_address: string;
+  owner: string; // Holder's lease id (instance id + random suffix)
+  acquired_at: string;
+  expires_at: string; // Lease is free for the taking after this
+  purpose: "sync" | "reindex"; // What the holder is doing with the deployment
+}
+
+// Sync jobs - queued / running / finished syncs, shared by all instances
+export interface SyncJobsTable {
+  id: Generated<number>;
+  deployment_address: string;
+  account_id: string | null; // Priority account filter, if requested
+  force: number; // SQLite boolean - skip the cooldown
+  status: "queued" | "running" | "done" | "failed";
+  source: string | null; // What asked for it: api, search, worker, ...
+  created_at: string;
+  started_at: string | null;
+  heartbeat_at: string | null; // Bumped after every batch while running
+  finished_at: string | null;
+  batches: ColumnType<number, number | undefined, number>;
+  events_processed: ColumnType<number, number | undefined, number>;
+  cursor: string | null; // Last version scanned by the job
+  error: string | null;
 }
 
 // Accounts table
@@ -36,7 +66,7 @@ export interface AccountsTable {
   created_at: ColumnType<string, string, string>;
 }
 
-// Streams table
+// Streams table - one row per (sender, token, receiver, stream id)
 export interface StreamsTable {
   id: Generated<number>;
   deployment_address: string;
@@ -47,11 +77,79 @@ export interface StreamsTable {
   amt_per_sec: string;
   start_time: number;
   duration: number;
-  active: number; // SQLite boolean
+  active: number; // SQLite boolean - configured by the sender's latest StreamsSet
+  // Lifecycle, from the StreamsSet that configured the stream (null on rows
+  // indexed before these columns existed - reindex to fill them)
+  starts_at: number | null; // When it starts streaming, unix seconds
+  ends_at: number | null; // When its duration or the sender balance runs out, null = never
+  max_end: string | null; // Sender's max_end (u64)
+  balance: string | null; // Sender balance right after the StreamsSet
+  stopped_at: string | null; // When a later StreamsSet dropped it
   created_at: ColumnType<string, string, string>;
   updated_at: ColumnType<string, string, string>;
 }
 
+// Streams states - a sender's streams of one token, as of its latest StreamsSet
+// (keyed like `StreamsStateKey` on chain: account and token)
+export interface StreamsStatesTable {
+  id: Generated<number>;
+  deployment_address: string;
+  account_id: string;
+  fa_metadata: string;
+  balance: string; // Streams balance right after the StreamsSet
+  max_end: string; // When the balance runs out (u64)
+  update_time: number; // Unix seconds of the StreamsSet
+  transaction_version: number | null;
+  updated_at: ColumnType<string, string, string>; // On-chain block time
+}
+
+export type StreamChangeType =
+  | "added"
+  | "removed"
+  | "rate_changed"
+  | "schedule_changed"
+  | "top_up"
+  | "withdrawal";
+
+// Stream changes - what each StreamsSet changed against the sender's previous
+// configuration of the same token
+export interface StreamChangesTable {
+  id: Generated<number>;
+  deployment_address: string;
+  account_id: string; // Sender
+  fa_metadata: string;
+  change_type: StreamChangeType;
+  receiver_id: string | null; // Null for top-ups / withdrawals
+  stream_id: string | null;
+  old_amt_per_sec: string | null; // Configuration before (null when added)
+  old_start: number | null;
+  old_duration: number | null;
+  new_amt_per_sec: string | null; // Configuration after (null when removed)
+  new_start: number | null;
+  new_duration: number | null;
+  amount: string | null; // Top-up / withdrawal, net of what was streamed meanwhile
+  transaction_version: number | null;
+  event_index: number | null;
+  tx_hash: string | null;
+  timestamp: ColumnType<string, string, string>; // On-chain block time
+}
+
+// Streams history - every configuration a sender set for a token, in chain
+// order: the entries `squeeze_streams` checks against the sender's history hash
+export interface StreamsHistoryTable {
+  id: Generated<number>;
+  deployment_address: string;
+  account_id: string; // Sender
+  fa_metadata: string;
+  receivers: string; // JSON [{ account_id, stream_id, amt_per_sec, start, duration }]
+  update_time: number; // Unix seconds of the StreamsSet
+  max_end: string;
+  balance: string; // Streams balance right after the StreamsSet
+  transaction_version: number | null;
+  event_index: number | null;
+  timestamp: ColumnType<string, string, string>; // On-chain block time
+}
+
 // Splits table
 export interface SplitsTable {
   id: Generated<number>;
@@ -71,7 +169,38 @@ export interface EventsTable {
   account_id: string;
   data: string; // JSON string
   tx_hash: string | null;
+  transaction_version: number | null; // Ledger version of the emitting transaction
+  event_index: number | null; // Position of the event within its transaction
   sequence_number: string; // For cursor tracking
+  timestamp: ColumnType<string, string, string>; // On-chain block time
+  sender: string | null; // Transaction sender - kept so reindexing can detect drivers
+  entry_function: string | null; // Entry function of the emitting transaction
+}
+
+// Account metadata - latest value per (account, key)
+export interface AccountMetadataTable {
+  id: Generated<number>;
+  deployment_address: string;
+  account_id: string;
+  key: string; // UTF-8 key, or hex if the bytes are not valid UTF-8
+  value: string | null; // UTF-8 value, null if the bytes are not valid UTF-8
+  value_hex: string; // Raw value bytes
+  transaction_version: number | null;
+  tx_hash: string | null;
+  updated_at: ColumnType<string, string, string>; // On-chain block time
+}
+
+// Account metadata history - every AccountMetadataEmitted event
+export interface AccountMetadataHistoryTable {
+  id: Generated<number>;
+  deployment_address: string;
+  account_id: string;
+  key: string;
+  value: string | null;
+  value_hex: string;
+  transaction_version: number | null;
+  event_index: number | null;
+  tx_hash: string | null;
   timestamp: ColumnType<string, string, string>;
 }
 
@@ -93,15 +222,124 @@ export interface TokensTable {
   updated_at: ColumnType<string, string, string>;
 }
 
+// Webhook subscriptions - filters are ANDed, null matches anything
+export interface WebhooksTable {
+  id: Generated<number>;
+  url: string;
+  secret: string; // HMAC key for the X-Xylkit-Signature header
+  description: string | null;
+  deployment_address: string | null;
+  event_types: string | null; // JSON array of EventType
+  account_id: string | null;
+  fa_metadata: string | null;
+  active: number; // SQLite boolean
+  created_at: string;
+  updated_at: string;
+}
+
+// Webhook deliveries - one row per (webhook, event) send, kept as the delivery log
+export interface WebhookDeliveriesTable {
+  id: Generated<number>;
+  webhook_id: number;
+  event_id: number; // events.id
+  status: "pending" | "delivered" | "failed";
+  attempts: ColumnType<number, number | undefined, number>;
+  next_attempt_at: string | null; // Null once delivered or out of attempts
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export type SnapshotInterval = "hour" | "day";
+
+// Analytics snapshots - deployment-wide metrics for one hour or day
+export interface AnalyticsSnapshotsTable {
+  id: Generated<number>;
+  deployment_address: string;
+  interval: SnapshotInterval;
+  bucket_start: string; // ISO start of the hour / UTC day
+  new_accounts: number; // Accounts first seen in the bucket
+  total_accounts: number; // As of the bucket's end
+  volume_usd: number | null; // Sum of the token rows' USD values, null if one is unpriced
+  tvl_usd: number | null;
+  updated_at: string;
+}
+
+// Per-token analytics for one bucket - amounts are raw, prices as recorded then
+export interface AnalyticsTokenSnapshotsTable {
+  id: Generated<number>;
+  deployment_address: string;
+  interval: SnapshotInterval;
+  bucket_start: string;
+  fa_metadata: string;
+  tvl: string; // Latest streams balances, as of the bucket's end
+  volume_given: string; // Volume by event type within the bucket
+  volume_collected: string;
+  volume_received: string;
+  volume_squeezed: string;
+  active_streams: number; // Streams running at the bucket's end
+  streaming_rate: string; // Their summed amt_per_sec (9 extra decimals)
+  price_usd: number | null; // Null when no price for the bucket is known
+  volume_usd: number | null;
+  tvl_usd: number | null;
+  updated_at: string;
+}
+
+// How far snapshots of a deployment have seen its events
+export interface AnalyticsCursorsTable {
+  deployment_address: string;
+  interval: SnapshotInterval;
+  last_event_id: number;
+  updated_at: string;
+}
+
+export type DiscrepancyKind =
+  | "splits_hash"
+  | "streams_hash"
+  | "history_hash"
+  | "streams_balance"
+  | "splits_balance"
+  | "vault_balance";
+
+// Reconciliation findings - a check where the indexed state disagreed with the
+// chain. The row stays open until a later run sees the two agree again.
+export interface DiscrepanciesTable {
+  id: Generated<number>;
+  deployment_address: string;
+  kind: DiscrepancyKind;
+  account_id: string | null; // Null for token-wide balance checks
+  fa_metadata: string | null; // Null for splits hashes
+  indexed: string; // Hash or raw amount, as computed from the index
+  on_chain: string;
+  detected_at: string;
+  checked_at: string; // Last run that still saw it
+  resolved_at: string | null;
+}
+
 // Database interface
 export interface DB {
   deployments: DeploymentsTable;
   sync_cursors: SyncCursorsTable;
   sync_metadata: SyncMetadataTable;
+  sync_locks: SyncLocksTable;
+  sync_jobs: SyncJobsTable;
   accounts: AccountsTable;
   streams: StreamsTable;
+  streams_states: StreamsStatesTable;
+  stream_changes: StreamChangesTable;
+  streams_history: StreamsHistoryTable;
   splits: SplitsTable;
   events: EventsTable;
+  account_metadata: AccountMetadataTable;
+  account_metadata_history: AccountMetadataHistoryTable;
   token_prices: TokenPricesTable;
   tokens: TokensTable;
+  webhooks: WebhooksTable;
+  webhook_deliveries: WebhookDeliveriesTable;
+  analytics_snapshots: AnalyticsSnapshotsTable;
+  analytics_token_snapshots: AnalyticsTokenSnapshotsTable;
+  analytics_cursors: AnalyticsCursorsTable;
+  discrepancies: DiscrepanciesTable;
 }
@@ -0,0 +1,75 @@
+// POST/GET /graphql - see schema.ts for the types
+
+import {
+  GraphQLError,
+  Kind,
+  type FragmentDefinitionNode,
+  type SelectionSetNode,
+  type ValidationRule,
+} from "graphql";
+import { createHandler } from "graphql-http/lib/use/express";
+import type { Handler } from "express";
+import { createLoaders } from "./loaders.js";
+import { buildGraphqlSchema, type GraphqlContext } from "./schema.js";
+
+// Deep enough for account -> streams -> receiver -> splits -> receiver -> ...
+// while every level's lists stay bounded by the page size
+const MAX_DEPTH = 10;
+
+/** Reject operations nesting fields deeper than `max`, fragments included */
+function depthLimit(max: number): ValidationRule {
+  return (context) => {
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of context.getDocument().definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments.set(definition.name.value, definition);
+      }
+    }
+
+    const depthOf = (selectionSet: SelectionSetNode, visited: Set<string>): number => {
+      let deepest = 0;
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          const below = selection.selectionSet
+            ? depthOf(selection.selectionSet, visited)
+            : 0;
+          deepest = Math.max(deepest, 1 + below);
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          deepest = Math.max(deepest, depthOf(selection.selectionSet, visited));
+        } else {
+          const name = selection.name.value;
+          const fragment = fragments.get(name);
+          // Cycles are reported by the standard NoFragmentCycles rule
+          if (!fragment || visited.has(name)) continue;
+          deepest = Math.max(
+            deepest,
+            depthOf(fragment.selectionSet, new Set([...visited, name]))
+          );
+        }
+      }
+      return deepest;
+    };
+
+    return {
+      OperationDefinition(node) {
+        const depth = depthOf(node.selectionSet, new Set());
+        if (depth > max) {
+          context.reportError(
+            new GraphQLError(`Query depth ${depth} exceeds the maximum of ${max}`, {
+              nodes: [node],
+            })
+          );
+        }
+      },
+    };
+  };
+}
+
+/** Express handler for /graphql; each request gets fresh DataLoaders */
+export function createGraphqlHandler(): Handler {
+  return createHandler<GraphqlContext>({
+    schema: buildGraphqlSchema(),
+    context: () => ({ loaders: createLoaders() }),
+    validationRules: [depthLimit(MAX_DEPTH)],
+  });
+}
@@ -0,0 +1,242 @@
+// Per-request DataLoaders - resolvers reach related rows through these, so a
+// list of N parents costs one query per relation instead of N
+
+import DataLoader from "dataloader";
+import { sql, type Selectable } from "kysely";
+import { getDb } from "../database/connection.js";
+import type {
+  AccountMetadataTable,
+  AccountsTable,
+  DeploymentsTable,
+  EventsTable,
+  SplitsTable,
+  StreamsTable,
+  TokensTable,
+} from "../database/schema.js";
+import { getSyncStatus, type SyncStatus } from "../indexer/sync.js";
+
+export type DeploymentRow = Selectable<DeploymentsTable>;
+export type AccountRow = Selectable<AccountsTable>;
+export type StreamRow = Selectable<StreamsTable>;
+export type SplitRow = Selectable<SplitsTable>;
+export type EventRow = Selectable<EventsTable>;
+export type TokenRow = Selectable<TokensTable>;
+export type AccountMetadataRow = Selectable<AccountMetadataTable>;
+
+/** Account ids are only unique within a deployment - keys carry both */
+export function accountKey(deployment: string, accountId: string): string {
+  return `${deployment}|${accountId}`;
+}
+
+function parseAccountKey(key: string): { deployment: string; accountId: string } {
+  const [deployment, accountId] = key.split("|");
+  return { deployment, accountId };
+}
+
+/**
+ * Load rows for many (deployment, account) keys with one query per deployment
+ * in the batch, grouped back per key by `keyOf`
+ */
+async function loadByAccount<Row>(
+  keys: readonly string[],
+  fetch: (deployment: string, accountIds: string[]) => Promise<Row[]>,
+  keyOf: (row: Row) => string
+): Promise<Row[][]> {
+  const byDeployment = new Map<string, string[]>();
+  for (const key of keys) {
+    const { deployment, accountId } = parseAccountKey(key);
+    byDeployment.set(deployment, [...(byDeployment.get(deployment) ?? []), accountId]);
+  }
+
+  const rows = await Promise.all(
+    [...byDeployment].map(([deployment, accountIds]) => fetch(deployment, accountIds))
+  );
+  const grouped = new Map<string, Row[]>();
+  for (const row of rows.flat()) {
+    const key = keyOf(row);
+    grouped.set(key, [...(grouped.get(key) ?? []), row]);
+  }
+  return keys.map((key) => grouped.get(key) ?? []);
+}
+
+/** Events one account emitted, newest first - `limit` rows after `afterId` */
+export interface AccountEventsKey {
+  deployment: string;
+  accountId: string;
+  types: string[] | null;
+  afterId: number | null;
+  limit: number;
+}
+
+/**
+ * Page through several accounts' events at once: a window function numbers
+ * each account's rows so one query returns the first `limit` of every account
+ * sharing the same page arguments
+ */
+async function loadAccountEvents(keys: readonly AccountEventsKey[]): Promise<EventRow[][]> {
+  const db = getDb();
+  const pageOf = (k: AccountEventsKey) =>
+    JSON.stringify([k.deployment, k.types, k.afterId, k.limit]);
+
+  const pages = new Map<string, AccountEventsKey[]>();
+  for (const key of keys) pages.set(pageOf(key), [...(pages.get(pageOf(key)) ?? []), key]);
+
+  const results = new Map<string, EventRow[]>();
+  for (const group of pages.values()) {
+    const { deployment, types, afterId, limit } = group[0];
+    let inner = db
+      .selectFrom("events")
+      .selectAll()
+      .select(
+        sql<number>`row_number() over (partition by account_id order by id desc)`.as(
+          "position"
+        )
+      )
+      .where("deployment_address", "=", deployment)
+      .where(
+        "account_id",
+        "in",
+        group.map((k) => k.accountId)
+      );
+    if (types) inner = inner.where("event_type", "in", types);
+    if (afterId !== null) inner = inner.where("id", "<", afterId);
+
+    const rows = await db
+      .selectFrom(inner.as("e"))
+      .selectAll()
+      .where("position", "<=", limit)
+      .orderBy("id", "desc")
+      .execute();
+    for (const { position: _position, ...row } of rows) {
+      const key = `${pageOf(group[0])}|${row.account_id}`;
+      results.set(key, [...(results.get(key) ?? []), row]);
+    }
+  }
+  return keys.map((k) => results.get(`${pageOf(k)}|${k.accountId}`) ?? []);
+}
+
+export function createLoaders() {
+  const db = getDb();
+
+  return {
+    deployment: new DataLoader<string, DeploymentRow | null>(async (addresses) => {
+      const rows = await db
+        .selectFrom("deployments")
+        .selectAll()
+        .where("address", "in", [...addresses])
+        .execute();
+      return addresses.map((a) => rows.find((r) => r.address === a) ?? null);
+    }),
+
+    // Every deployment's status comes from one query
+    syncStatus: new DataLoader<string, SyncStatus | null>(async (deployments) => {
+      const status = await getSyncStatus();
+      return deployments.map((d) => status.find((s) => s.deployment === d) ?? null);
+    }),
+
+    account: new DataLoader<string, AccountRow | null>(async (keys) => {
+      const rows = await loadByAccount(
+        keys,
+        (deployment, accountIds) =>
+          db
+            .selectFrom("accounts")
+            .selectAll()
+            .where("deployment_address", "=", deployment)
+            .where("account_id", "in", accountIds)
+            .execute(),
+        (r) => accountKey(r.deployment_address, r.account_id)
+      );
+      return rows.map((r) => r[0] ?? null);
+    }),
+
+    streamsBySender: new DataLoader<string, StreamRow[]>((keys) =>
+      loadByAccount(
+        keys,
+        (deployment, accountIds) =>
+          db
+            .selectFrom("streams")
+            .selectAll()
+            .where("deployment_address", "=", deployment)
+            .where("sender_id", "in", accountIds)
+            .orderBy("id")
+            .execute(),
+        (r) => accountKey(r.deployment_address, r.sender_id)
+      )
+    ),
+
+    streamsByReceiver: new DataLoader<string, StreamRow[]>((keys) =>
+      loadByAccount(
+        keys,
+        (deployment, accountIds) =>
+          db
+            .selectFrom("streams")
+            .selectAll()
+            .where("deployment_address", "=", deployment)
+            .where("receiver_id", "in", accountIds)
+            .orderBy("id")
+            .execute(),
+        (r) => accountKey(r.deployment_address, r.receiver_id)
+      )
+    ),
+
+    splitsByAccount: new DataLoader<string, SplitRow[]>((keys) =>
+      loadByAccount(
+        keys,
+        (deployment, accountIds) =>
+          db
+            .selectFrom("splits")
+            .selectAll()
+            .where("deployment_address", "=", deployment)
+            .where("account_id", "in", accountIds)
+            .orderBy("id")
+            .execute(),
+        (r) => accountKey(r.deployment_address, r.account_id)
+      )
+    ),
+
+    splitsByReceiver: new DataLoader<string, SplitRow[]>((keys) =>
+      loadByAccount(
+        keys,
+        (deployment, accountIds) =>
+          db
+            .selectFrom("splits")
+            .selectAll()
+            .where("deployment_address", "=", deployment)
+            .where("receiver_id", "in", accountIds)
+            .orderBy("id")
+            .execute(),
+        (r) => accountKey(r.deployment_address, r.receiver_id)
+      )
+    ),
+
+    metadata: new DataLoader<string, AccountMetadataRow[]>((keys) =>
+      loadByAccount(
+        keys,
+        (deployment, accountIds) =>
+          db
+            .selectFrom("account_metadata")
+            .selectAll()
+            .where("deployment_address", "=", deployment)
+            .where("account_id", "in", accountIds)
+            .orderBy("key")
+            .execute(),
+        (r) => accountKey(r.deployment_address, r.account_id)
+      )
+    ),
+
+    accountEvents: new DataLoader<AccountEventsKey, EventRow[], string>(loadAccountEvents, {
+      cacheKeyFn: (k) => JSON.stringify(k),
+    }),
+
+    token: new DataLoader<string, TokenRow | null>(async (addresses) => {
+      const rows = await db
+        .selectFrom("tokens")
+        .selectAll()
+        .where("address", "in", [...addresses])
+        .execute();
+      return addresses.map((a) => rows.find((r) => r.address === a) ?? null);
+    }),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
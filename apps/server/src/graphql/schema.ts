@@ -0,0 +1,743 @@
+// GraphQL schema over the indexed tables - the same data as the REST routes,
+// fetched with arbitrary nesting in one request
+
+import {
+  buildSchema,
+  GraphQLError,
+  isObjectType,
+  type GraphQLFieldResolver,
+  type GraphQLSchema,
+} from "graphql";
+import {
+  getStreamLifecycle,
+  liveStreams,
+  STREAM_STATUSES,
+} from "../accounting/lifecycle.js";
+import { getDb } from "../database/connection.js";
+import { EVENT_TYPES } from "../types/index.js";
+import { calcAccountId } from "../utils/account.js";
+import { parseMetadataJson } from "../utils/metadata.js";
+import { getNetworkName, resolveNetworkId } from "../utils/network.js";
+import {
+  accountKey,
+  type AccountMetadataRow,
+  type AccountRow,
+  type DeploymentRow,
+  type EventRow,
+  type Loaders,
+  type SplitRow,
+  type StreamRow,
+  type TokenRow,
+} from "./loaders.js";
+
+export type GraphqlContext = { loaders: Loaders };
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const typeDefs = /* GraphQL */ `
+  "Any JSON value - event payloads and metadata"
+  scalar JSON
+
+  enum EventType {
+    ${EVENT_TYPES.join("\n    ")}
+  }
+
+  enum StreamStatus {
+    ${STREAM_STATUSES.join("\n    ")}
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    "Pass as \`after\` for the next page"
+    endCursor: String
+  }
+
+  type Query {
+    deployments(network: String, first: Int, after: String): DeploymentConnection!
+    deployment(address: String!): Deployment
+    account(deployment: String!, accountId: String!): Account
+    "Filter by deployment and/or wallet (its AddressDriver account and accounts it owns)"
+    accounts(deployment: String, wallet: String, first: Int, after: String): AccountConnection!
+    streams(
+      deployment: String
+      sender: String
+      receiver: String
+      token: String
+      active: Boolean
+      first: Int
+      after: String
+    ): StreamConnection!
+    splits(
+      deployment: String
+      account: String
+      receiver: String
+      first: Int
+      after: String
+    ): SplitConnection!
+    "Newest indexed first. fromVersion / toVersion bound the transaction version."
+    events(
+      deployment: String
+      account: String
+      types: [EventType!]
+      fromVersion: String
+      toVersion: String
+      first: Int
+      after: String
+    ): EventConnection!
+    tokens(first: Int, after: String): TokenConnection!
+    token(address: String!): Token
+  }
+
+  type Deployment {
+    address: String!
+    network: String!
+    networkName: String!
+    firstSeenAt: String!
+    sync: SyncStatus
+    accounts(first: Int, after: String): AccountConnection!
+    streams(
+      sender: String
+      receiver: String
+      token: String
+      active: Boolean
+      first: Int
+      after: String
+    ): StreamConnection!
+    splits(account: String, receiver: String, first: Int, after: String): SplitConnection!
+    events(
+      account: String
+      types: [EventType!]
+      fromVersion: String
+      toVersion: String
+      first: Int
+      after: String
+    ): EventConnection!
+  }
+
+  type SyncStatus {
+    lastSyncedAt: String
+    failing: Boolean!
+    lastError: String
+    lastErrorAt: String
+    consecutiveFailures: Int!
+  }
+
+  type Account {
+    deploymentAddress: String!
+    deployment: Deployment
+    accountId: String!
+    walletAddress: String
+    "1 = AddressDriver, 2 = NFTDriver"
+    driverType: Int!
+    driverName: String
+    createdAt: String!
+    outgoingStreams(active: Boolean): [Stream!]!
+    incomingStreams(active: Boolean): [Stream!]!
+    "The account's current splits configuration"
+    splits: [Split!]!
+    "Splits configurations of other accounts that name this one"
+    splitsReceived: [Split!]!
+    metadata: [AccountMetadata!]!
+    "Events the account emitted, newest first"
+    events(types: [EventType!], first: Int, after: String): EventConnection!
+  }
+
+  type Stream {
+    id: Int!
+    streamId: String!
+    deploymentAddress: String!
+    deployment: Deployment
+    senderId: String!
+    sender: Account
+    receiverId: String!
+    receiver: Account
+    tokenAddress: String!
+    token: Token
+    "Raw amount per second, including the contract's extra decimals"
+    amtPerSec: String!
+    startTime: Int!
+    duration: Int!
+    "Scheduled or streaming"
+    active: Boolean!
+    status: StreamStatus!
+    startedAt: String!
+    "When it stops (or stopped) - null while it runs until its sender stops it"
+    endsAt: String
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type Split {
+    id: Int!
+    deploymentAddress: String!
+    accountId: String!
+    account: Account
+    receiverId: String!
+    receiver: Account
+    "Out of 1,000,000"
+    weight: Int!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type Event {
+    id: Int!
+    deploymentAddress: String!
+    deployment: Deployment
+    type: EventType!
+    accountId: String!
+    account: Account
+    data: JSON!
+    token: Token
+    txHash: String
+    version: String
+    eventIndex: Int
+    timestamp: String!
+  }
+
+  type AccountMetadata {
+    key: String!
+    value: String
+    valueHex: String!
+    "value parsed as JSON, when it is JSON"
+    json: JSON
+    version: String
+    txHash: String
+    updatedAt: String!
+  }
+
+  type Token {
+    address: String!
+    symbol: String!
+    name: String!
+    decimals: Int!
+  }
+
+  type DeploymentConnection {
+    nodes: [Deployment!]!
+    pageInfo: PageInfo!
+  }
+  type AccountConnection {
+    nodes: [Account!]!
+    pageInfo: PageInfo!
+  }
+  type StreamConnection {
+    nodes: [Stream!]!
+    pageInfo: PageInfo!
+  }
+  type SplitConnection {
+    nodes: [Split!]!
+    pageInfo: PageInfo!
+  }
+  type EventConnection {
+    nodes: [Event!]!
+    pageInfo: PageInfo!
+  }
+  type TokenConnection {
+    nodes: [Token!]!
+    pageInfo: PageInfo!
+  }
+`;
+
+interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+interface Connection<T> {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+function pageSize(args: PageArgs): number {
+  const first = args.first ?? DEFAULT_PAGE_SIZE;
+  if (first < 1 || first > MAX_PAGE_SIZE) {
+    throw new GraphQLError(`first must be between 1 and ${MAX_PAGE_SIZE}`, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return first;
+}
+
+// Cursors are the base64url of the last row's key - an id or an address
+const encodeCursor = (key: string | number) =>
+  Buffer.from(String(key)).toString("base64url");
+
+function decodeCursor(after: string | null | undefined): string | null {
+  return after ? Buffer.from(after, "base64url").toString() : null;
+}
+
+function decodeIdCursor(after: string | null | undefined): number | null {
+  const decoded = decodeCursor(after);
+  if (decoded === null) return null;
+  const id = Number(decoded);
+  if (!Number.isInteger(id)) {
+    throw new GraphQLError("Invalid cursor", { extensions: { code: "BAD_USER_INPUT" } });
+  }
+  return id;
+}
+
+/** `rows` holds up to limit + 1 rows - the extra one only signals a next page */
+function toConnection<Row, T>(
+  rows: Row[],
+  limit: number,
+  cursorOf: (row: Row) => string | number,
+  map: (row: Row) => T
+): Connection<T> {
+  const page = rows.slice(0, limit);
+  return {
+    nodes: page.map(map),
+    pageInfo: {
+      hasNextPage: rows.length > limit,
+      endCursor: page.length > 0 ? encodeCursor(cursorOf(page[page.length - 1])) : null,
+    },
+  };
+}
+
+function parseVersion(value: string | null | undefined, name: string): number | null {
+  if (value === null || value === undefined) return null;
+  if (!/^\d+$/.test(value)) {
+    throw new GraphQLError(`${name} must be a transaction version`, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return Number(value);
+}
+
+// Row -> GraphQL object mappers; relations resolve from the ids kept here
+
+const toDeployment = (d: DeploymentRow) => ({
+  address: d.address,
+  network: d.network,
+  networkName: getNetworkName(d.network),
+  firstSeenAt: d.first_seen_at,
+});
+
+const toAccount = (a: AccountRow) => ({
+  deploymentAddress: a.deployment_address,
+  accountId: a.account_id,
+  walletAddress: a.wallet_address,
+  driverType: a.driver_type,
+  driverName: a.driver_name,
+  createdAt: a.created_at,
+});
+
+const isoSeconds = (secs: number) => new Date(secs * 1000).toISOString();
+
+const toStream = (s: StreamRow) => {
+  const lifecycle = getStreamLifecycle(s);
+  return {
+    id: s.id,
+    streamId: s.stream_id,
+    deploymentAddress: s.deployment_address,
+    senderId: s.sender_id,
+    receiverId: s.receiver_id,
+    tokenAddress: s.fa_metadata,
+    amtPerSec: s.amt_per_sec,
+    startTime: s.start_time,
+    duration: s.duration,
+    active: lifecycle.active,
+    status: lifecycle.status,
+    startedAt: isoSeconds(lifecycle.startsAt),
+    endsAt: lifecycle.endsAt !== null ? isoSeconds(lifecycle.endsAt) : null,
+    createdAt: s.created_at,
+    updatedAt: s.updated_at,
+  };
+};
+
+const toSplit = (s: SplitRow) => ({
+  id: s.id,
+  deploymentAddress: s.deployment_address,
+  accountId: s.account_id,
+  receiverId: s.receiver_id,
+  weight: s.weight,
+  createdAt: s.created_at,
+  updatedAt: s.updated_at,
+});
+
+const toEvent = (e: EventRow) => ({
+  id: e.id,
+  deploymentAddress: e.deployment_address,
+  type: e.event_type,
+  accountId: e.account_id,
+  data: JSON.parse(e.data) as Record<string, unknown>,
+  txHash: e.tx_hash,
+  version: e.transaction_version === null ? null : String(e.transaction_version),
+  eventIndex: e.event_index,
+  timestamp: e.timestamp,
+});
+
+const toMetadata = (m: AccountMetadataRow) => ({
+  key: m.key,
+  value: m.value,
+  valueHex: m.value_hex,
+  json: parseMetadataJson(m.value),
+  version: m.transaction_version === null ? null : String(m.transaction_version),
+  txHash: m.tx_hash,
+  updatedAt: m.updated_at,
+});
+
+const toToken = (t: TokenRow) => ({
+  address: t.address,
+  symbol: t.symbol,
+  name: t.name,
+  decimals: t.decimals,
+});
+
+type Deployment = ReturnType<typeof toDeployment>;
+type Account = ReturnType<typeof toAccount>;
+type Stream = ReturnType<typeof toStream>;
+type Split = ReturnType<typeof toSplit>;
+type Event = ReturnType<typeof toEvent>;
+
+// Top-level lists - nested connections reuse them with the parent filled in
+
+async function deployments(args: PageArgs & { network?: string | null }) {
+  const limit = pageSize(args);
+  const after = decodeCursor(args.after);
+  let query = getDb().selectFrom("deployments").selectAll();
+  if (args.network) query = query.where("network", "=", resolveNetworkId(args.network));
+  if (after !== null) query = query.where("address", ">", after);
+  const rows = await query
+    .orderBy("address")
+    .limit(limit + 1)
+    .execute();
+  return toConnection(rows, limit, (d) => d.address, toDeployment);
+}
+
+async function accounts(
+  args: PageArgs & { deployment?: string | null; wallet?: string | null }
+) {
+  const limit = pageSize(args);
+  const after = decodeIdCursor(args.after);
+  let query = getDb().selectFrom("accounts").selectAll();
+  if (args.deployment) query = query.where("deployment_address", "=", args.deployment);
+  if (args.wallet) {
+    const wallet = args.wallet;
+    let accountId: string;
+    try {
+      accountId = calcAccountId(wallet).toString();
+    } catch {
+      throw new GraphQLError("wallet must be an address", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+    query = query.where((eb) =>
+      eb.or([eb("wallet_address", "=", wallet), eb("account_id", "=", accountId)])
+    );
+  }
+  if (after !== null) query = query.where("id", ">", after);
+  const rows = await query
+    .orderBy("id")
+    .limit(limit + 1)
+    .execute();
+  return toConnection(rows, limit, (a) => a.id, toAccount);
+}
+
+async function streams(
+  args: PageArgs & {
+    deployment?: string | null;
+    sender?: string | null;
+    receiver?: string | null;
+    token?: string | null;
+    active?: boolean | null;
+  }
+) {
+  const limit = pageSize(args);
+  const after = decodeIdCursor(args.after);
+  let query = getDb().selectFrom("streams").selectAll();
+  if (args.deployment) query = query.where("deployment_address", "=", args.deployment);
+  if (args.sender) query = query.where("sender_id", "=", args.sender);
+  if (args.receiver) query = query.where("receiver_id", "=", args.receiver);
+  if (args.token) query = query.where("fa_metadata", "=", args.token);
+  if (typeof args.active === "boolean") {
+    query = query.where((eb) =>
+      args.active ? liveStreams()(eb) : eb.not(liveStreams()(eb))
+    );
+  }
+  if (after !== null) query = query.where("id", ">", after);
+  const rows = await query
+    .orderBy("id")
+    .limit(limit + 1)
+    .execute();
+  return toConnection(rows, limit, (s) => s.id, toStream);
+}
+
+async function splits(
+  args: PageArgs & {
+    deployment?: string | null;
+    account?: string | null;
+    receiver?: string | null;
+  }
+) {
+  const limit = pageSize(args);
+  const after = decodeIdCursor(args.after);
+  let query = getDb().selectFrom("splits").selectAll();
+  if (args.deployment) query = query.where("deployment_address", "=", args.deployment);
+  if (args.account) query = query.where("account_id", "=", args.account);
+  if (args.receiver) query = query.where("receiver_id", "=", args.receiver);
+  if (after !== null) query = query.where("id", ">", after);
+  const rows = await query
+    .orderBy("id")
+    .limit(limit + 1)
+    .execute();
+  return toConnection(rows, limit, (s) => s.id, toSplit);
+}
+
+async function events(
+  args: PageArgs & {
+    deployment?: string | null;
+    account?: string | null;
+    types?: string[] | null;
+    fromVersion?: string | null;
+    toVersion?: string | null;
+  }
+) {
+  const limit = pageSize(args);
+  const after = decodeIdCursor(args.after);
+  const fromVersion = parseVersion(args.fromVersion, "fromVersion");
+  const toVersion = parseVersion(args.toVersion, "toVersion");
+
+  let query = getDb().selectFrom("events").selectAll();
+  if (args.deployment) query = query.where("deployment_address", "=", args.deployment);
+  if (args.account) query = query.where("account_id", "=", args.account);
+  if (args.types?.length) query = query.where("event_type", "in", args.types);
+  if (fromVersion !== null) query = query.where("transaction_version", ">=", fromVersion);
+  if (toVersion !== null) query = query.where("transaction_version", "<=", toVersion);
+  if (after !== null) query = query.where("id", "<", after);
+  const rows = await query
+    .orderBy("id", "desc")
+    .limit(limit + 1)
+    .execute();
+  return toConnection(rows, limit, (e) => e.id, toEvent);
+}
+
+async function tokens(args: PageArgs) {
+  const limit = pageSize(args);
+  const after = decodeCursor(args.after);
+  let query = getDb().selectFrom("tokens").selectAll();
+  if (after !== null) query = query.where("address", ">", after);
+  const rows = await query
+    .orderBy("address")
+    .limit(limit + 1)
+    .execute();
+  return toConnection(rows, limit, (t) => t.address, toToken);
+}
+
+// Resolvers - parents are the DTOs above, arguments follow the SDL
+type Resolver<Parent, Args = NoArgs> = GraphQLFieldResolver<Parent, GraphqlContext, Args>;
+type NoArgs = Record<string, never>;
+/** One resolver per field, each with its own argument type */
+type Resolvers<Parent, ArgsByField> = {
+  [Field in keyof ArgsByField]: Resolver<Parent, ArgsByField[Field]>;
+};
+
+type ListArgs<List extends (args: never) => unknown> = Parameters<List>[0];
+type NestedListArgs<List extends (args: never) => unknown> = Omit<
+  ListArgs<List>,
+  "deployment"
+>;
+
+const loadAccount =
+  <Parent>(
+    deploymentOf: (p: Parent) => string,
+    accountIdOf: (p: Parent) => string
+  ): Resolver<Parent> =>
+  async (parent, _args, { loaders }) => {
+    const row = await loaders.account.load(
+      accountKey(deploymentOf(parent), accountIdOf(parent))
+    );
+    return row && toAccount(row);
+  };
+
+const loadDeployment: Resolver<{ deploymentAddress: string }> = async (
+  parent,
+  _args,
+  { loaders }
+) => {
+  const row = await loaders.deployment.load(parent.deploymentAddress);
+  return row && toDeployment(row);
+};
+
+const loadToken =
+  <Parent>(addressOf: (p: Parent) => string | undefined): Resolver<Parent> =>
+  async (parent, _args, { loaders }) => {
+    const address = addressOf(parent);
+    if (!address) return null;
+    const row = await loaders.token.load(address);
+    return row && toToken(row);
+  };
+
+const Query: Resolvers<
+  unknown,
+  {
+    deployments: ListArgs<typeof deployments>;
+    deployment: { address: string };
+    account: { deployment: string; accountId: string };
+    accounts: ListArgs<typeof accounts>;
+    streams: ListArgs<typeof streams>;
+    splits: ListArgs<typeof splits>;
+    events: ListArgs<typeof events>;
+    tokens: ListArgs<typeof tokens>;
+    token: { address: string };
+  }
+> = {
+  deployments: (_root, args) => deployments(args),
+  deployment: async (_root, { address }, { loaders }) => {
+    const row = await loaders.deployment.load(address);
+    return row && toDeployment(row);
+  },
+  account: async (_root, { deployment, accountId }, { loaders }) => {
+    const row = await loaders.account.load(accountKey(deployment, accountId));
+    return row && toAccount(row);
+  },
+  accounts: (_root, args) => accounts(args),
+  streams: (_root, args) => streams(args),
+  splits: (_root, args) => splits(args),
+  events: (_root, args) => events(args),
+  tokens: (_root, args) => tokens(args),
+  token: async (_root, { address }, { loaders }) => {
+    const row = await loaders.token.load(address);
+    return row && toToken(row);
+  },
+};
+
+const DeploymentFields: Resolvers<
+  Deployment,
+  {
+    sync: NoArgs;
+    accounts: NestedListArgs<typeof accounts>;
+    streams: NestedListArgs<typeof streams>;
+    splits: NestedListArgs<typeof splits>;
+    events: NestedListArgs<typeof events>;
+  }
+> = {
+  sync: (parent, _args, { loaders }) => loaders.syncStatus.load(parent.address),
+  accounts: (parent, args) => accounts({ ...args, deployment: parent.address }),
+  streams: (parent, args) => streams({ ...args, deployment: parent.address }),
+  splits: (parent, args) => splits({ ...args, deployment: parent.address }),
+  events: (parent, args) => events({ ...args, deployment: parent.address }),
+};
+
+const AccountFields: Resolvers<
+  Account,
+  {
+    deployment: NoArgs;
+    outgoingStreams: { active?: boolean | null };
+    incomingStreams: { active?: boolean | null };
+    splits: NoArgs;
+    splitsReceived: NoArgs;
+    metadata: NoArgs;
+    events: PageArgs & { types?: string[] | null };
+  }
+> = {
+  deployment: loadDeployment,
+  outgoingStreams: async (parent, { active }, { loaders }) => {
+    const rows = await loaders.streamsBySender.load(
+      accountKey(parent.deploymentAddress, parent.accountId)
+    );
+    return rows
+      .map(toStream)
+      .filter((s) => typeof active !== "boolean" || s.active === active);
+  },
+  incomingStreams: async (parent, { active }, { loaders }) => {
+    const rows = await loaders.streamsByReceiver.load(
+      accountKey(parent.deploymentAddress, parent.accountId)
+    );
+    return rows
+      .map(toStream)
+      .filter((s) => typeof active !== "boolean" || s.active === active);
+  },
+  splits: async (parent, _args, { loaders }) =>
+    (
+      await loaders.splitsByAccount.load(
+        accountKey(parent.deploymentAddress, parent.accountId)
+      )
+    ).map(toSplit),
+  splitsReceived: async (parent, _args, { loaders }) =>
+    (
+      await loaders.splitsByReceiver.load(
+        accountKey(parent.deploymentAddress, parent.accountId)
+      )
+    ).map(toSplit),
+  metadata: async (parent, _args, { loaders }) =>
+    (
+      await loaders.metadata.load(accountKey(parent.deploymentAddress, parent.accountId))
+    ).map(toMetadata),
+  events: async (parent, args, { loaders }) => {
+    const limit = pageSize(args);
+    const rows = await loaders.accountEvents.load({
+      deployment: parent.deploymentAddress,
+      accountId: parent.accountId,
+      types: args.types?.length ? args.types : null,
+      afterId: decodeIdCursor(args.after),
+      // One extra row tells whether there is a next page
+      limit: limit + 1,
+    });
+    return toConnection(rows, limit, (e) => e.id, toEvent);
+  },
+};
+
+const StreamFields: Resolvers<
+  Stream,
+  { deployment: NoArgs; sender: NoArgs; receiver: NoArgs; token: NoArgs }
+> = {
+  deployment: loadDeployment,
+  sender: loadAccount(
+    (s) => s.deploymentAddress,
+    (s) => s.senderId
+  ),
+  receiver: loadAccount(
+    (s) => s.deploymentAddress,
+    (s) => s.receiverId
+  ),
+  token: loadToken((s) => s.tokenAddress),
+};
+
+const SplitFields: Resolvers<Split, { account: NoArgs; receiver: NoArgs }> = {
+  account: loadAccount(
+    (s) => s.deploymentAddress,
+    (s) => s.accountId
+  ),
+  receiver: loadAccount(
+    (s) => s.deploymentAddress,
+    (s) => s.receiverId
+  ),
+};
+
+const EventFields: Resolvers<
+  Event,
+  { deployment: NoArgs; account: NoArgs; token: NoArgs }
+> = {
+  deployment: loadDeployment,
+  account: loadAccount(
+    (e) => e.deploymentAddress,
+    (e) => e.accountId
+  ),
+  token: loadToken((e) => e.data.fa_metadata as string | undefined),
+};
+
+const resolvers = {
+  Query,
+  Deployment: DeploymentFields,
+  Account: AccountFields,
+  Stream: StreamFields,
+  Split: SplitFields,
+  Event: EventFields,
+};
+
+/** Build the executable schema - resolvers are attached to the parsed SDL */
+export function buildGraphqlSchema(): GraphQLSchema {
+  const schema = buildSchema(typeDefs);
+  for (const [typeName, fields] of Object.entries(resolvers)) {
+    const type = schema.getType(typeName);
+    if (!isObjectType(type)) throw new Error(`GraphQL type ${typeName} not in schema`);
+    for (const [fieldName, resolve] of Object.entries(fields)) {
+      const field = type.getFields()[fieldName];
+      if (!field) throw new Error(`GraphQL field ${typeName}.${fieldName} not in schema`);
+      field.resolve = resolve;
+    }
+  }
+  return schema;
+}
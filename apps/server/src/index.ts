@@ -1,63 +1,56 @@
 import dotenv from "dotenv";
 dotenv.config();
 
-import express from "express";
-import cors from "cors";
-import deploymentsRouter from "./routes/deployments.js";
-import usersRouter from "./routes/users.js";
-import syncRouter from "./routes/sync.js";
-import searchRouter from "./routes/search.js";
-import { AppError } from "./utils/errors.js";
-
-const app = express();
+import { startSnapshotter } from "./analytics/snapshots.js";
+import { createApp } from "./app.js";
+import { stopQueue } from "./indexer/queue.js";
+import { startReconciler } from "./indexer/reconcile.js";
+import { isBackgroundIndexerEnabled } from "./indexer/scheduler.js";
+import { createIndexerWorker, getPollIntervalMs } from "./indexer/worker.js";
+import { startWebhookDispatcher } from "./webhooks/deliveries.js";
+
+const app = createApp();
 const PORT = process.env.PORT || 3001;
 const NODE_ENV = process.env.NODE_ENV || "development";
 
-// Middleware
-app.use(cors());
-app.use(express.json());
-
-// Health check
-app.get("/health", (_req, res) => {
-  res.json({
-    status: "ok",
-    timestamp: new Date().toISOString(),
-    env: NODE_ENV,
-  });
-});
-
-// API Routes
-app.use("/deployments", deploymentsRouter);
-app.use("/users", usersRouter);
-app.use("/sync", syncRouter);
-app.use("/search", searchRouter);
-
-// Error handling
-app.use(
-  (
-    err: unknown,
-    _req: express.Request,
-    res: express.Response,
-    _next: express.NextFunction
-  ) => {
-    console.error("Error:", err);
+// Background indexer - runs in this process unless a standalone worker
+// (`npm run indexer`) has been deployed alongside the API
+const runInlineIndexer =
+  isBackgroundIndexerEnabled() && process.env.INDEXER_STANDALONE !== "true";
+const worker = runInlineIndexer ? createIndexerWorker() : null;
 
-    if (err instanceof AppError) {
-      return res.status(err.statusCode).json(err.toJSON());
-    }
-
-    const message = err instanceof Error ? err.message : "An unexpected error occurred";
-    res.status(500).json({ error: "InternalServerError", message });
-  }
-);
-
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`\n🚀 Xylkit Indexer Server`);
   console.log(`   Environment: ${NODE_ENV}`);
   console.log(`   Port: ${PORT}`);
   console.log(`\n📊 Endpoints:`);
   console.log(`   GET  /health`);
+  console.log(`   GET  /metrics`);
+  console.log(`   GET  /networks`);
   console.log(`   GET  /deployments`);
   console.log(`   GET  /users/:address`);
-  console.log(`   POST /sync  (trigger indexing)\n`);
+  console.log(`   POST /sync  (trigger indexing)`);
+  console.log(`   POST /webhooks\n`);
+  if (worker) {
+    console.log(`🔁 Background indexer enabled (poll ${getPollIntervalMs()}ms)\n`);
+    worker.start();
+  }
 });
+
+// Sends webhook deliveries queued by syncs in this process and retries failed ones
+const stopWebhooks = startWebhookDispatcher();
+// Analytics snapshots and reconciliation run wherever the indexer runs
+const stopSnapshots = worker ? startSnapshotter() : null;
+const stopReconciler = worker ? startReconciler() : null;
+
+async function shutdown(signal: string) {
+  console.log(`${signal} received, shutting down...`);
+  stopWebhooks();
+  stopSnapshots?.();
+  stopReconciler?.();
+  await Promise.all([worker?.stop(), stopQueue()]);
+  server.close(() => process.exit(0));
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
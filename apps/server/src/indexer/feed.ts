@@ -0,0 +1,325 @@
+// Live feed of indexed activity, streamed to clients as Server-Sent Events.
+// Syncs in this process announce changes directly; a light poll of the
+// database picks up syncs run elsewhere (the standalone worker, the CLI or
+// another instance).
+
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import type { Selectable } from "kysely";
+import { toStreamChangeEntry, type StreamChangeEntry } from "../accounting/changes.js";
+import { getDb } from "../database/connection.js";
+import type { EventsTable } from "../database/schema.js";
+
+const DEFAULT_POLL_MS = 2_000;
+const KEEPALIVE_MS = 15_000;
+const PAGE_SIZE = 100;
+// A reconnecting client further behind than this reloads instead of replaying
+const MAX_BACKLOG = 500;
+
+/** Event as served by the activity feed - `/events` and the live streams */
+export interface ActivityEvent {
+  id: number;
+  deployment: string;
+  eventType: string;
+  accountId: string;
+  data: Record<string, unknown>;
+  tokenSymbol: string;
+  txHash: string | null;
+  version: number | null;
+  eventIndex: number | null;
+  timestamp: string;
+  /** StreamsSet only - what it changed against the sender's previous configuration */
+  changes?: StreamChangeEntry[];
+}
+
+export interface LiveFeedOptions {
+  /** Only this deployment's events and changes - all deployments if unset */
+  deployment?: string;
+  /** Narrow each page of new events, e.g. to one user's accounts */
+  filter?: (events: ActivityEvent[]) => Promise<ActivityEvent[]>;
+  /** Sync progress to push - sent whenever it differs from the last one sent */
+  syncState: () => Promise<unknown>;
+}
+
+// Emits "change" with the deployment, or null when it isn't known which
+const changes = new EventEmitter();
+changes.setMaxListeners(0);
+
+let subscribers = 0;
+let pollTimer: NodeJS.Timeout | null = null;
+let lastMaxEventId: number | null = null;
+let lastSignatures: Map<string, string> | null = null;
+
+function getPollMs(): number {
+  const configured = parseInt(process.env.FEED_POLL_MS || "", 10);
+  return configured > 0 ? configured : DEFAULT_POLL_MS;
+}
+
+/** Tell live feeds a deployment's events or sync state changed */
+export function notifyFeed(deployment: string): void {
+  changes.emit("change", deployment);
+}
+
+/**
+ * Listen for changes; the database is polled only while someone listens
+ * Returns the unsubscribe function.
+ */
+export function subscribeFeed(listener: (deployment: string | null) => void): () => void {
+  changes.on("change", listener);
+  if (++subscribers === 1) schedulePoll();
+
+  return () => {
+    changes.off("change", listener);
+    if (--subscribers === 0 && pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+      lastMaxEventId = null;
+      lastSignatures = null;
+    }
+  };
+}
+
+function schedulePoll(): void {
+  pollTimer = setTimeout(async () => {
+    try {
+      await pollChanges();
+    } catch (err) {
+      console.error("[Feed] Failed to poll for changes:", err);
+    }
+    if (subscribers > 0) schedulePoll();
+  }, getPollMs());
+  pollTimer.unref();
+}
+
+/**
+ * Compare the newest event id and each deployment's sync state (last sync,
+ * failures, open jobs) with the previous poll, announcing what moved
+ */
+async function pollChanges(): Promise<void> {
+  const db = getDb();
+  const [latest, metadata, jobs] = await Promise.all([
+    db
+      .selectFrom("events")
+      .select((eb) => eb.fn.max("id").as("id"))
+      .executeTakeFirst(),
+    db
+      .selectFrom("sync_metadata")
+      .select(["deployment_address", "last_synced_at", "consecutive_failures"])
+      .execute(),
+    db
+      .selectFrom("sync_jobs")
+      .select(["deployment_address", "id", "status", "batches"])
+      .where("status", "in", ["queued", "running"])
+      .execute(),
+  ]);
+
+  const signatures = new Map<string, string>();
+  for (const m of metadata) {
+    signatures.set(m.deployment_address, `${m.last_synced_at}:${m.consecutive_failures}`);
+  }
+  for (const j of jobs) {
+    const previous = signatures.get(j.deployment_address) ?? "";
+    signatures.set(j.deployment_address, `${previous}|${j.id}:${j.status}:${j.batches}`);
+  }
+  const maxEventId = Number(latest?.id ?? 0);
+
+  // First poll only sets the baseline
+  if (lastSignatures) {
+    if (maxEventId !== lastMaxEventId) changes.emit("change", null);
+    const deployments = new Set([...signatures.keys(), ...lastSignatures.keys()]);
+    for (const deployment of deployments) {
+      if (signatures.get(deployment) !== lastSignatures.get(deployment)) {
+        changes.emit("change", deployment);
+      }
+    }
+  }
+  lastMaxEventId = maxEventId;
+  lastSignatures = signatures;
+}
+
+/**
+ * Parse stored events and attach token symbols (one tokens query) and the
+ * changes of StreamsSet events (one stream_changes query)
+ */
+export async function toActivityEvents(
+  rows: Selectable<EventsTable>[]
+): Promise<ActivityEvent[]> {
+  const db = getDb();
+  const parsed = rows.map((e) => ({ row: e, data: JSON.parse(e.data) }));
+
+  const tokenAddresses = new Set<string>();
+  for (const { data } of parsed) {
+    if (data.fa_metadata) tokenAddresses.add(data.fa_metadata);
+  }
+  const tokens =
+    tokenAddresses.size > 0
+      ? await db
+          .selectFrom("tokens")
+          .select(["address", "symbol", "decimals"])
+          .where("address", "in", Array.from(tokenAddresses))
+          .execute()
+      : [];
+  const symbols = new Map(tokens.map((t) => [t.address, t.symbol]));
+
+  const streamsSets = rows.filter((r) => r.event_type === "StreamsSet");
+  const changeRows = streamsSets.length
+    ? await db
+        .selectFrom("stream_changes")
+        .selectAll()
+        .where("deployment_address", "in", [
+          ...new Set(streamsSets.map((r) => r.deployment_address)),
+        ])
+        .where(
+          "transaction_version",
+          "in",
+          streamsSets.map((r) => r.transaction_version ?? -1)
+        )
+        .orderBy("id")
+        .execute()
+    : [];
+  const eventKey = (deployment: string, version: number | null, index: number | null) =>
+    `${deployment}:${version}:${index}`;
+  const changes = new Map<string, StreamChangeEntry[]>();
+  for (const c of changeRows) {
+    const token = tokens.find((t) => t.address === c.fa_metadata);
+    const key = eventKey(c.deployment_address, c.transaction_version, c.event_index);
+    changes.set(key, [
+      ...(changes.get(key) ?? []),
+      toStreamChangeEntry(c, token ?? { symbol: "TOKEN", decimals: 8 }),
+    ]);
+  }
+
+  return parsed.map(({ row, data }) => ({
+    id: row.id,
+    deployment: row.deployment_address,
+    eventType: row.event_type,
+    accountId: row.account_id,
+    data,
+    // Generic fallback for tokens we have no metadata for
+    tokenSymbol: (data.fa_metadata && symbols.get(data.fa_metadata)) || "TOKEN",
+    txHash: row.tx_hash,
+    version: row.transaction_version,
+    eventIndex: row.event_index,
+    timestamp: row.timestamp,
+    ...(row.event_type === "StreamsSet" && {
+      changes:
+        changes.get(
+          eventKey(row.deployment_address, row.transaction_version, row.event_index)
+        ) ?? [],
+    }),
+  }));
+}
+
+/**
+ * Stream newly indexed events and sync progress over the response
+ *
+ * Sends `ready` ({ lastEventId }), then `indexed` per new event (SSE id = the
+ * event id) and `sync` whenever `syncState` changes. A client reconnecting
+ * with Last-Event-ID (or `?after=<id>`) gets the events it missed, or a
+ * `reset` if it is too far behind and should reload instead.
+ */
+export async function streamLiveFeed(
+  req: Request,
+  res: Response,
+  options: LiveFeedOptions
+): Promise<void> {
+  const db = getDb();
+  const { deployment, filter, syncState } = options;
+
+  const eventsAfter = (id: number) => {
+    let query = db.selectFrom("events").where("id", ">", id);
+    if (deployment) query = query.where("deployment_address", "=", deployment);
+    return query;
+  };
+  const maxEventId = async () => {
+    let query = db.selectFrom("events").select((eb) => eb.fn.max("id").as("id"));
+    if (deployment) query = query.where("deployment_address", "=", deployment);
+    return Number((await query.executeTakeFirst())?.id ?? 0);
+  };
+
+  const resumeFrom = parseInt(
+    (req.headers["last-event-id"] as string | undefined) ?? (req.query.after as string),
+    10
+  );
+  let lastId: number;
+  let reset = false;
+  if (Number.isNaN(resumeFrom)) {
+    lastId = await maxEventId();
+  } else {
+    const backlog = await eventsAfter(resumeFrom)
+      .select((eb) => eb.fn.countAll<number>().as("count"))
+      .executeTakeFirst();
+    reset = Number(backlog?.count ?? 0) > MAX_BACKLOG;
+    lastId = reset ? await maxEventId() : resumeFrom;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Don't let nginx buffer the stream
+  });
+  const send = (event: string, data: unknown, id?: number) => {
+    res.write(
+      `${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+    );
+  };
+  res.write("retry: 5000\n\n");
+  send(reset ? "reset" : "ready", { lastEventId: lastId }, lastId);
+
+  let closed = false;
+  let refreshing = false;
+  let refreshAgain = false;
+  let lastSync: string | null = null;
+
+  const refresh = async () => {
+    if (refreshing) {
+      refreshAgain = true;
+      return;
+    }
+    refreshing = true;
+    try {
+      do {
+        refreshAgain = false;
+        for (;;) {
+          const rows = await eventsAfter(lastId)
+            .selectAll()
+            .orderBy("id")
+            .limit(PAGE_SIZE)
+            .execute();
+          if (rows.length === 0 || closed) break;
+
+          let events = await toActivityEvents(rows);
+          if (filter) events = await filter(events);
+          for (const event of events) send("indexed", event, event.id);
+          lastId = rows[rows.length - 1].id;
+          if (rows.length < PAGE_SIZE) break;
+        }
+
+        const sync = JSON.stringify(await syncState());
+        if (sync !== lastSync && !closed) {
+          lastSync = sync;
+          res.write(`event: sync\ndata: ${sync}\n\n`);
+        }
+      } while (refreshAgain && !closed);
+    } catch (err) {
+      console.error("[Feed] Failed to read new activity:", err);
+    } finally {
+      refreshing = false;
+    }
+  };
+
+  const unsubscribe = subscribeFeed((changed) => {
+    if (!deployment || changed === null || changed === deployment) void refresh();
+  });
+  // Comment lines keep proxies from closing an idle stream
+  const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+
+  req.on("close", () => {
+    closed = true;
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+
+  await refresh();
+}
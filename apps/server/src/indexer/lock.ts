@@ -0,0 +1,136 @@
+// Per-deployment sync leases, stored in the database so they hold across
+// processes and serverless instances
+
+import crypto from "crypto";
+import type { Kysely } from "kysely";
+import os from "os";
+import { getDb } from "../database/connection.js";
+import type { DB, SyncLocksTable } from "../database/schema.js";
+
+const DEFAULT_LEASE_MS = 120_000;
+
+// Identifies this process in lease owners - handy when reading sync_locks
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// Reindexes mark their lease, so any process can tell a replay is running
+export type SyncLeasePurpose = SyncLocksTable["purpose"];
+
+export interface SyncLease {
+  deployment: string;
+  owner: string;
+  /**
+   * Extend the lease - false if it expired and someone else took it
+   * Pass the open transaction when renewing from inside one.
+   */
+  renew(db?: Kysely<DB>): Promise<boolean>;
+  release(): Promise<void>;
+}
+
+/**
+ * How long a lease lasts without renewal (SYNC_LEASE_MS)
+ * Long enough for one batch including RPC retries; holders renew between
+ * batches, and a crashed holder's lease simply runs out.
+ */
+export function getLeaseMs(): number {
+  const configured = parseInt(process.env.SYNC_LEASE_MS || "", 10);
+  return configured > 0 ? configured : DEFAULT_LEASE_MS;
+}
+
+const expiresAt = () => new Date(Date.now() + getLeaseMs()).toISOString();
+
+/**
+ * Take the deployment's lease if it is free or expired
+ * Returns null when another holder - in this process or any other - has it
+ */
+export async function acquireSyncLease(
+  deployment: string,
+  purpose: SyncLeasePurpose = "sync"
+): Promise<SyncLease | null> {
+  const db = getDb();
+  const owner = `${INSTANCE_ID}:${crypto.randomUUID()}`;
+  const now = new Date().toISOString();
+
+  await db
+    .insertInto("sync_locks")
+    .values({
+      deployment_address: deployment,
+      owner,
+      acquired_at: now,
+      expires_at: expiresAt(),
+      purpose,
+    })
+    .onConflict((oc) =>
+      oc
+        .column("deployment_address")
+        .doUpdateSet({ owner, acquired_at: now, expires_at: expiresAt(), purpose })
+        .where("sync_locks.expires_at", "<", now)
+    )
+    .execute();
+
+  // The upsert is a no-op while someone else holds it - check who won
+  const lock = await db
+    .selectFrom("sync_locks")
+    .select("owner")
+    .where("deployment_address", "=", deployment)
+    .executeTakeFirst();
+  if (lock?.owner !== owner) return null;
+
+  return {
+    deployment,
+    owner,
+    async renew(conn = db) {
+      const result = await conn
+        .updateTable("sync_locks")
+        .set({ expires_at: expiresAt() })
+        .where("deployment_address", "=", deployment)
+        .where("owner", "=", owner)
+        .executeTakeFirst();
+      return Number(result.numUpdatedRows) > 0;
+    },
+    async release() {
+      await db
+        .deleteFrom("sync_locks")
+        .where("deployment_address", "=", deployment)
+        .where("owner", "=", owner)
+        .execute();
+    },
+  };
+}
+
+/** A deployment's lease, if it hasn't expired */
+export async function getSyncLease(
+  deployment: string
+): Promise<{ owner: string; purpose: SyncLeasePurpose } | null> {
+  const lock = await getDb()
+    .selectFrom("sync_locks")
+    .select(["owner", "purpose"])
+    .where("deployment_address", "=", deployment)
+    .where("expires_at", ">=", new Date().toISOString())
+    .executeTakeFirst();
+  return lock ?? null;
+}
+
+/** Current holder of a deployment's lease, if it hasn't expired */
+export async function getSyncLeaseHolder(deployment: string): Promise<string | null> {
+  return (await getSyncLease(deployment))?.owner ?? null;
+}
+
+/**
+ * Run `fn` holding the deployment's lease, released afterwards
+ * `acquired` is false (and `fn` never runs) if the lease is taken.
+ */
+export async function withSyncLease<T>(
+  deployment: string,
+  fn: (lease: SyncLease) => Promise<T>,
+  purpose: SyncLeasePurpose = "sync"
+): Promise<{ acquired: true; result: T } | { acquired: false; holder: string | null }> {
+  const lease = await acquireSyncLease(deployment, purpose);
+  if (!lease) {
+    return { acquired: false, holder: await getSyncLeaseHolder(deployment) };
+  }
+  try {
+    return { acquired: true, result: await fn(lease) };
+  } finally {
+    await lease.release();
+  }
+}
@@ -1,7 +1,15 @@
-import { getDb } from "../database/connection.js";
+import type { Kysely } from "kysely";
+import { diffStreamsConfigs } from "../accounting/changes.js";
+import { parseStoredReceivers, toStoredReceivers } from "../accounting/history.js";
+import { parseReceivers } from "../accounting/ledger.js";
+import { getStreamLifecycle, streamEnd } from "../accounting/lifecycle.js";
+import type { StreamsHistoryEntry } from "../accounting/streams.js";
+import type { DB } from "../database/schema.js";
 import { getWalletAddress } from "../utils/account.js";
+import { decodeMetadataBytes } from "../utils/metadata.js";
 import { ensureToken } from "../utils/token.js";
 import type {
+  AccountMetadataEmittedEventData,
   CollectedEventData,
   GivenEventData,
   MovementEvent,
@@ -12,102 +20,145 @@ import type {
   StreamsSetEventData,
 } from "./types.js";
 
+/**
+ * Per-event processing context, shared by all handlers
+ */
+interface EventContext {
+  /** Handle to write through - the batch transaction during sync */
+  db: Kysely<DB>;
+  /** On-chain block timestamp (ISO) - used for every row the event touches */
+  timestamp: string;
+  sequenceNumber: string;
+  version: number | null;
+  eventIndex: number | null;
+  txHash: string | null;
+  sender?: string; // Transaction sender address
+  entryFunction?: string; // Entry function for driver detection
+}
+
+/**
+ * Cache token metadata for every FA referenced by a batch of events
+ * Runs before the batch transaction so no RPC calls happen while it is open
+ */
+export async function prefetchEventTokens(
+  events: MovementEvent[],
+  network?: string
+): Promise<void> {
+  const tokens = new Set<string>();
+  for (const event of events) {
+    if (event.data.fa_metadata) tokens.add(event.data.fa_metadata as string);
+  }
+  for (const token of tokens) {
+    await ensureToken(token, network);
+  }
+}
+
 /**
  * Process a single event and update the database
+ *
+ * Events are keyed by (deployment, transaction version, event index). An event
+ * that is already stored is skipped entirely, so re-processing any range of
+ * transactions leaves the derived tables untouched.
+ *
+ * @returns false if the event was skipped (unknown type or already indexed)
  */
 export async function processEvent(
+  db: Kysely<DB>,
   deploymentAddress: string,
   event: MovementEvent
-): Promise<void> {
+): Promise<boolean> {
   const eventType = extractEventType(event.type);
-  if (!eventType) return;
+  if (!eventType) return false;
 
-  const now = new Date().toISOString();
   const data = event.data as unknown;
-  const sequenceNumber = event.sequence_number || "0";
-  const senderAddress = event.sender; // Transaction sender address
-  const entryFunction = event.entry_function; // Entry function for driver detection
-
-  // Ensure token metadata is cached for this event
-  const eventData = data as Record<string, unknown>;
-  if (eventData.fa_metadata) {
-    await ensureToken(eventData.fa_metadata as string);
-  }
+  const ctx = createEventContext(db, event);
+
+  const accountId = String((data as Record<string, unknown>).account_id);
+  const inserted = await storeEvent(deploymentAddress, eventType, accountId, data, ctx);
+  if (!inserted) return false;
+
+  await applyEvent(deploymentAddress, eventType, data, ctx);
+  return true;
+}
+
+/**
+ * Re-run the derived-table handlers for an event that is already stored
+ * Used by reindexing - the raw `events` row is left as it is
+ *
+ * @returns false if the event type is unknown
+ */
+export async function replayEvent(
+  db: Kysely<DB>,
+  deploymentAddress: string,
+  event: MovementEvent
+): Promise<boolean> {
+  const eventType = extractEventType(event.type);
+  if (!eventType) return false;
+
+  await applyEvent(deploymentAddress, eventType, event.data, createEventContext(db, event));
+  return true;
+}
+
+function createEventContext(db: Kysely<DB>, event: MovementEvent): EventContext {
+  return {
+    db,
+    timestamp: chainTimestampToIso(event.timestamp),
+    sequenceNumber: event.sequence_number || "0",
+    version: event.version ? parseInt(event.version, 10) : null,
+    eventIndex: event.event_index ?? null,
+    txHash: event.tx_hash ?? null,
+    sender: event.sender,
+    entryFunction: event.entry_function,
+  };
+}
 
+async function applyEvent(
+  deploymentAddress: string,
+  eventType: string,
+  data: unknown,
+  ctx: EventContext
+): Promise<void> {
   switch (eventType) {
     case "StreamsSet":
-      await processStreamsSet(
-        deploymentAddress,
-        data as StreamsSetEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
-      );
+      await processStreamsSet(deploymentAddress, data as StreamsSetEventData, ctx);
       break;
     case "SplitsSet":
-      await processSplitsSet(
-        deploymentAddress,
-        data as SplitsSetEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
-      );
+      await processSplitsSet(deploymentAddress, data as SplitsSetEventData, ctx);
       break;
     case "Given":
-      await processGiven(
-        deploymentAddress,
-        data as GivenEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
-      );
+      await processGiven(deploymentAddress, data as GivenEventData, ctx);
       break;
     case "Received":
-      await processReceived(
-        deploymentAddress,
-        data as ReceivedEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
-      );
+      await processReceived(deploymentAddress, data as ReceivedEventData, ctx);
       break;
     case "Squeezed":
-      await processSqueezed(
-        deploymentAddress,
-        data as SqueezedEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
-      );
+      await processSqueezed(deploymentAddress, data as SqueezedEventData, ctx);
       break;
     case "SplitExecuted":
-      await processSplitExecuted(
-        deploymentAddress,
-        data as SplitExecutedEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
-      );
+      await processSplitExecuted(deploymentAddress, data as SplitExecutedEventData, ctx);
       break;
     case "Collected":
-      await processCollected(
+      await processCollected(deploymentAddress, data as CollectedEventData, ctx);
+      break;
+    case "AccountMetadataEmitted":
+      await processAccountMetadataEmitted(
         deploymentAddress,
-        data as CollectedEventData,
-        now,
-        sequenceNumber,
-        senderAddress,
-        entryFunction
+        data as AccountMetadataEmittedEventData,
+        ctx
       );
       break;
   }
 }
 
+/**
+ * Convert a transaction timestamp (microseconds since epoch) to ISO
+ * Falls back to wall clock for events without chain time
+ */
+function chainTimestampToIso(micros?: string): string {
+  if (!micros) return new Date().toISOString();
+  return new Date(Number(BigInt(micros) / 1000n)).toISOString();
+}
+
 function extractEventType(fullType: string): string | null {
   const match = fullType.match(/::(\w+)$/);
   return match ? match[1] : null;
@@ -129,11 +180,9 @@ function extractDriverName(entryFunction?: string): string | null {
 async function ensureAccount(
   deploymentAddress: string,
   accountId: string,
-  now: string,
-  txSenderAddress?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  const db = getDb();
+  const { db, sender: txSenderAddress, entryFunction } = ctx;
   const existing = await db
     .selectFrom("accounts")
     .select("id")
@@ -177,74 +226,98 @@ async function ensureAccount(
         wallet_address: walletAddress,
         driver_type: driverType, // Derived from driver_name
         driver_name: driverName, // Source of truth
-        created_at: now,
+        created_at: ctx.timestamp,
       })
       .execute();
   }
 }
 
+/**
+ * Insert the raw event row
+ * @returns false if an event with the same natural key already exists
+ */
 async function storeEvent(
   deploymentAddress: string,
   eventType: string,
   accountId: string,
   data: unknown,
-  now: string,
-  sequenceNumber: string
-): Promise<void> {
-  const db = getDb();
-  await db
+  ctx: EventContext
+): Promise<boolean> {
+  const result = await ctx.db
     .insertInto("events")
     .values({
       deployment_address: deploymentAddress,
       event_type: eventType,
       account_id: accountId,
       data: JSON.stringify(data),
-      sequence_number: sequenceNumber,
-      timestamp: now,
+      tx_hash: ctx.txHash,
+      transaction_version: ctx.version,
+      event_index: ctx.eventIndex,
+      sequence_number: ctx.sequenceNumber,
+      timestamp: ctx.timestamp,
+      sender: ctx.sender ?? null,
+      entry_function: ctx.entryFunction ?? null,
     })
-    .execute();
+    .onConflict((oc) =>
+      oc.columns(["deployment_address", "transaction_version", "event_index"]).doNothing()
+    )
+    .executeTakeFirst();
+  return Number(result.numInsertedOrUpdatedRows ?? 0n) > 0;
 }
 
 async function processStreamsSet(
   deploymentAddress: string,
   data: StreamsSetEventData,
-  now: string,
-  sequenceNumber: string,
-  senderAddress?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  const db = getDb();
+  const { db } = ctx;
   const accountId = data.account_id;
-  await ensureAccount(deploymentAddress, accountId, now, senderAddress, entryFunction);
+  await ensureAccount(deploymentAddress, accountId, ctx);
 
-  // Mark existing streams from this sender as inactive
-  await db
-    .updateTable("streams")
-    .set({ active: 0, updated_at: now })
+  // The sender's current streams of this token - a StreamsSet replaces them all
+  const updateTime = Math.floor(new Date(ctx.timestamp).getTime() / 1000);
+  const current = await db
+    .selectFrom("streams")
+    .selectAll()
     .where("deployment_address", "=", deploymentAddress)
     .where("sender_id", "=", accountId)
+    .where("fa_metadata", "=", data.fa_metadata)
+    .where("active", "=", 1)
     .execute();
 
   // Insert/update new streams
+  const kept = new Set<number>();
   for (let i = 0; i < data.receiver_account_ids.length; i++) {
     const receiverId = data.receiver_account_ids[i];
     const streamId = data.receiver_stream_ids[i];
     const amtPerSec = data.receiver_amt_per_secs[i];
     const start = parseInt(data.receiver_starts[i], 10);
     const duration = parseInt(data.receiver_durations[i], 10);
+    const lifecycle = {
+      ends_at: streamEnd({ start, duration }, updateTime, data.max_end),
+      max_end: data.max_end,
+      balance: data.balance,
+      stopped_at: null,
+    };
 
-    await ensureAccount(deploymentAddress, receiverId, now, senderAddress, entryFunction);
+    await ensureAccount(deploymentAddress, receiverId, ctx);
 
     const existing = await db
       .selectFrom("streams")
-      .select("id")
+      .selectAll()
       .where("deployment_address", "=", deploymentAddress)
       .where("sender_id", "=", accountId)
+      .where("fa_metadata", "=", data.fa_metadata)
       .where("receiver_id", "=", receiverId)
       .where("stream_id", "=", streamId)
       .executeTakeFirst();
 
     if (existing) {
+      kept.add(existing.id);
+      // A stream that was streaming keeps its start; anything else (re)starts now
+      const wasStreaming =
+        current.some((c) => c.id === existing.id) &&
+        getStreamLifecycle(existing, updateTime * 1000).status === "streaming";
       await db
         .updateTable("streams")
         .set({
@@ -252,7 +325,9 @@ async function processStreamsSet(
           start_time: start,
           duration,
           active: 1,
-          updated_at: now,
+          starts_at: wasStreaming ? existing.starts_at : Math.max(start, updateTime),
+          ...lifecycle,
+          updated_at: ctx.timestamp,
         })
         .where("id", "=", existing.id)
         .execute();
@@ -269,27 +344,146 @@ async function processStreamsSet(
           start_time: start,
           duration,
           active: 1,
-          created_at: now,
-          updated_at: now,
+          starts_at: Math.max(start, updateTime),
+          ...lifecycle,
+          created_at: ctx.timestamp,
+          updated_at: ctx.timestamp,
         })
         .execute();
     }
   }
 
-  await storeEvent(deploymentAddress, "StreamsSet", accountId, data, now, sequenceNumber);
+  // Streams left out of the new configuration are stopped
+  const dropped = current.filter((c) => !kept.has(c.id)).map((c) => c.id);
+  if (dropped.length > 0) {
+    await db
+      .updateTable("streams")
+      .set({ active: 0, stopped_at: ctx.timestamp, updated_at: ctx.timestamp })
+      .where("id", "in", dropped)
+      .execute();
+  }
+
+  // Record what changed against the previous configuration of this token, in
+  // chain order - streams_states may already hold a later one during a replay
+  const version = ctx.version;
+  let previousQuery = db
+    .selectFrom("streams_history")
+    .selectAll()
+    .where("deployment_address", "=", deploymentAddress)
+    .where("account_id", "=", accountId)
+    .where("fa_metadata", "=", data.fa_metadata)
+    .orderBy("transaction_version", "desc")
+    .orderBy("event_index", "desc")
+    .orderBy("id", "desc")
+    .limit(1);
+  if (version !== null) {
+    previousQuery = previousQuery.where((eb) =>
+      eb.or([
+        eb("transaction_version", "<", version),
+        eb.and([
+          eb("transaction_version", "=", version),
+          eb("event_index", "<", ctx.eventIndex ?? 0),
+        ]),
+      ])
+    );
+  }
+  const previous = await previousQuery.executeTakeFirst();
+  const changes = diffStreamsConfigs(
+    previous
+      ? {
+          receivers: parseStoredReceivers(previous.receivers),
+          updateTime: BigInt(previous.update_time),
+          maxEnd: BigInt(previous.max_end),
+          balance: BigInt(previous.balance),
+        }
+      : null,
+    toStreamsConfig(data, updateTime)
+  );
+  if (changes.length > 0) {
+    await db
+      .insertInto("stream_changes")
+      .values(
+        changes.map((c) => ({
+          deployment_address: deploymentAddress,
+          account_id: accountId,
+          fa_metadata: data.fa_metadata,
+          ...c,
+          transaction_version: ctx.version,
+          event_index: ctx.eventIndex,
+          tx_hash: ctx.txHash,
+          timestamp: ctx.timestamp,
+        }))
+      )
+      .execute();
+  }
+
+  // The sender's state for this token - other tokens' streams are untouched
+  const state = {
+    balance: data.balance,
+    max_end: data.max_end,
+    update_time: updateTime,
+    transaction_version: ctx.version,
+    updated_at: ctx.timestamp,
+  };
+  await db
+    .insertInto("streams_states")
+    .values({
+      deployment_address: deploymentAddress,
+      account_id: accountId,
+      fa_metadata: data.fa_metadata,
+      ...state,
+    })
+    .onConflict((oc) =>
+      oc
+        .columns(["deployment_address", "account_id", "fa_metadata"])
+        .doUpdateSet(state)
+        .where((eb) =>
+          eb.or([
+            eb("streams_states.transaction_version", "is", null),
+            eb("streams_states.transaction_version", "<=", ctx.version),
+          ])
+        )
+    )
+    .execute();
+
+  // Append to the sender's history of this token, for squeeze_streams
+  await db
+    .insertInto("streams_history")
+    .values({
+      deployment_address: deploymentAddress,
+      account_id: accountId,
+      fa_metadata: data.fa_metadata,
+      receivers: toStoredReceivers(parseReceivers(data)),
+      update_time: updateTime,
+      max_end: data.max_end,
+      balance: data.balance,
+      transaction_version: ctx.version,
+      event_index: ctx.eventIndex,
+      timestamp: ctx.timestamp,
+    })
+    .onConflict((oc) =>
+      oc.columns(["deployment_address", "transaction_version", "event_index"]).doNothing()
+    )
+    .execute();
+}
+
+function toStreamsConfig(data: StreamsSetEventData, updateTime: number): StreamsHistoryEntry {
+  return {
+    receivers: parseReceivers(data),
+    updateTime: BigInt(updateTime),
+    maxEnd: BigInt(data.max_end),
+    balance: BigInt(data.balance),
+  };
 }
 
 async function processSplitsSet(
   deploymentAddress: string,
   data: SplitsSetEventData,
-  now: string,
-  sequenceNumber: string,
-  senderAddress?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  const db = getDb();
+  const { db } = ctx;
   const accountId = data.account_id;
-  await ensureAccount(deploymentAddress, accountId, now, senderAddress, entryFunction);
+  await ensureAccount(deploymentAddress, accountId, ctx);
 
   // Delete existing splits
   await db
@@ -302,7 +496,7 @@ async function processSplitsSet(
   for (let i = 0; i < data.receiver_account_ids.length; i++) {
     const receiverId = data.receiver_account_ids[i];
     const weight = parseInt(data.receiver_weights[i], 10);
-    await ensureAccount(deploymentAddress, receiverId, now, senderAddress, entryFunction);
+    await ensureAccount(deploymentAddress, receiverId, ctx);
     await db
       .insertInto("splits")
       .values({
@@ -310,73 +504,111 @@ async function processSplitsSet(
         account_id: accountId,
         receiver_id: receiverId,
         weight,
-        created_at: now,
-        updated_at: now,
+        created_at: ctx.timestamp,
+        updated_at: ctx.timestamp,
       })
       .execute();
   }
-
-  await storeEvent(deploymentAddress, "SplitsSet", accountId, data, now, sequenceNumber);
 }
 
 async function processGiven(
   d: string,
   data: GivenEventData,
-  now: string,
-  seq: string,
-  sender?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  await ensureAccount(d, data.account_id, now, sender, entryFunction);
-  await ensureAccount(d, data.receiver_id, now, sender, entryFunction);
-  await storeEvent(d, "Given", data.account_id, data, now, seq);
+  await ensureAccount(d, data.account_id, ctx);
+  await ensureAccount(d, data.receiver_id, ctx);
 }
 
 async function processReceived(
   d: string,
   data: ReceivedEventData,
-  now: string,
-  seq: string,
-  sender?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  await ensureAccount(d, data.account_id, now, sender, entryFunction);
-  await storeEvent(d, "Received", data.account_id, data, now, seq);
+  await ensureAccount(d, data.account_id, ctx);
 }
 
 async function processSqueezed(
   d: string,
   data: SqueezedEventData,
-  now: string,
-  seq: string,
-  sender?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  await ensureAccount(d, data.account_id, now, sender, entryFunction);
-  await ensureAccount(d, data.sender_id, now, sender, entryFunction);
-  await storeEvent(d, "Squeezed", data.account_id, data, now, seq);
+  await ensureAccount(d, data.account_id, ctx);
+  await ensureAccount(d, data.sender_id, ctx);
 }
 
 async function processSplitExecuted(
   d: string,
   data: SplitExecutedEventData,
-  now: string,
-  seq: string,
-  sender?: string,
-  entryFunction?: string
+  ctx: EventContext
 ): Promise<void> {
-  await ensureAccount(d, data.account_id, now, sender, entryFunction);
-  await storeEvent(d, "SplitExecuted", data.account_id, data, now, seq);
+  await ensureAccount(d, data.account_id, ctx);
 }
 
 async function processCollected(
   d: string,
   data: CollectedEventData,
-  now: string,
-  seq: string,
-  sender?: string,
-  entryFunction?: string
+  ctx: EventContext
+): Promise<void> {
+  await ensureAccount(d, data.account_id, ctx);
+}
+
+async function processAccountMetadataEmitted(
+  d: string,
+  data: AccountMetadataEmittedEventData,
+  ctx: EventContext
 ): Promise<void> {
-  await ensureAccount(d, data.account_id, now, sender, entryFunction);
-  await storeEvent(d, "Collected", data.account_id, data, now, seq);
+  const { db } = ctx;
+  await ensureAccount(d, data.account_id, ctx);
+
+  const key = decodeMetadataBytes(data.key);
+  const value = decodeMetadataBytes(data.value);
+  const keyName = key.text ?? key.hex;
+
+  await db
+    .insertInto("account_metadata_history")
+    .values({
+      deployment_address: d,
+      account_id: data.account_id,
+      key: keyName,
+      value: value.text,
+      value_hex: value.hex,
+      transaction_version: ctx.version,
+      event_index: ctx.eventIndex,
+      tx_hash: ctx.txHash,
+      timestamp: ctx.timestamp,
+    })
+    .execute();
+
+  // Latest value per key - never let an older event overwrite a newer one
+  await db
+    .insertInto("account_metadata")
+    .values({
+      deployment_address: d,
+      account_id: data.account_id,
+      key: keyName,
+      value: value.text,
+      value_hex: value.hex,
+      transaction_version: ctx.version,
+      tx_hash: ctx.txHash,
+      updated_at: ctx.timestamp,
+    })
+    .onConflict((oc) =>
+      oc
+        .columns(["deployment_address", "account_id", "key"])
+        .doUpdateSet({
+          value: value.text,
+          value_hex: value.hex,
+          transaction_version: ctx.version,
+          tx_hash: ctx.txHash,
+          updated_at: ctx.timestamp,
+        })
+        .where((eb) =>
+          eb.or([
+            eb("account_metadata.transaction_version", "is", null),
+            eb("account_metadata.transaction_version", "<=", ctx.version),
+          ])
+        )
+    )
+    .execute();
 }
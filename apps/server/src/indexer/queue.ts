@@ -0,0 +1,342 @@
+// Sync job queue - deduplicated per deployment, run under the deployment's
+// lease with bounded concurrency. Jobs live in `sync_jobs`, so any instance
+// can pick up queued work and report on it.
+
+import type { Selectable } from "kysely";
+import { getDb } from "../database/connection.js";
+import type { SyncJobsTable } from "../database/schema.js";
+import { notifyFeed } from "./feed.js";
+import { acquireSyncLease, getLeaseMs, type SyncLease } from "./lock.js";
+import { addDeployment, syncDeployment } from "./sync.js";
+
+const DEFAULT_CONCURRENCY = 2;
+// Finished jobs are kept this long for status lookups
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type SyncJobStatus = SyncJobsTable["status"];
+
+export interface SyncJob {
+  id: number;
+  deployment: string;
+  accountId: string | null; // Who the sync was asked for - every job syncs the whole deployment
+  force: boolean;
+  status: SyncJobStatus;
+  source: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  batches: number;
+  eventsProcessed: number;
+  cursor: string | null;
+  error: string | null;
+}
+
+export interface EnqueueSyncOptions {
+  deployment: string;
+  network?: string; // Network to register the deployment on if it is new
+  accountId?: string;
+  force?: boolean;
+  source?: string;
+}
+
+// Deployments with a job running in this process
+const active = new Set<string>();
+let pumping = false;
+let pumpAgain = false;
+let stopping = false;
+
+/** Jobs run at once per process, across deployments (SYNC_CONCURRENCY) */
+export function getSyncConcurrency(): number {
+  const configured = parseInt(process.env.SYNC_CONCURRENCY || "", 10);
+  return configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
+
+function toJob(row: Selectable<SyncJobsTable>): SyncJob {
+  return {
+    id: row.id,
+    deployment: row.deployment_address,
+    accountId: row.account_id,
+    force: row.force === 1,
+    status: row.status,
+    source: row.source,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    batches: row.batches,
+    eventsProcessed: row.events_processed,
+    cursor: row.cursor,
+    error: row.error,
+  };
+}
+
+/**
+ * Fail running jobs whose holder stopped heartbeating (crashed, or a frozen
+ * serverless instance) and drop old finished jobs
+ */
+async function expireJobs(): Promise<void> {
+  const db = getDb();
+  const now = Date.now();
+  await db
+    .updateTable("sync_jobs")
+    .set({
+      status: "failed",
+      error: "Abandoned - the instance running it stopped responding",
+      finished_at: new Date(now).toISOString(),
+    })
+    .where("status", "=", "running")
+    .where("heartbeat_at", "<", new Date(now - getLeaseMs()).toISOString())
+    .execute();
+  await db
+    .deleteFrom("sync_jobs")
+    .where("status", "in", ["done", "failed"])
+    .where("finished_at", "<", new Date(now - JOB_RETENTION_MS).toISOString())
+    .execute();
+}
+
+/**
+ * Queue a sync of one deployment and start processing
+ *
+ * If the deployment already has a queued or running job, that job is
+ * returned instead of adding another - it syncs every account's events up to
+ * the chain tip, so it covers this request too. A queued job picks up `force`.
+ */
+export async function enqueueSync(options: EnqueueSyncOptions): Promise<SyncJob> {
+  const db = getDb();
+  await addDeployment(options.deployment, { network: options.network });
+  await expireJobs();
+
+  const existing = await db
+    .selectFrom("sync_jobs")
+    .selectAll()
+    .where("deployment_address", "=", options.deployment)
+    .where("status", "in", ["queued", "running"])
+    .orderBy("id")
+    .executeTakeFirst();
+
+  let job: SyncJob;
+  if (existing) {
+    const update: { force?: number } = {};
+    if (existing.status === "queued" && options.force && !existing.force) {
+      update.force = 1;
+    }
+    if (Object.keys(update).length > 0) {
+      await db
+        .updateTable("sync_jobs")
+        .set(update)
+        .where("id", "=", existing.id)
+        .where("status", "=", "queued")
+        .execute();
+    }
+    job = toJob({ ...existing, ...update });
+  } else {
+    const row = await db
+      .insertInto("sync_jobs")
+      .values({
+        deployment_address: options.deployment,
+        account_id: options.accountId ?? null,
+        force: options.force ? 1 : 0,
+        status: "queued",
+        source: options.source ?? null,
+        created_at: new Date().toISOString(),
+        started_at: null,
+        heartbeat_at: null,
+        finished_at: null,
+        cursor: null,
+        error: null,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+    job = toJob(row);
+  }
+
+  drainQueue();
+  return job;
+}
+
+export async function getSyncJob(id: number): Promise<SyncJob | null> {
+  const row = await getDb()
+    .selectFrom("sync_jobs")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+  return row ? toJob(row) : null;
+}
+
+/** Most recent jobs first */
+export async function listSyncJobs(
+  filter: { deployment?: string; status?: SyncJobStatus; limit?: number } = {}
+): Promise<SyncJob[]> {
+  let query = getDb().selectFrom("sync_jobs").selectAll();
+  if (filter.deployment) query = query.where("deployment_address", "=", filter.deployment);
+  if (filter.status) query = query.where("status", "=", filter.status);
+  const rows = await query
+    .orderBy("id", "desc")
+    .limit(filter.limit ?? 50)
+    .execute();
+  return rows.map(toJob);
+}
+
+/** Queued and running job counts across all instances */
+export async function getQueueCounts(): Promise<{ queued: number; running: number }> {
+  const rows = await getDb()
+    .selectFrom("sync_jobs")
+    .select(["status", (eb) => eb.fn.countAll<number>().as("count")])
+    .where("status", "in", ["queued", "running"])
+    .groupBy("status")
+    .execute();
+  const count = (status: SyncJobStatus) =>
+    Number(rows.find((r) => r.status === status)?.count ?? 0);
+  return { queued: count("queued"), running: count("running") };
+}
+
+/**
+ * Take the oldest queued job whose deployment lease is free
+ * Marking it running only succeeds for one claimant, so instances draining
+ * the same queue never start a job twice
+ */
+async function claimNextJob(): Promise<{ job: SyncJob; lease: SyncLease } | null> {
+  const db = getDb();
+  const queued = await db
+    .selectFrom("sync_jobs")
+    .selectAll()
+    .where("status", "=", "queued")
+    .orderBy("id")
+    .limit(50)
+    .execute();
+
+  for (const row of queued) {
+    if (active.has(row.deployment_address)) continue;
+    const lease = await acquireSyncLease(row.deployment_address);
+    if (!lease) continue;
+
+    const now = new Date().toISOString();
+    const claimed = await db
+      .updateTable("sync_jobs")
+      .set({ status: "running", started_at: now, heartbeat_at: now })
+      .where("id", "=", row.id)
+      .where("status", "=", "queued")
+      .executeTakeFirst();
+    if (Number(claimed.numUpdatedRows) === 0) {
+      await lease.release();
+      continue;
+    }
+    return { job: toJob({ ...row, status: "running", started_at: now }), lease };
+  }
+  return null;
+}
+
+/** Sync batch by batch until caught up, heartbeating the job and lease */
+async function runJob(job: SyncJob, lease: SyncLease): Promise<void> {
+  const db = getDb();
+  // Jobs handed back on shutdown carry their progress over
+  let batches = job.batches;
+  let eventsProcessed = job.eventsProcessed;
+  let cursor = job.cursor;
+
+  const finish = async (status: SyncJobStatus, error: string | null = null) => {
+    await db
+      .updateTable("sync_jobs")
+      .set({
+        status,
+        error,
+        batches,
+        events_processed: eventsProcessed,
+        cursor,
+        finished_at: new Date().toISOString(),
+      })
+      .where("id", "=", job.id)
+      .execute();
+    notifyFeed(job.deployment);
+  };
+
+  try {
+    for (;;) {
+      const result = await syncDeployment({
+        deployment: job.deployment,
+        force: job.force,
+      });
+      batches++;
+      eventsProcessed += result.eventsProcessed;
+      cursor = result.cursor ?? cursor;
+      if (result.skipped || !result.hasMore) break;
+
+      // Shutting down - hand the rest back to the queue for another instance
+      if (stopping) {
+        await db
+          .updateTable("sync_jobs")
+          .set({ status: "queued", started_at: null, heartbeat_at: null, cursor })
+          .where("id", "=", job.id)
+          .execute();
+        return;
+      }
+
+      if (!(await lease.renew())) {
+        throw new Error("Sync lease lost to another instance");
+      }
+      await db
+        .updateTable("sync_jobs")
+        .set({
+          batches,
+          events_processed: eventsProcessed,
+          cursor,
+          heartbeat_at: new Date().toISOString(),
+        })
+        .where("id", "=", job.id)
+        .execute();
+      notifyFeed(job.deployment);
+    }
+    await finish("done");
+  } catch (err) {
+    console.error(`[SyncQueue] Job ${job.id} (${job.deployment}) failed:`, err);
+    await finish("failed", err instanceof Error ? err.message : String(err));
+  } finally {
+    await lease.release();
+  }
+}
+
+/**
+ * Start queued jobs until SYNC_CONCURRENCY are running in this process
+ * Fire-and-forget; called on enqueue and whenever a job finishes
+ */
+export function drainQueue(): void {
+  if (stopping) return;
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+  pumping = true;
+
+  void (async () => {
+    try {
+      do {
+        pumpAgain = false;
+        while (active.size < getSyncConcurrency()) {
+          const claimed = await claimNextJob();
+          if (!claimed) break;
+
+          const { job, lease } = claimed;
+          active.add(job.deployment);
+          void runJob(job, lease).finally(() => {
+            active.delete(job.deployment);
+            drainQueue();
+          });
+        }
+      } while (pumpAgain);
+    } catch (err) {
+      console.error("[SyncQueue] Failed to start queued jobs:", err);
+    } finally {
+      pumping = false;
+    }
+  })();
+}
+
+/**
+ * Stop taking jobs and let running ones finish their current batch
+ * Unfinished jobs go back to the queue. Resolves once none are running here.
+ */
+export async function stopQueue(): Promise<void> {
+  stopping = true;
+  while (active.size > 0 || pumping) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
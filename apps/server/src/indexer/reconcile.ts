@@ -0,0 +1,494 @@
+// Reconciliation - has the index drifted from the chain?
+//
+// Every account's indexed splits and streams configurations are hashed and
+// compared with `splits_hash` / `streams_state` (accounting/verify.ts), and per
+// token the balances the stored events add up to are compared with
+// `drips::balances` and with what the vault actually holds. Mismatches are kept
+// in `discrepancies` until a later run sees both sides agree again.
+//
+// The views answer at the chain tip, so a run racing a new transaction can
+// record a discrepancy the next run resolves - only caught-up deployments are
+// reconciled in the background.
+
+import { sql, type Selectable } from "kysely";
+import { verifyAccountConfig, type HashCheck } from "../accounting/verify.js";
+import { tallyVolume, VOLUME_EVENT_TYPES, type Volume } from "../analytics/stats.js";
+import { getDb } from "../database/connection.js";
+import type { DiscrepanciesTable, DiscrepancyKind } from "../database/schema.js";
+import { getDripsBalances, getVaultBalance } from "../utils/drips.js";
+import { withSyncLease } from "./lock.js";
+import { reindexDeployment, type ReindexProgress } from "./reindex.js";
+import { backfillDeployment, type BackfillResult } from "./sync.js";
+
+const DEFAULT_RECONCILE_MS = 60 * 60 * 1000; // 1 hour
+
+export interface Discrepancy {
+  id: number;
+  deployment: string;
+  kind: DiscrepancyKind;
+  accountId: string | null;
+  faMetadata: string | null;
+  indexed: string;
+  onChain: string;
+  detectedAt: string;
+  checkedAt: string;
+  resolvedAt: string | null;
+}
+
+/**
+ * What one run checks - `accountId` limits it to that account's
+ * configurations, `faMetadata` to that token's balances. Both together run
+ * both; neither checks the whole deployment.
+ */
+export interface ReconcileScope {
+  accountId?: string;
+  faMetadata?: string;
+}
+
+export interface ReconcileResult {
+  deployment: string;
+  accountsChecked: number;
+  tokensChecked: number;
+  /** Checks whose on-chain side couldn't be read - left as they were */
+  skipped: number;
+  opened: number;
+  resolved: number;
+  /** The deployment's discrepancies still open after the run */
+  open: Discrepancy[];
+  durationMs: number;
+}
+
+/** One comparison of an indexed value with the chain's */
+interface Observation {
+  kind: DiscrepancyKind;
+  accountId: string | null;
+  faMetadata: string | null;
+  indexed: string;
+  onChain: string | null;
+  matches: boolean | null;
+}
+
+let reconciling = false;
+
+function getReconcileMs(): number {
+  const configured = parseInt(process.env.RECONCILE_INTERVAL_MS || "", 10);
+  return configured > 0 ? configured : DEFAULT_RECONCILE_MS;
+}
+
+function toDiscrepancy(row: Selectable<DiscrepanciesTable>): Discrepancy {
+  return {
+    id: row.id,
+    deployment: row.deployment_address,
+    kind: row.kind,
+    accountId: row.account_id,
+    faMetadata: row.fa_metadata,
+    indexed: row.indexed,
+    onChain: row.on_chain,
+    detectedAt: row.detected_at,
+    checkedAt: row.checked_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+function observe(
+  kind: DiscrepancyKind,
+  accountId: string | null,
+  faMetadata: string | null,
+  check: HashCheck
+): Observation {
+  return { kind, accountId, faMetadata, ...check };
+}
+
+/** Every account with a streams or splits configuration to check */
+async function configuredAccounts(deployment: string): Promise<string[]> {
+  const db = getDb();
+  const [senders, splitters, splitsSet] = await Promise.all([
+    db
+      .selectFrom("streams_history")
+      .select("account_id")
+      .distinct()
+      .where("deployment_address", "=", deployment)
+      .execute(),
+    db
+      .selectFrom("splits")
+      .select("account_id")
+      .distinct()
+      .where("deployment_address", "=", deployment)
+      .execute(),
+    // Accounts that cleared their splits have no rows left, but still a hash
+    db
+      .selectFrom("events")
+      .select("account_id")
+      .distinct()
+      .where("deployment_address", "=", deployment)
+      .where("event_type", "=", "SplitsSet")
+      .execute(),
+  ]);
+  return [
+    ...new Set([...senders, ...splitters, ...splitsSet].map((r) => r.account_id)),
+  ].sort();
+}
+
+async function checkAccounts(
+  deployment: string,
+  accountIds: string[]
+): Promise<Observation[]> {
+  const observations: Observation[] = [];
+  for (const accountId of accountIds) {
+    const check = await verifyAccountConfig(deployment, accountId);
+    observations.push(observe("splits_hash", accountId, null, check.splits));
+    for (const s of check.streams) {
+      observations.push(
+        observe("streams_hash", accountId, s.faMetadata, s.streamsHash),
+        observe("history_hash", accountId, s.faMetadata, s.historyHash)
+      );
+    }
+  }
+  return observations;
+}
+
+/**
+ * The (streams, splits) balances of each token the stored events add up to
+ *
+ * Streams balances grow with top-ups, shrink with withdrawals and pass to
+ * splits when received or squeezed; splits balances also grow with gives and
+ * shrink with collects - the same moves `drips::balances` tracks.
+ */
+async function indexedBalances(
+  deployment: string,
+  faMetadata?: string
+): Promise<Map<string, { streams: bigint; splits: bigint }>> {
+  const db = getDb();
+  let changes = db
+    .selectFrom("stream_changes")
+    .select(["fa_metadata", "change_type", "amount"])
+    .where("deployment_address", "=", deployment)
+    .where("change_type", "in", ["top_up", "withdrawal"]);
+  let events = db
+    .selectFrom("events")
+    .select(["event_type", "data"])
+    .where("deployment_address", "=", deployment)
+    .where("event_type", "in", [...VOLUME_EVENT_TYPES]);
+  if (faMetadata) {
+    changes = changes.where("fa_metadata", "=", faMetadata);
+    events = events.where(sql`json_extract(data, '$.fa_metadata')`, "=", faMetadata);
+  }
+  const [changeRows, eventRows] = await Promise.all([changes.execute(), events.execute()]);
+
+  const deposits = new Map<string, bigint>();
+  for (const c of changeRows) {
+    const amount = BigInt(c.amount ?? "0");
+    deposits.set(
+      c.fa_metadata,
+      (deposits.get(c.fa_metadata) ?? 0n) + (c.change_type === "top_up" ? amount : -amount)
+    );
+  }
+  const volumes = new Map<string, Volume>();
+  for (const e of eventRows) tallyVolume(volumes, e.event_type, e.data);
+
+  const balances = new Map<string, { streams: bigint; splits: bigint }>();
+  for (const fa of new Set([...deposits.keys(), ...volumes.keys()])) {
+    const v = volumes.get(fa);
+    const received = (v?.Received ?? 0n) + (v?.Squeezed ?? 0n);
+    balances.set(fa, {
+      streams: (deposits.get(fa) ?? 0n) - received,
+      splits: (v?.Given ?? 0n) + received - (v?.Collected ?? 0n),
+    });
+  }
+  return balances;
+}
+
+async function checkTokens(
+  deployment: string,
+  balances: Map<string, { streams: bigint; splits: bigint }>
+): Promise<Observation[]> {
+  const observations: Observation[] = [];
+  for (const [fa, indexed] of [...balances].sort(([a], [b]) => a.localeCompare(b))) {
+    const [onChain, vault] = await Promise.all([
+      getDripsBalances(deployment, fa),
+      getVaultBalance(deployment, fa),
+    ]);
+    const total = indexed.streams + indexed.splits;
+    observations.push(
+      {
+        kind: "streams_balance",
+        accountId: null,
+        faMetadata: fa,
+        indexed: indexed.streams.toString(),
+        onChain: onChain?.streams ?? null,
+        matches: onChain ? BigInt(onChain.streams) === indexed.streams : null,
+      },
+      {
+        kind: "splits_balance",
+        accountId: null,
+        faMetadata: fa,
+        indexed: indexed.splits.toString(),
+        onChain: onChain?.splits ?? null,
+        matches: onChain ? BigInt(onChain.splits) === indexed.splits : null,
+      },
+      // Anyone can send tokens to the vault - only a shortfall is a problem
+      {
+        kind: "vault_balance",
+        accountId: null,
+        faMetadata: fa,
+        indexed: total.toString(),
+        onChain: vault,
+        matches: vault !== null ? BigInt(vault) >= total : null,
+      }
+    );
+  }
+  return observations;
+}
+
+const keyOf = (kind: string, accountId: string | null, faMetadata: string | null) =>
+  `${kind}:${accountId ?? ""}:${faMetadata ?? ""}`;
+
+/** Open, refresh or resolve the discrepancy behind each observation */
+async function record(
+  deployment: string,
+  observations: Observation[]
+): Promise<Pick<ReconcileResult, "skipped" | "opened" | "resolved">> {
+  const counts = { skipped: 0, opened: 0, resolved: 0 };
+  const now = new Date().toISOString();
+
+  await getDb()
+    .transaction()
+    .execute(async (trx) => {
+      const open = await trx
+        .selectFrom("discrepancies")
+        .selectAll()
+        .where("deployment_address", "=", deployment)
+        .where("resolved_at", "is", null)
+        .execute();
+      const byKey = new Map(
+        open.map((d) => [keyOf(d.kind, d.account_id, d.fa_metadata), d])
+      );
+
+      for (const o of observations) {
+        if (o.matches === null || o.onChain === null) {
+          counts.skipped++;
+          continue;
+        }
+        const existing = byKey.get(keyOf(o.kind, o.accountId, o.faMetadata));
+        if (existing) {
+          await trx
+            .updateTable("discrepancies")
+            .set({
+              indexed: o.indexed,
+              on_chain: o.onChain,
+              checked_at: now,
+              resolved_at: o.matches ? now : null,
+            })
+            .where("id", "=", existing.id)
+            .execute();
+          if (o.matches) counts.resolved++;
+        } else if (!o.matches) {
+          await trx
+            .insertInto("discrepancies")
+            .values({
+              deployment_address: deployment,
+              kind: o.kind,
+              account_id: o.accountId,
+              fa_metadata: o.faMetadata,
+              indexed: o.indexed,
+              on_chain: o.onChain,
+              detected_at: now,
+              checked_at: now,
+              resolved_at: null,
+            })
+            .execute();
+          counts.opened++;
+        }
+      }
+    });
+  return counts;
+}
+
+/** Compare a deployment's indexed state with the chain and record the differences */
+export async function reconcileDeployment(
+  deployment: string,
+  scope: ReconcileScope = {}
+): Promise<ReconcileResult> {
+  const startedAt = Date.now();
+  const { accountId, faMetadata } = scope;
+
+  const accountIds = accountId
+    ? [accountId]
+    : faMetadata
+      ? []
+      : await configuredAccounts(deployment);
+  const balances =
+    accountId && !faMetadata
+      ? new Map<string, { streams: bigint; splits: bigint }>()
+      : await indexedBalances(deployment, faMetadata);
+
+  const observations = [
+    ...(await checkAccounts(deployment, accountIds)),
+    ...(await checkTokens(deployment, balances)),
+  ];
+  const counts = await record(deployment, observations);
+
+  return {
+    deployment,
+    accountsChecked: accountIds.length,
+    tokensChecked: balances.size,
+    ...counts,
+    open: await listDiscrepancies({ deployment }),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+export async function listDiscrepancies(
+  options: {
+    deployment?: string;
+    status?: "open" | "resolved" | "all";
+    kind?: DiscrepancyKind;
+    limit?: number;
+  } = {}
+): Promise<Discrepancy[]> {
+  let query = getDb().selectFrom("discrepancies").selectAll();
+  if (options.deployment) {
+    query = query.where("deployment_address", "=", options.deployment);
+  }
+  const status = options.status ?? "open";
+  if (status === "open") query = query.where("resolved_at", "is", null);
+  if (status === "resolved") query = query.where("resolved_at", "is not", null);
+  if (options.kind) query = query.where("kind", "=", options.kind);
+
+  const rows = await query
+    .orderBy("id", "desc")
+    .limit(options.limit ?? 100)
+    .execute();
+  return rows.map(toDiscrepancy);
+}
+
+export async function getDiscrepancy(id: number): Promise<Discrepancy | null> {
+  const row = await getDb()
+    .selectFrom("discrepancies")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+  return row ? toDiscrepancy(row) : null;
+}
+
+/**
+ * First stored event a discrepancy can come from - the account's for
+ * configurations, the token's for balances, else the deployment's
+ */
+async function firstVersion(discrepancy: Discrepancy): Promise<number> {
+  const { deployment, accountId, faMetadata } = discrepancy;
+  const first = async (scoped: boolean) => {
+    let query = getDb()
+      .selectFrom("events")
+      .select((eb) => eb.fn.min("transaction_version").as("version"))
+      .where("deployment_address", "=", deployment);
+    if (scoped && accountId) {
+      query = query.where("account_id", "=", accountId);
+    } else if (scoped && faMetadata) {
+      query = query.where(sql`json_extract(data, '$.fa_metadata')`, "=", faMetadata);
+    }
+    return (await query.executeTakeFirst())?.version ?? null;
+  };
+  return (await first(true)) ?? (await first(false)) ?? 0;
+}
+
+export interface ResyncResult {
+  /** The discrepancy as re-checked once the re-sync finished */
+  discrepancy: Discrepancy;
+  fromVersion: number;
+  /** Null when the sync cursor hasn't reached fromVersion */
+  backfill: BackfillResult | null;
+  reindex: ReindexProgress;
+}
+
+/**
+ * Re-sync what a discrepancy involves and check it again
+ *
+ * The chain is rescanned from the first event involved up to the sync cursor
+ * (picking up events the index missed), the derived tables are replayed from
+ * there so late events land in chain order, and the discrepancy's account /
+ * token is reconciled again. Both run under the deployment's sync lease.
+ * Returns null for an unknown id.
+ */
+export async function resyncDiscrepancy(id: number): Promise<ResyncResult | null> {
+  const discrepancy = await getDiscrepancy(id);
+  if (!discrepancy) return null;
+  const { deployment } = discrepancy;
+
+  const fromVersion = await firstVersion(discrepancy);
+  // Held across the rescan and the replay, so no sync moves the cursor or
+  // applies events in between
+  const run = await withSyncLease(deployment, async (lease) => {
+    const cursor = await getDb()
+      .selectFrom("sync_cursors")
+      .select("last_sequence")
+      .where("deployment_address", "=", deployment)
+      .where("event_type", "=", "transactions")
+      .executeTakeFirst();
+
+    const backfill =
+      cursor && BigInt(cursor.last_sequence) >= BigInt(fromVersion)
+        ? await backfillDeployment({
+            deployment,
+            fromVersion: fromVersion.toString(),
+            toVersion: cursor.last_sequence,
+            lease,
+          })
+        : null;
+    const reindex = await reindexDeployment({ deployment, fromVersion, lease });
+    return { backfill, reindex };
+  });
+  if (!run.acquired) {
+    throw new Error(`${deployment} is being synced by ${run.holder ?? "another process"}`);
+  }
+
+  await reconcileDeployment(deployment, {
+    accountId: discrepancy.accountId ?? undefined,
+    faMetadata: discrepancy.faMetadata ?? undefined,
+  });
+  return {
+    discrepancy: (await getDiscrepancy(id)) ?? discrepancy,
+    fromVersion,
+    ...run.result,
+  };
+}
+
+/** Reconcile every caught-up deployment - one failure doesn't stop the rest */
+export async function reconcileAll(): Promise<void> {
+  if (reconciling) return;
+  reconciling = true;
+  try {
+    const deployments = await getDb()
+      .selectFrom("sync_metadata")
+      .select("deployment_address")
+      .where("has_more", "=", 0)
+      .execute();
+    for (const { deployment_address: address } of deployments) {
+      try {
+        const result = await reconcileDeployment(address);
+        if (result.opened > 0) {
+          console.warn(
+            `[Reconcile] ${address}: ${result.opened} new discrepancies (${result.open.length} open)`
+          );
+        }
+      } catch (err) {
+        console.error(`[Reconcile] Failed to reconcile ${address}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error("[Reconcile] Failed to list deployments:", err);
+  } finally {
+    reconciling = false;
+  }
+}
+
+/**
+ * Reconcile every RECONCILE_INTERVAL_MS (default 1 hour)
+ * Unlike snapshots there is no run at start - the index is usually behind
+ * then. Returns the stop function.
+ */
+export function startReconciler(intervalMs = getReconcileMs()): () => void {
+  const timer = setInterval(() => void reconcileAll(), intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
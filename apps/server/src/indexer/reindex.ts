@@ -0,0 +1,242 @@
+import { sql } from "kysely";
+import { getDb } from "../database/connection.js";
+import { getDeploymentNetwork } from "../utils/network.js";
+import { getLeaseMs, getSyncLease, withSyncLease, type SyncLease } from "./lock.js";
+import { replayEvent } from "./processor.js";
+
+export interface ReindexOptions {
+  deployment: string;
+  /**
+   * Only replay events at or after this transaction version, on top of the
+   * current derived tables. Omit to rebuild them from scratch.
+   */
+  fromVersion?: number;
+  /** The deployment's sync lease, when the caller already holds it */
+  lease?: SyncLease;
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+export interface ReindexProgress {
+  deployment: string;
+  status: "running" | "completed" | "failed";
+  fromVersion: number | null;
+  totalEvents: number;
+  eventsReplayed: number;
+  lastVersion: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  error?: string;
+}
+
+// Derived tables, rebuilt from `events` - every row is owned by one deployment
+const DERIVED_TABLES = [
+  "streams",
+  "streams_states",
+  "stream_changes",
+  "streams_history",
+  "splits",
+  "accounts",
+  "account_metadata",
+  "account_metadata_history",
+] as const;
+
+// Latest run per deployment, for progress reports (in-process only)
+const runs = new Map<string, ReindexProgress>();
+
+/**
+ * Whether a reindex of the deployment is running in any process
+ * Read from the deployment's sync lease, which a reindex marks as its own.
+ */
+export async function isReindexing(deployment: string): Promise<boolean> {
+  return (await getSyncLease(deployment))?.purpose === "reindex";
+}
+
+export function getReindexStatus(deployment?: string): ReindexProgress[] {
+  const all = [...runs.values()];
+  return deployment ? all.filter((r) => r.deployment === deployment) : all;
+}
+
+/**
+ * Rebuild a deployment's derived tables by replaying its stored events
+ *
+ * Events are read back in chain order (transaction version, event index) and
+ * fed through the processor's handlers. Nothing is fetched from the chain
+ * apart from NFT owner lookups for accounts the processor re-creates.
+ *
+ * - Full reindex: the derived tables are cleared for the deployment first.
+ *   Accounts that no event re-creates (registered by search) are put back, and
+ *   driver / wallet info is kept for accounts whose events predate the stored
+ *   transaction sender and entry function.
+ * - `fromVersion`: derived rows are left in place and only events from that
+ *   version on are replayed. Handlers replace whole stream / split sets, so
+ *   this repairs everything those events touch.
+ *
+ * Everything runs in one transaction - readers see either the old or the
+ * rebuilt tables, and a failure leaves the old ones untouched. The run holds
+ * the deployment's sync lease, so no other process syncs it meanwhile, and the
+ * events are read inside the transaction, so none committed just before it are
+ * left out. The lease is renewed from inside the transaction as the replay
+ * goes; if it was lost, the replay rolls back.
+ */
+export async function reindexDeployment(options: ReindexOptions): Promise<ReindexProgress> {
+  const { deployment, fromVersion } = options;
+  // Other processes are kept out by the lease - this guards the progress entry
+  if (runs.get(deployment)?.status === "running") {
+    throw new Error(`Reindex already running for ${deployment}`);
+  }
+
+  const progress: ReindexProgress = {
+    deployment,
+    status: "running",
+    fromVersion: fromVersion ?? null,
+    totalEvents: 0,
+    eventsReplayed: 0,
+    lastVersion: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    durationMs: null,
+  };
+  runs.set(deployment, progress);
+  if (options.lease) return replay(options, options.lease, progress);
+
+  const run = await withSyncLease(
+    deployment,
+    (lease) => replay(options, lease, progress),
+    "reindex"
+  );
+  if (!run.acquired) {
+    progress.status = "failed";
+    progress.error = `Being synced by ${run.holder ?? "another process"}`;
+    progress.finishedAt = new Date().toISOString();
+    progress.durationMs = 0;
+    throw new Error(`${deployment} is being synced by ${run.holder ?? "another process"}`);
+  }
+  return run.result;
+}
+
+async function replay(
+  options: ReindexOptions,
+  lease: SyncLease,
+  progress: ReindexProgress
+): Promise<ReindexProgress> {
+  const { deployment, fromVersion, onProgress } = options;
+  const db = getDb();
+  const startTime = Date.now();
+
+  try {
+    // Warm the network cache - NFT owner lookups during replay read it while
+    // the transaction is open
+    await getDeploymentNetwork(deployment);
+
+    await db.transaction().execute(async (trx) => {
+      // Renewed through the transaction - other writers wait for it to commit
+      // anyway, and they then find the lease fresh rather than expired
+      let renewedAt = 0;
+      const keepLease = async () => {
+        if (Date.now() - renewedAt < getLeaseMs() / 4) return;
+        if (!(await lease.renew(trx))) {
+          throw new Error("Sync lease lost to another instance");
+        }
+        renewedAt = Date.now();
+      };
+      await keepLease();
+
+      let query = trx
+        .selectFrom("events")
+        .selectAll()
+        .where("deployment_address", "=", deployment)
+        .orderBy("transaction_version")
+        .orderBy("event_index")
+        .orderBy("id");
+      if (fromVersion !== undefined) {
+        query = query.where("transaction_version", ">=", fromVersion);
+      }
+      const events = await query.execute();
+      progress.totalEvents = events.length;
+      onProgress?.(progress);
+
+      const previousAccounts =
+        fromVersion === undefined
+          ? await trx
+              .selectFrom("accounts")
+              .selectAll()
+              .where("deployment_address", "=", deployment)
+              .execute()
+          : [];
+
+      if (fromVersion === undefined) {
+        for (const table of DERIVED_TABLES) {
+          await trx.deleteFrom(table).where("deployment_address", "=", deployment).execute();
+        }
+      } else {
+        // History rows are appended per event - drop the ones about to be replayed
+        for (const table of [
+          "account_metadata_history",
+          "stream_changes",
+          "streams_history",
+        ] as const) {
+          await trx
+            .deleteFrom(table)
+            .where("deployment_address", "=", deployment)
+            .where("transaction_version", ">=", fromVersion)
+            .execute();
+        }
+      }
+
+      for (const row of events) {
+        await replayEvent(trx, deployment, {
+          type: `${deployment}::drips::${row.event_type}`,
+          data: JSON.parse(row.data),
+          sequence_number: row.sequence_number,
+          version: row.transaction_version?.toString() ?? "",
+          event_index: row.event_index ?? undefined,
+          tx_hash: row.tx_hash ?? undefined,
+          timestamp: isoToChainTimestamp(row.timestamp),
+          sender: row.sender ?? undefined,
+          entry_function: row.entry_function ?? undefined,
+        });
+        progress.eventsReplayed++;
+        progress.lastVersion = row.transaction_version;
+        if (progress.eventsReplayed % 100 === 0) onProgress?.(progress);
+        await keepLease();
+      }
+
+      for (const account of previousAccounts) {
+        const { id: _id, ...values } = account;
+        await trx
+          .insertInto("accounts")
+          .values(values)
+          .onConflict((oc) =>
+            oc.columns(["deployment_address", "account_id"]).doUpdateSet({
+              wallet_address: sql`coalesce(accounts.wallet_address, excluded.wallet_address)`,
+              driver_type: sql`case when accounts.driver_name is null then excluded.driver_type else accounts.driver_type end`,
+              driver_name: sql`coalesce(accounts.driver_name, excluded.driver_name)`,
+            })
+          )
+          .execute();
+      }
+    });
+
+    progress.status = "completed";
+  } catch (err) {
+    progress.status = "failed";
+    progress.error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    progress.finishedAt = new Date().toISOString();
+    progress.durationMs = Date.now() - startTime;
+    onProgress?.(progress);
+  }
+
+  return progress;
+}
+
+/**
+ * Stored event time (ISO) back to the microsecond chain timestamp the
+ * processor expects
+ */
+function isoToChainTimestamp(iso: string): string | undefined {
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? undefined : (BigInt(ms) * 1000n).toString();
+}
@@ -0,0 +1,65 @@
+import { getDb } from "../database/connection.js";
+
+/**
+ * Minimum time between two syncs of the same deployment once it has caught up
+ * with the chain. Deployments with `has_more` set are always due.
+ */
+export const SYNC_COOLDOWN_MS = 30_000; // 30 seconds
+
+export interface SyncSchedule {
+  due: boolean;
+  lastSyncedAt: string | null;
+  nextAvailable: string;
+}
+
+/**
+ * Scheduler policy - decides whether a deployment should be synced now
+ *
+ * - Never synced → due
+ * - Backlog left from the previous batch (has_more) → due
+ * - Otherwise due once `intervalMs` has elapsed since the last sync
+ */
+export async function getSyncSchedule(
+  deployment: string,
+  intervalMs = SYNC_COOLDOWN_MS
+): Promise<SyncSchedule> {
+  const db = getDb();
+  const meta = await db
+    .selectFrom("sync_metadata")
+    .select(["last_synced_at", "has_more"])
+    .where("deployment_address", "=", deployment)
+    .executeTakeFirst();
+
+  if (!meta) {
+    return { due: true, lastSyncedAt: null, nextAvailable: new Date().toISOString() };
+  }
+
+  if (meta.has_more) {
+    return {
+      due: true,
+      lastSyncedAt: meta.last_synced_at,
+      nextAvailable: new Date().toISOString(),
+    };
+  }
+
+  const lastSync = new Date(meta.last_synced_at).getTime();
+  const nextAvailable = new Date(lastSync + intervalMs).toISOString();
+
+  if (Date.now() - lastSync < intervalMs) {
+    return { due: false, lastSyncedAt: meta.last_synced_at, nextAvailable };
+  }
+
+  return {
+    due: true,
+    lastSyncedAt: meta.last_synced_at,
+    nextAvailable: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether a background indexer is responsible for keeping deployments fresh.
+ * When it is, API routes should not kick off syncs on page visits.
+ */
+export function isBackgroundIndexerEnabled(): boolean {
+  return process.env.INDEXER_ENABLED === "true";
+}
@@ -1,9 +1,23 @@
 import { getDb } from "../database/connection.js";
-import { processEvent } from "./processor.js";
+import {
+  chainTipVersion,
+  eventsProcessed,
+  syncCursorVersion,
+  syncDuration,
+  syncFailures,
+  syncLagSeconds,
+  syncLagVersions,
+} from "../utils/metrics.js";
+import { getDefaultNetworkId, getDeploymentNetwork } from "../utils/network.js";
+import { rpcGet } from "../utils/rpc.js";
+import { dispatchWebhooks, queueWebhookDeliveries } from "../webhooks/deliveries.js";
+import { notifyFeed } from "./feed.js";
+import { prefetchEventTokens, processEvent } from "./processor.js";
+import { withSyncLease, type SyncLease } from "./lock.js";
+import { isReindexing, reindexDeployment } from "./reindex.js";
+import { getSyncSchedule, SYNC_COOLDOWN_MS } from "./scheduler.js";
 import type { MovementEvent } from "./types.js";
 
-const getRpcUrl = () =>
-  process.env.MOVEMENT_RPC_URL || "https://aptos.testnet.porto.movementlabs.xyz/v1";
 const EVENT_TYPES = [
   "StreamsSet",
   "SplitsSet",
@@ -12,17 +26,20 @@ const EVENT_TYPES = [
   "Squeezed",
   "SplitExecuted",
   "Collected",
+  "AccountMetadataEmitted",
 ];
-const SYNC_COOLDOWN_MS = 30_000; // 30 seconds
 
 interface SyncOptions {
   deployment?: string;
-  accountId?: string;
+  network?: string; // Network to register the deployment on if it is new
   force?: boolean;
   limit?: number;
 }
 
-interface SyncResult {
+// last_synced_at placeholder for deployments whose first sync failed
+const NEVER_SYNCED = new Date(0).toISOString();
+
+export interface SyncResult {
   deployment: string;
   eventsProcessed: number;
   skipped: boolean;
@@ -33,68 +50,30 @@ interface SyncResult {
   cursor?: string;
 }
 
-async function canSync(
-  deployment: string
-): Promise<{ allowed: boolean; lastSyncedAt: string | null; nextAvailable: string }> {
-  const db = getDb();
-  const meta = await db
-    .selectFrom("sync_metadata")
-    .select(["last_synced_at", "events_processed", "has_more"])
-    .where("deployment_address", "=", deployment)
-    .executeTakeFirst();
-
-  if (!meta) {
-    return { allowed: true, lastSyncedAt: null, nextAvailable: new Date().toISOString() };
-  }
-
-  // If there's more data to sync, skip cooldown
-  if (meta.has_more) {
-    return {
-      allowed: true,
-      lastSyncedAt: meta.last_synced_at,
-      nextAvailable: new Date().toISOString(),
-    };
-  }
-
-  const lastSync = new Date(meta.last_synced_at).getTime();
-  const now = Date.now();
-  const nextAvailable = new Date(lastSync + SYNC_COOLDOWN_MS).toISOString();
-
-  // Apply cooldown only when sync is complete (has_more = false)
-  if (now - lastSync < SYNC_COOLDOWN_MS) {
-    return { allowed: false, lastSyncedAt: meta.last_synced_at, nextAvailable };
-  }
-
-  return {
-    allowed: true,
-    lastSyncedAt: meta.last_synced_at,
-    nextAvailable: new Date().toISOString(),
-  };
-}
-
 /**
  * Fetch events from global transactions
  * Scans all transactions for events from this deployment
+ * Throws RpcError if the node can't be reached - an empty result means the
+ * range really had no transactions
  */
 async function fetchEventsFromTransactions(
+  network: string,
   deployment: string,
   startVersion: string,
   limit: number
-): Promise<{ events: MovementEvent[]; lastVersion: string; transactionsFetched: number }> {
+): Promise<{
+  events: MovementEvent[];
+  lastVersion: string;
+  lastTimestamp: string | null; // Microseconds, of the last transaction scanned
+  transactionsFetched: number;
+}> {
   const events: MovementEvent[] = [];
   let lastVersion = startVersion;
-  let transactionsFetched = 0;
-
-  try {
-    // Scan global transactions
-    const url = `${getRpcUrl()}/transactions?start=${startVersion}&limit=${limit}`;
-    const response = await fetch(url);
+  let lastTimestamp: string | null = null;
 
-    if (!response.ok) {
-      return { events: [], lastVersion, transactionsFetched: 0 };
-    }
-
-    const transactions = (await response.json()) as Array<{
+  // Scan global transactions
+  const transactions = await rpcGet<
+    Array<{
       version: string;
       hash: string;
       timestamp: string;
@@ -109,42 +88,69 @@ async function fetchEventsFromTransactions(
         sequence_number: string;
         guid: { creation_number: string; account_address: string };
       }>;
-    }>;
-
-    transactionsFetched = transactions.length;
-
-    for (const tx of transactions) {
-      lastVersion = tx.version;
-
-      if (!tx.events) continue;
-
-      for (const event of tx.events) {
-        if (!event.type.startsWith(deployment)) continue;
-
-        const typeParts = event.type.split("::");
-        if (typeParts.length >= 3) {
-          const eventName = typeParts[typeParts.length - 1];
-
-          if (EVENT_TYPES.includes(eventName)) {
-            events.push({
-              type: event.type,
-              data: event.data,
-              sequence_number: event.sequence_number,
-              version: tx.version,
-              tx_hash: tx.hash,
-              timestamp: tx.timestamp,
-              sender: tx.sender, // Include transaction sender
-              entry_function: tx.payload?.function, // Include entry function for driver detection
-            });
-          }
+    }>
+  >(network, `/transactions?start=${startVersion}&limit=${limit}`);
+
+  for (const tx of transactions) {
+    lastVersion = tx.version;
+    // Genesis / block metadata transactions may not carry a timestamp
+    if (tx.timestamp) lastTimestamp = tx.timestamp;
+
+    if (!tx.events) continue;
+
+    for (const [eventIndex, event] of tx.events.entries()) {
+      if (!event.type.startsWith(deployment)) continue;
+
+      const typeParts = event.type.split("::");
+      if (typeParts.length >= 3) {
+        const eventName = typeParts[typeParts.length - 1];
+
+        if (EVENT_TYPES.includes(eventName)) {
+          events.push({
+            type: event.type,
+            data: event.data,
+            sequence_number: event.sequence_number,
+            version: tx.version,
+            event_index: eventIndex,
+            tx_hash: tx.hash,
+            timestamp: tx.timestamp,
+            sender: tx.sender, // Include transaction sender
+            entry_function: tx.payload?.function, // Include entry function for driver detection
+          });
         }
       }
     }
-  } catch (err) {
-    console.error("[Sync] Failed to fetch transactions:", err);
   }
 
-  return { events, lastVersion, transactionsFetched };
+  return { events, lastVersion, lastTimestamp, transactionsFetched: transactions.length };
+}
+
+/**
+ * Follow-up for the events a batch stored, once its transaction has committed:
+ * count them by type and send the webhook deliveries queued with them
+ */
+function afterBatchCommit(
+  deployment: string,
+  applied: MovementEvent[],
+  queued: number
+): void {
+  for (const event of applied) {
+    eventsProcessed.inc({ deployment, type: event.type.split("::").pop()! });
+  }
+  if (queued > 0) dispatchWebhooks();
+}
+
+function updateLagMetrics(
+  deployment: string,
+  network: string,
+  cursor: string,
+  chainTip: number,
+  lagSeconds: number | null
+): void {
+  const labels = { deployment, network };
+  syncCursorVersion.set(labels, parseInt(cursor));
+  syncLagVersions.set(labels, Math.max(0, chainTip - parseInt(cursor)));
+  if (lagSeconds !== null) syncLagSeconds.set(labels, Math.max(0, lagSeconds));
 }
 
 export async function syncDeployment(options: SyncOptions): Promise<SyncResult> {
@@ -155,9 +161,22 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
     throw new Error("No deployment specified");
   }
 
+  // Replay holds the derived tables - new events wait for the next pass
+  if (await isReindexing(deployment)) {
+    const { lastSyncedAt, nextAvailable } = await getSyncSchedule(deployment);
+    return {
+      deployment,
+      eventsProcessed: 0,
+      skipped: true,
+      reason: "reindexing",
+      lastSyncedAt: lastSyncedAt ?? new Date(0).toISOString(),
+      nextSyncAvailableAt: nextAvailable,
+    };
+  }
+
   if (!options.force) {
-    const { allowed, lastSyncedAt, nextAvailable } = await canSync(deployment);
-    if (!allowed) {
+    const { due, lastSyncedAt, nextAvailable } = await getSyncSchedule(deployment);
+    if (!due) {
       return {
         deployment,
         eventsProcessed: 0,
@@ -170,19 +189,29 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
   }
 
   const startTime = Date.now();
-  await ensureDeployment(deployment);
+  const finishTimer = syncDuration.startTimer({ deployment });
+  await ensureDeployment(deployment, options.network);
+  // Resolved before the batch transaction opens, so it is cached by then. NFT
+  // owner queries for new accounts still go to the node while the transaction
+  // is open - they are a single short attempt (see fetchNftOwner)
+  const network = await getDeploymentNetwork(deployment);
 
   // Get current ledger version (chain tip)
-  let chainTip = 999999999;
+  let chainTip: number;
+  let chainTimestamp: string;
   try {
-    const res = await fetch(getRpcUrl());
-    if (res.ok) {
-      const info = (await res.json()) as { ledger_version: string };
-      chainTip = parseInt(info.ledger_version);
-    }
-  } catch {
-    /* use default */
+    const info = await rpcGet<{ ledger_version: string; ledger_timestamp: string }>(
+      network,
+      ""
+    );
+    chainTip = parseInt(info.ledger_version);
+    chainTimestamp = info.ledger_timestamp;
+  } catch (err) {
+    await recordSyncFailure(deployment, err);
+    finishTimer({ outcome: "error" });
+    throw err;
   }
+  chainTipVersion.set({ network }, chainTip);
 
   // Get last synced version
   const cursor = await db
@@ -205,6 +234,8 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
         events_processed: 0,
         sync_duration_ms: 0,
         has_more: 0,
+        last_error: null,
+        consecutive_failures: 0,
       })
       .onConflict((oc) =>
         oc.column("deployment_address").doUpdateSet({
@@ -212,10 +243,14 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
           events_processed: 0,
           sync_duration_ms: 0,
           has_more: 0,
+          last_error: null,
+          consecutive_failures: 0,
         })
       )
       .execute();
 
+    updateLagMetrics(deployment, network, startVersion, chainTip, 0);
+    finishTimer({ outcome: "success" });
     return {
       deployment,
       eventsProcessed: 0,
@@ -229,44 +264,52 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
 
   const limit = Math.min(options.limit || 100, 100); // API max is 100
 
-  const { events, lastVersion, transactionsFetched } = await fetchEventsFromTransactions(
-    deployment,
-    startVersion,
-    limit
-  );
+  let fetched: Awaited<ReturnType<typeof fetchEventsFromTransactions>>;
+  try {
+    fetched = await fetchEventsFromTransactions(network, deployment, startVersion, limit);
+  } catch (err) {
+    await recordSyncFailure(deployment, err);
+    finishTimer({ outcome: "error" });
+    throw err;
+  }
+  const { events, lastVersion, lastTimestamp, transactionsFetched } = fetched;
+
+  // Every event of the batch is applied - the cursor moves past all of them
+  const batch = events;
 
-  let totalProcessed = 0;
-  for (const event of events) {
-    if (options.accountId) {
-      const data = event.data as Record<string, unknown>;
-      const ids = [data.account_id, data.sender_id, data.receiver_id]
-        .filter(Boolean)
-        .map(String);
-      if (!ids.includes(options.accountId)) continue;
+  await prefetchEventTokens(batch, network);
+
+  // Derived-table updates and the cursor advance commit together, so a crash
+  // mid-batch leaves the cursor where it was and the batch is simply re-run
+  const applied: MovementEvent[] = [];
+  const queued = await db.transaction().execute(async (trx) => {
+    for (const event of batch) {
+      if (await processEvent(trx, deployment, event)) applied.push(event);
     }
-    await processEvent(deployment, event);
-    totalProcessed++;
-  }
 
-  // Update cursor with last version
-  if (lastVersion !== startVersion) {
-    await db
-      .insertInto("sync_cursors")
-      .values({
-        deployment_address: deployment,
-        event_type: "transactions",
-        last_sequence: lastVersion,
-        updated_at: new Date().toISOString(),
-      })
-      .onConflict((oc) =>
-        oc
-          .columns(["deployment_address", "event_type"])
-          .doUpdateSet({ last_sequence: lastVersion, updated_at: new Date().toISOString() })
-      )
-      .execute();
-  }
+    if (lastVersion !== startVersion) {
+      await trx
+        .insertInto("sync_cursors")
+        .values({
+          deployment_address: deployment,
+          event_type: "transactions",
+          last_sequence: lastVersion,
+          updated_at: new Date().toISOString(),
+        })
+        .onConflict((oc) =>
+          oc
+            .columns(["deployment_address", "event_type"])
+            .doUpdateSet({ last_sequence: lastVersion, updated_at: new Date().toISOString() })
+        )
+        .execute();
+    }
+    return queueWebhookDeliveries(trx, deployment, applied);
+  });
 
-  const syncDuration = Date.now() - startTime;
+  const totalProcessed = applied.length;
+  afterBatchCommit(deployment, applied, queued);
+
+  const syncDurationMs = Date.now() - startTime;
   const now = new Date().toISOString();
 
   // hasMore = we fetched a full batch AND haven't reached chain tip
@@ -278,19 +321,33 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
       deployment_address: deployment,
       last_synced_at: now,
       events_processed: totalProcessed,
-      sync_duration_ms: syncDuration,
+      sync_duration_ms: syncDurationMs,
       has_more: hasMore ? 1 : 0,
+      last_error: null,
+      consecutive_failures: 0,
     })
     .onConflict((oc) =>
       oc.column("deployment_address").doUpdateSet({
         last_synced_at: now,
         events_processed: totalProcessed,
-        sync_duration_ms: syncDuration,
+        sync_duration_ms: syncDurationMs,
         has_more: hasMore ? 1 : 0,
+        last_error: null,
+        consecutive_failures: 0,
       })
     )
     .execute();
 
+  updateLagMetrics(
+    deployment,
+    network,
+    lastVersion,
+    chainTip,
+    lastTimestamp ? (Number(chainTimestamp) - Number(lastTimestamp)) / 1e6 : null
+  );
+  finishTimer({ outcome: "success" });
+  notifyFeed(deployment);
+
   return {
     deployment,
     eventsProcessed: totalProcessed,
@@ -302,7 +359,43 @@ export async function syncDeployment(options: SyncOptions): Promise<SyncResult>
   };
 }
 
-async function ensureDeployment(address: string): Promise<void> {
+/**
+ * Record a failed sync so status endpoints report it instead of the last
+ * successful sync looking current. last_synced_at is left alone (a
+ * never-synced deployment gets the epoch, which status reports as never).
+ */
+async function recordSyncFailure(deployment: string, err: unknown): Promise<void> {
+  const db = getDb();
+  const message = err instanceof Error ? err.message : String(err);
+  const now = new Date().toISOString();
+  syncFailures.inc({ deployment });
+  await db
+    .insertInto("sync_metadata")
+    .values({
+      deployment_address: deployment,
+      last_synced_at: NEVER_SYNCED,
+      events_processed: 0,
+      sync_duration_ms: 0,
+      has_more: 0,
+      last_error: message,
+      last_error_at: now,
+      consecutive_failures: 1,
+    })
+    .onConflict((oc) =>
+      oc.column("deployment_address").doUpdateSet((eb) => ({
+        last_error: message,
+        last_error_at: now,
+        consecutive_failures: eb("sync_metadata.consecutive_failures", "+", 1),
+      }))
+    )
+    .execute();
+  notifyFeed(deployment);
+}
+
+async function ensureDeployment(
+  address: string,
+  network = getDefaultNetworkId()
+): Promise<void> {
   const db = getDb();
   const existing = await db
     .selectFrom("deployments")
@@ -314,54 +407,155 @@ async function ensureDeployment(address: string): Promise<void> {
       .insertInto("deployments")
       .values({
         address,
-        network: "movement-testnet",
+        network,
         first_seen_at: new Date().toISOString(),
       })
       .execute();
   }
 }
 
-export async function syncAll(force = false): Promise<SyncResult[]> {
+/**
+ * Register a deployment (no-op if known) and optionally point its cursor at
+ * `startVersion` - syncing then scans from there instead of version 0
+ */
+export async function addDeployment(
+  address: string,
+  options: { network?: string; startVersion?: string } = {}
+): Promise<void> {
+  await ensureDeployment(address, options.network);
+  if (options.startVersion === undefined) return;
+
   const db = getDb();
-  const deployments = await db.selectFrom("deployments").select("address").execute();
-  return Promise.all(
-    deployments.map((dep) => syncDeployment({ deployment: dep.address, force }))
-  );
+  const now = new Date().toISOString();
+  await db
+    .insertInto("sync_cursors")
+    .values({
+      deployment_address: address,
+      event_type: "transactions",
+      last_sequence: options.startVersion,
+      updated_at: now,
+    })
+    .onConflict((oc) =>
+      oc
+        .columns(["deployment_address", "event_type"])
+        .doUpdateSet({ last_sequence: options.startVersion!, updated_at: now })
+    )
+    .execute();
 }
 
-export async function runSync(
-  options: { deployment?: string; user?: string; force?: boolean; limit?: number } = {}
-): Promise<SyncResult> {
-  const db = getDb();
+export interface BackfillResult {
+  deployment: string;
+  fromVersion: string;
+  toVersion: string;
+  transactionsScanned: number;
+  eventsProcessed: number;
+  /** Version the derived tables were replayed from, null if nothing was new */
+  replayedFrom: number | null;
+}
 
-  let accountId: string | undefined;
-  if (options.user) {
-    const { calcAccountId } = await import("../utils/account.js");
-    accountId = calcAccountId(options.user).toString();
+/**
+ * Index the transactions in [fromVersion, toVersion] without touching the
+ * sync cursor. Events already stored are skipped, so overlapping ranges (or a
+ * range the cursor has passed) are safe to scan.
+ *
+ * Events found missing are applied on top of whatever later state is indexed,
+ * so once the scan is done the derived tables are replayed from the earliest
+ * of them (see reindexDeployment). The whole run holds the deployment's sync
+ * lease - pass `lease` when the caller already holds it.
+ */
+export async function backfillDeployment(options: {
+  deployment: string;
+  fromVersion: string;
+  toVersion: string;
+  lease?: SyncLease;
+  onBatch?: (progress: BackfillResult & { lastVersion: string }) => void;
+}): Promise<BackfillResult> {
+  const { deployment } = options;
+  if (await isReindexing(deployment)) {
+    throw new Error(`Reindex running for ${deployment}`);
   }
+  if (options.lease) return scanRange(options.lease, options);
 
-  let deployment = options.deployment;
-  if (!deployment) {
-    // If no deployment specified, use the first one in DB
-    const first = await db.selectFrom("deployments").select("address").executeTakeFirst();
-    deployment = first?.address;
+  const run = await withSyncLease(deployment, (lease) => scanRange(lease, options));
+  if (!run.acquired) {
+    throw new Error(`${deployment} is being synced by ${run.holder ?? "another process"}`);
   }
+  return run.result;
+}
 
-  if (!deployment) {
-    throw new Error("No deployment to sync");
-  }
+async function scanRange(
+  lease: SyncLease,
+  options: Parameters<typeof backfillDeployment>[0]
+): Promise<BackfillResult> {
+  const { deployment, fromVersion, toVersion, onBatch } = options;
+  const db = getDb();
+  await ensureDeployment(deployment);
+  const network = await getDeploymentNetwork(deployment);
 
-  return syncDeployment({
+  const result: BackfillResult = {
     deployment,
-    accountId,
-    force: options.force,
-    limit: options.limit,
-  });
+    fromVersion,
+    toVersion,
+    transactionsScanned: 0,
+    eventsProcessed: 0,
+    replayedFrom: null,
+  };
+  let firstApplied: number | null = null;
+
+  let start = BigInt(fromVersion);
+  const end = BigInt(toVersion);
+  while (start <= end) {
+    const limit = Number(end - start + 1n < 100n ? end - start + 1n : 100n); // API max is 100
+    const { events, lastVersion, transactionsFetched } = await fetchEventsFromTransactions(
+      network,
+      deployment,
+      start.toString(),
+      limit
+    );
+    if (transactionsFetched === 0) break;
+
+    await prefetchEventTokens(events, network);
+    const applied: MovementEvent[] = [];
+    const queued = await db.transaction().execute(async (trx) => {
+      for (const event of events) {
+        if (await processEvent(trx, deployment, event)) applied.push(event);
+      }
+      return queueWebhookDeliveries(trx, deployment, applied);
+    });
+    result.eventsProcessed += applied.length;
+    for (const event of applied) {
+      const version = parseInt(event.version, 10);
+      if (firstApplied === null || version < firstApplied) firstApplied = version;
+    }
+    afterBatchCommit(deployment, applied, queued);
+
+    result.transactionsScanned += transactionsFetched;
+    onBatch?.({ ...result, lastVersion });
+    start = BigInt(lastVersion) + 1n;
+    if (!(await lease.renew())) {
+      throw new Error(`Sync lease for ${deployment} lost during backfill`);
+    }
+  }
+
+  if (firstApplied !== null) {
+    await reindexDeployment({ deployment, fromVersion: firstApplied, lease });
+    result.replayedFrom = firstApplied;
+  }
+  return result;
+}
+
+export interface SyncStatus {
+  deployment: string;
+  lastSyncedAt: string | null;
+  ageMs: number | null;
+  /** The most recent sync attempt failed */
+  failing: boolean;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  consecutiveFailures: number;
 }
 
-export async function getSyncStatus(
-  deployment?: string
-): Promise<{ deployment: string; lastSyncedAt: string | null; ageMs: number }[]> {
+export async function getSyncStatus(deployment?: string): Promise<SyncStatus[]> {
   const db = getDb();
 
   let query = db
@@ -371,6 +565,9 @@ export async function getSyncStatus(
       "last_synced_at",
       "events_processed",
       "sync_duration_ms",
+      "last_error",
+      "last_error_at",
+      "consecutive_failures",
     ]);
   if (deployment) {
     query = query.where("deployment_address", "=", deployment);
@@ -379,9 +576,16 @@ export async function getSyncStatus(
   const rows = await query.execute();
   const now = Date.now();
 
-  return rows.map((r) => ({
-    deployment: r.deployment_address,
-    lastSyncedAt: r.last_synced_at,
-    ageMs: now - new Date(r.last_synced_at).getTime(),
-  }));
+  return rows.map((r) => {
+    const lastSyncedAt = r.last_synced_at === NEVER_SYNCED ? null : r.last_synced_at;
+    return {
+      deployment: r.deployment_address,
+      lastSyncedAt,
+      ageMs: lastSyncedAt ? now - new Date(lastSyncedAt).getTime() : null,
+      failing: r.consecutive_failures > 0,
+      lastError: r.last_error,
+      lastErrorAt: r.last_error_at,
+      consecutiveFailures: r.consecutive_failures,
+    };
+  });
 }
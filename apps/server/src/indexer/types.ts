@@ -1,11 +1,12 @@
 // Movement event types
 export interface MovementEvent {
   version: string;
+  event_index?: number; // Position of the event within its transaction
   sequence_number: string;
   type: string;
   data: Record<string, unknown>;
   tx_hash?: string;
-  timestamp?: string;
+  timestamp?: string; // Block timestamp in microseconds
   sender?: string; // Transaction sender address
   entry_function?: string; // Entry function like "0x123::address_driver::set_streams"
   guid?: {
@@ -65,3 +66,9 @@ export interface CollectedEventData {
   fa_metadata: string;
   amount: string;
 }
+
+export interface AccountMetadataEmittedEventData {
+  account_id: string;
+  key: string; // vector<u8> as 0x-prefixed hex
+  value: string; // vector<u8> as 0x-prefixed hex
+}
@@ -0,0 +1,118 @@
+import { getDb } from "../database/connection.js";
+import { withSyncLease, type SyncLease } from "./lock.js";
+import { getSyncSchedule } from "./scheduler.js";
+import { syncDeployment } from "./sync.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+export interface IndexerWorkerOptions {
+  /** How long to sleep between passes over the deployments table (ms) */
+  pollIntervalMs?: number;
+  /** Transactions fetched per syncDeployment call */
+  batchLimit?: number;
+}
+
+export interface IndexerWorker {
+  start(): void;
+  /** Finish the batch in flight, then stop. Resolves once the loop has exited. */
+  stop(): Promise<void>;
+  /** Skip the remaining sleep and start the next pass immediately */
+  wake(): void;
+  isRunning(): boolean;
+}
+
+export function getPollIntervalMs(): number {
+  const configured = parseInt(process.env.INDEXER_POLL_INTERVAL || "", 10);
+  return configured > 0 ? configured : DEFAULT_POLL_INTERVAL_MS;
+}
+
+/**
+ * Long-running indexer loop
+ *
+ * Every pass walks all rows in `deployments`, asks the scheduler whether each
+ * one is due, and syncs due deployments batch by batch until `has_more` clears.
+ */
+export function createIndexerWorker(options: IndexerWorkerOptions = {}): IndexerWorker {
+  const pollIntervalMs = options.pollIntervalMs ?? getPollIntervalMs();
+  let running = false;
+  let loop: Promise<void> | null = null;
+  let wakeSleep: (() => void) | null = null;
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        wakeSleep = null;
+        resolve();
+      }
+      wakeSleep = done;
+    });
+
+  async function syncUntilCaughtUp(lease: SyncLease): Promise<number> {
+    let processed = 0;
+    while (running) {
+      const result = await syncDeployment({
+        deployment: lease.deployment,
+        force: true,
+        limit: options.batchLimit,
+      });
+      processed += result.eventsProcessed;
+      if (!result.hasMore || !(await lease.renew())) break;
+    }
+    return processed;
+  }
+
+  async function runPass(): Promise<void> {
+    const db = getDb();
+    const deployments = await db.selectFrom("deployments").select("address").execute();
+
+    for (const { address } of deployments) {
+      if (!running) return;
+      try {
+        const { due } = await getSyncSchedule(address, pollIntervalMs);
+        if (!due) continue;
+        // Another instance (or a queued API job) is already on it
+        const run = await withSyncLease(address, syncUntilCaughtUp);
+        if (run.acquired && run.result > 0) {
+          console.log(`[Indexer] ${address}: ${run.result} events processed`);
+        }
+      } catch (err) {
+        console.error(`[Indexer] Sync failed for ${address}:`, err);
+      }
+    }
+  }
+
+  async function run(): Promise<void> {
+    console.log(`[Indexer] Worker started (poll interval ${pollIntervalMs}ms)`);
+    while (running) {
+      try {
+        await runPass();
+      } catch (err) {
+        console.error("[Indexer] Pass failed:", err);
+      }
+      if (running) await sleep(pollIntervalMs);
+    }
+    console.log("[Indexer] Worker stopped");
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      loop = run();
+    },
+    async stop() {
+      running = false;
+      wakeSleep?.();
+      await loop;
+      loop = null;
+    },
+    wake() {
+      wakeSleep?.();
+    },
+    isRunning() {
+      return running;
+    },
+  };
+}
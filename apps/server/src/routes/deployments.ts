@@ -1,8 +1,48 @@
 import express from "express";
-import { sql } from "kysely";
+import { sql, type Selectable } from "kysely";
+import { toHex } from "xylkit-hashing";
+import { getAccountBalances } from "../accounting/balances.js";
+import { toStreamChangeEntry } from "../accounting/changes.js";
+import { buildSqueezeHistory, squeezeStreamsArguments } from "../accounting/history.js";
+import { buildSqueezeLedger, getCycleSecs } from "../accounting/ledger.js";
+import {
+  describeStream,
+  fundedUntil,
+  getStreamLifecycle,
+  liveStreams,
+} from "../accounting/lifecycle.js";
+import { squeezableStreams } from "../accounting/streams.js";
+import { verifyAccountConfig } from "../accounting/verify.js";
+import { getAnalytics } from "../analytics/snapshots.js";
+import { getDeploymentStats, getStreamsBalances } from "../analytics/stats.js";
 import { getDb } from "../database/connection.js";
-import { NotFoundError } from "../utils/errors.js";
+import type { StreamsTable } from "../database/schema.js";
+import { streamLiveFeed, toActivityEvents } from "../indexer/feed.js";
+import { getSyncLeaseHolder } from "../indexer/lock.js";
+import { listSyncJobs } from "../indexer/queue.js";
+import {
+  getDiscrepancy,
+  listDiscrepancies,
+  reconcileDeployment,
+  resyncDiscrepancy,
+} from "../indexer/reconcile.js";
+import { isReindexing } from "../indexer/reindex.js";
+import { getSyncStatus } from "../indexer/sync.js";
 import {
+  AccountIdSchema,
+  AnalyticsQuerySchema,
+  DiscrepancyQuerySchema,
+  EventQuerySchema,
+  PaginationSchema,
+  SqueezeQuerySchema,
+  type AccountMetadataEntry,
+} from "../types/index.js";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors.js";
+import { queryEvents } from "../utils/events.js";
+import { parseMetadataJson } from "../utils/metadata.js";
+import { getNetworkName, resolveNetworkId } from "../utils/network.js";
+import {
+  ensureToken,
   formatAmount,
   formatRate,
   formatUsd,
@@ -10,20 +50,36 @@ import {
   toUsd,
 } from "../utils/token.js";
 
-// Format duration in seconds to human readable
-function formatDuration(seconds: number): string {
-  if (seconds < 60) return `${seconds}s`;
-  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
-  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
-  return `${Math.round(seconds / 86400)}d`;
-}
-
 const router = express.Router();
 
+// A stream as the UI shows it: rate, lifecycle status, time remaining
+function formatStream(s: Selectable<StreamsTable>, decimals: number, now: number) {
+  const rateInfo = formatRate(s.amt_per_sec, decimals);
+  const lifecycle = getStreamLifecycle(s, now);
+  return {
+    from: s.sender_id,
+    to: s.receiver_id,
+    streamId: s.stream_id,
+    faMetadata: s.fa_metadata,
+    rate: rateInfo.value,
+    rateUnit: rateInfo.unit,
+    amtPerSec: s.amt_per_sec,
+    startTime: s.start_time,
+    duration: s.duration,
+    durationText: describeStream(lifecycle, now),
+    active: lifecycle.active,
+    status: lifecycle.status,
+    startedAt: new Date(lifecycle.startsAt * 1000).toISOString(),
+    endsAt:
+      lifecycle.endsAt !== null ? new Date(lifecycle.endsAt * 1000).toISOString() : null,
+  };
+}
+
 // GET /deployments - List deployments (supports random selection)
 // Query params:
 //   ?limit=6 - max number to return (default 6, max 20)
 //   ?random=true - randomize order (default true)
+//   ?network=movement-testnet - only deployments on this network (default: all)
 router.get("/", async (req, res, next) => {
   try {
     const db = getDb();
@@ -32,6 +88,10 @@ router.get("/", async (req, res, next) => {
 
     let query = db.selectFrom("deployments").selectAll();
 
+    if (req.query.network) {
+      query = query.where("network", "=", resolveNetworkId(req.query.network as string));
+    }
+
     if (random) {
       // SQLite/Turso RANDOM() for random ordering
       query = query.orderBy(sql`RANDOM()`);
@@ -47,7 +107,8 @@ router.get("/", async (req, res, next) => {
         const stats = await getDeploymentStats(d.address);
         return {
           address: d.address,
-          network: "Movement Testnet",
+          network: d.network,
+          networkName: getNetworkName(d.network),
           firstSeenAt: d.first_seen_at,
           volume: stats.totalVolume,
           volumeUsd: stats.totalVolumeUsd,
@@ -55,6 +116,7 @@ router.get("/", async (req, res, next) => {
           tvlUsd: stats.tvlUsd,
           streams: stats.activeStreams,
           accounts: stats.totalAccounts,
+          tokens: stats.tokens,
         };
       })
     );
@@ -86,6 +148,7 @@ router.get("/:address", async (req, res, next) => {
     res.json({
       address: deployment.address,
       network: deployment.network,
+      networkName: getNetworkName(deployment.network),
       firstSeenAt: deployment.first_seen_at,
       stats,
     });
@@ -94,125 +157,16 @@ router.get("/:address", async (req, res, next) => {
   }
 });
 
-interface DeploymentStats {
-  totalAccounts: number;
-  activeStreams: number;
-  totalSplits: number;
-  totalEvents: number;
-  totalVolume: string;
-  totalVolumeUsd: string;
-  tvl: string;
-  tvlUsd: string;
-}
-
-async function getDeploymentStats(address: string): Promise<DeploymentStats> {
-  const db = getDb();
-  const [accounts, streams, splits, events] = await Promise.all([
-    db
-      .selectFrom("accounts")
-      .select(db.fn.countAll().as("count"))
-      .where("deployment_address", "=", address)
-      .executeTakeFirst(),
-    db
-      .selectFrom("streams")
-      .select(db.fn.countAll().as("count"))
-      .where("deployment_address", "=", address)
-      .where("active", "=", 1)
-      .executeTakeFirst(),
-    db
-      .selectFrom("splits")
-      .select(db.fn.countAll().as("count"))
-      .where("deployment_address", "=", address)
-      .executeTakeFirst(),
-    db
-      .selectFrom("events")
-      .select(db.fn.countAll().as("count"))
-      .where("deployment_address", "=", address)
-      .executeTakeFirst(),
-  ]);
-
-  // Calculate total volume from events (Given, Collected, StreamsSet deposits)
-  const volumeEvents = await db
-    .selectFrom("events")
-    .select(["event_type", "data"])
-    .where("deployment_address", "=", address)
-    .where("event_type", "in", ["Given", "Collected", "Received", "Squeezed"])
-    .execute();
-
-  let totalVolumeRaw = 0n;
-  let faMetadata = "0xa"; // Default native token address
-
-  for (const e of volumeEvents) {
-    try {
-      const data = JSON.parse(e.data);
-      if (data.amount) {
-        totalVolumeRaw += BigInt(data.amount);
-      }
-      if (data.fa_metadata) {
-        faMetadata = data.fa_metadata;
-      }
-    } catch {
-      /* skip */
-    }
-  }
-
-  // Calculate TVL from active streams balances
-  const streamsSetEvents = await db
-    .selectFrom("events")
-    .select(["data"])
-    .where("deployment_address", "=", address)
-    .where("event_type", "=", "StreamsSet")
-    .orderBy("timestamp", "desc")
-    .execute();
-
-  // Sum up latest balance per account
-  const accountBalances = new Map<string, bigint>();
-  for (const e of streamsSetEvents) {
-    try {
-      const data = JSON.parse(e.data);
-      if (data.account_id && data.balance) {
-        // Only keep first (latest) balance per account
-        if (!accountBalances.has(data.account_id)) {
-          accountBalances.set(data.account_id, BigInt(data.balance));
-        }
-      }
-    } catch {
-      /* skip */
-    }
-  }
-
-  let tvlRaw = 0n;
-  for (const balance of accountBalances.values()) {
-    tvlRaw += balance;
-  }
-
-  const decimals = await getTokenDecimals(faMetadata);
-  const totalVolume = formatAmount(totalVolumeRaw, decimals, 2);
-  const tvl = formatAmount(tvlRaw, decimals, 2);
-
-  // Get USD values
-  const volumeUsd = await toUsd(totalVolumeRaw, faMetadata, decimals);
-  const tvlUsdValue = await toUsd(tvlRaw, faMetadata, decimals);
-
-  return {
-    totalAccounts: Number(accounts?.count || 0),
-    activeStreams: Number(streams?.count || 0),
-    totalSplits: Number(splits?.count || 0),
-    totalEvents: Number(events?.count || 0),
-    totalVolume,
-    totalVolumeUsd: formatUsd(volumeUsd),
-    tvl,
-    tvlUsd: formatUsd(tvlUsdValue),
-  };
-}
-
 // GET /deployments/:address/streams - All streams in deployment
-// Returns data formatted for UI: from, to, rate, balance, days remaining
+// Returns data formatted for UI: from, to, rate, lifecycle status, time remaining
+// ?active=false includes streams that ended, ran out of funds or were stopped
+// ?token=0x... / ?sender=<accountId> narrow it to one token / sender
 router.get("/:address/streams", async (req, res, next) => {
   try {
     const db = getDb();
     const { address } = req.params;
     const activeOnly = req.query.active !== "false";
+    const { token, sender } = req.query;
 
     let query = db
       .selectFrom("streams")
@@ -220,58 +174,17 @@ router.get("/:address/streams", async (req, res, next) => {
       .where("deployment_address", "=", address);
 
     if (activeOnly) {
-      query = query.where("active", "=", 1);
+      query = query.where(liveStreams());
     }
+    if (typeof token === "string") query = query.where("fa_metadata", "=", token);
+    if (typeof sender === "string") query = query.where("sender_id", "=", sender);
 
     const streams = await query.execute();
 
     // Format for UI with dynamic decimals
+    const now = Date.now();
     const formatted = await Promise.all(
-      streams.map(async (s) => {
-        const decimals = await getTokenDecimals(s.fa_metadata);
-        const rateInfo = formatRate(s.amt_per_sec, decimals);
-
-        // Calculate timing info
-        const now = Math.floor(Date.now() / 1000);
-        // Use created_at timestamp if start_time is 0
-        const createdAtTs = s.created_at
-          ? Math.floor(new Date(s.created_at).getTime() / 1000)
-          : now;
-        const startTime = s.start_time || createdAtTs;
-        const endTime = s.duration > 0 ? startTime + s.duration : 0;
-
-        let durationText: string;
-        if (!s.active) {
-          // Stopped stream - calculate how long it ran using updated_at as stop time
-          const stoppedAt = s.updated_at
-            ? Math.floor(new Date(s.updated_at).getTime() / 1000)
-            : now;
-          const ranFor = stoppedAt - startTime;
-          durationText = ranFor > 0 ? formatDuration(ranFor) + " (stopped)" : "stopped";
-        } else if (endTime > 0 && endTime > now) {
-          // Active with end time
-          durationText = formatDuration(endTime - now) + " left";
-        } else {
-          // Ongoing (no end time) - show how long it's been running
-          const runningFor = now - startTime;
-          durationText =
-            runningFor > 60 ? formatDuration(runningFor) + " running" : "ongoing";
-        }
-
-        return {
-          from: s.sender_id,
-          to: s.receiver_id,
-          streamId: s.stream_id,
-          faMetadata: s.fa_metadata,
-          rate: rateInfo.value,
-          rateUnit: rateInfo.unit,
-          amtPerSec: s.amt_per_sec,
-          startTime: s.start_time,
-          duration: s.duration,
-          durationText,
-          active: s.active === 1,
-        };
-      })
+      streams.map(async (s) => formatStream(s, await getTokenDecimals(s.fa_metadata), now))
     );
 
     res.json(formatted);
@@ -327,11 +240,28 @@ router.get("/:address/accounts", async (req, res, next) => {
     const db = getDb();
     const { address } = req.params;
 
-    const accounts = await db
-      .selectFrom("accounts")
-      .selectAll()
-      .where("deployment_address", "=", address)
-      .execute();
+    const [accounts, metadataRows] = await Promise.all([
+      db
+        .selectFrom("accounts")
+        .selectAll()
+        .where("deployment_address", "=", address)
+        .execute(),
+      db
+        .selectFrom("account_metadata")
+        .select(["account_id", "key", "value"])
+        .where("deployment_address", "=", address)
+        .where("value", "is not", null)
+        .execute(),
+    ]);
+
+    // Latest self-published metadata (name, avatar, ...) per account
+    const metadataByAccount = new Map<string, Record<string, string>>();
+    for (const m of metadataRows) {
+      if (!metadataByAccount.has(m.account_id)) {
+        metadataByAccount.set(m.account_id, {});
+      }
+      metadataByAccount.get(m.account_id)![m.key] = m.value!;
+    }
 
     res.json(
       accounts.map((a) => ({
@@ -339,6 +269,7 @@ router.get("/:address/accounts", async (req, res, next) => {
         walletAddress: a.wallet_address,
         driverType: a.driver_type,
         driverName: a.driver_name, // Send actual driver name
+        metadata: metadataByAccount.get(a.account_id) ?? {},
       }))
     );
   } catch (err) {
@@ -346,115 +277,484 @@ router.get("/:address/accounts", async (req, res, next) => {
   }
 });
 
-// GET /deployments/:address/events - Activity feed
-router.get("/:address/events", async (req, res, next) => {
+// GET /deployments/:address/accounts/:accountId/metadata - Latest value per key
+router.get("/:address/accounts/:accountId/metadata", async (req, res, next) => {
   try {
     const db = getDb();
-    const { address } = req.params;
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-    const offset = parseInt(req.query.offset as string) || 0;
+    const { address, accountId } = req.params;
 
-    const events = await db
-      .selectFrom("events")
+    const rows = await db
+      .selectFrom("account_metadata")
       .selectAll()
       .where("deployment_address", "=", address)
-      .orderBy("timestamp", "desc")
-      .limit(limit)
-      .offset(offset)
+      .where("account_id", "=", accountId)
+      .orderBy("key", "asc")
       .execute();
 
-    // Extract all unique token addresses from events
-    const tokenAddresses = new Set<string>();
-    events.forEach((e) => {
-      try {
-        const data = JSON.parse(e.data);
-        if (data.fa_metadata) {
-          tokenAddresses.add(data.fa_metadata);
-        }
-      } catch {
-        /* skip */
-      }
+    const metadata: AccountMetadataEntry[] = rows.map((m) => ({
+      key: m.key,
+      value: m.value,
+      json: parseMetadataJson(m.value),
+      hex: m.value_hex,
+      version: m.transaction_version,
+      txHash: m.tx_hash,
+      updatedAt: m.updated_at,
+    }));
+
+    res.json({ accountId, metadata });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /deployments/:address/accounts/:accountId/balances - Live per-token balances
+// ?token=0x... limits the lookup to one token
+router.get("/:address/accounts/:accountId/balances", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address, accountId } = req.params;
+    const token = typeof req.query.token === "string" ? req.query.token : undefined;
+
+    const balances = await getAccountBalances(address, accountId, token ? [token] : undefined);
+
+    const tokens = balances.length
+      ? await db
+          .selectFrom("tokens")
+          .selectAll()
+          .where(
+            "address",
+            "in",
+            balances.map((b) => b.faMetadata)
+          )
+          .execute()
+      : [];
+    const tokensMap = new Map(tokens.map((t) => [t.address, t]));
+
+    res.json({
+      accountId,
+      balances: balances.map((b) => ({
+        ...b,
+        symbol: tokensMap.get(b.faMetadata)?.symbol || "TOKEN",
+        decimals: tokensMap.get(b.faMetadata)?.decimals || 8,
+      })),
     });
+  } catch (err) {
+    next(err);
+  }
+});
 
-    // Fetch all token metadata in one query
-    const tokensData = await db
-      .selectFrom("tokens")
+// GET /deployments/:address/accounts/:accountId/streams - Sender's streams per token
+// Each token has its own configuration: balance, max_end and receivers, as set
+// by the account's latest StreamsSet for that token
+// ?active=false includes streams that ended, ran out of funds or were stopped
+router.get("/:address/accounts/:accountId/streams", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address, accountId } = req.params;
+    const activeOnly = req.query.active !== "false";
+
+    const states = await db
+      .selectFrom("streams_states")
       .selectAll()
-      .where("address", "in", Array.from(tokenAddresses))
+      .where("deployment_address", "=", address)
+      .where("account_id", "=", accountId)
+      .orderBy("fa_metadata")
       .execute();
 
-    // Create a map for quick lookup
-    const tokensMap = new Map(
-      tokensData.map((t) => [t.address, { symbol: t.symbol, name: t.name }])
+    let query = db
+      .selectFrom("streams")
+      .selectAll()
+      .where("deployment_address", "=", address)
+      .where("sender_id", "=", accountId);
+    if (activeOnly) {
+      query = query.where(liveStreams());
+    }
+    const streams = await query.orderBy("id").execute();
+
+    const now = Date.now();
+    const tokens = await Promise.all(
+      states.map(async (state) => {
+        const { symbol, decimals } = await ensureToken(state.fa_metadata);
+        const until = fundedUntil(state.max_end);
+        return {
+          faMetadata: state.fa_metadata,
+          symbol,
+          decimals,
+          balance: formatAmount(state.balance, decimals),
+          balanceRaw: state.balance,
+          maxEnd: state.max_end,
+          fundedUntil: until !== null ? new Date(until * 1000).toISOString() : null,
+          version: state.transaction_version,
+          updatedAt: state.updated_at,
+          streams: streams
+            .filter((s) => s.fa_metadata === state.fa_metadata)
+            .map((s) => formatStream(s, decimals, now)),
+        };
+      })
     );
 
-    // Enrich events with token symbols (from DB, single query)
-    const enriched = events.map((e) => {
-      const data = JSON.parse(e.data);
-      let tokenSymbol = "TOKEN"; // Generic fallback
+    res.json({ accountId, tokens });
+  } catch (err) {
+    next(err);
+  }
+});
 
-      // Extract fa_metadata from event data if present
-      if (data.fa_metadata) {
-        const tokenMeta = tokensMap.get(data.fa_metadata);
-        tokenSymbol = tokenMeta?.symbol || "TOKEN";
-      }
+// GET /deployments/:address/accounts/:accountId/stream-history - What each of the
+// account's StreamsSets changed, newest first
+// Query params:
+//   ?token=0x... - only this token
+//   ?limit=50&offset=0
+router.get("/:address/accounts/:accountId/stream-history", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address, accountId } = req.params;
+    const page = PaginationSchema.safeParse(req.query);
+    if (!page.success) {
+      throw new ValidationError("Invalid pagination", page.error.flatten().fieldErrors);
+    }
+    const { limit, offset } = page.data;
+    const token = req.query.token as string | undefined;
+
+    let query = db
+      .selectFrom("stream_changes")
+      .selectAll()
+      .where("deployment_address", "=", address)
+      .where("account_id", "=", accountId);
+
+    if (token) {
+      query = query.where("fa_metadata", "=", token);
+    }
 
-      return {
-        id: e.id,
-        eventType: e.event_type,
-        accountId: e.account_id,
-        data,
-        tokenSymbol,
-        txHash: e.tx_hash,
-        timestamp: e.timestamp,
-      };
+    const rows = await query
+      .orderBy("transaction_version", "desc")
+      .orderBy("event_index", "desc")
+      .orderBy("id")
+      .limit(limit)
+      .offset(offset)
+      .execute();
+
+    const tokens = new Map(
+      await Promise.all(
+        [...new Set(rows.map((r) => r.fa_metadata))].map(
+          async (fa) => [fa, await ensureToken(fa)] as const
+        )
+      )
+    );
+    const history = rows.map((r) => toStreamChangeEntry(r, tokens.get(r.fa_metadata)!));
+
+    res.json({ accountId, history });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /deployments/:address/accounts/:accountId/squeeze - Ready-to-submit
+// `drips::squeeze_streams` arguments for the account (the receiver) to squeeze
+// what a sender streamed to it in the current cycle
+// Query params:
+//   ?sender=<account id> - required
+//   ?token=0x... - required
+router.get("/:address/accounts/:accountId/squeeze", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address, accountId } = req.params;
+    if (!AccountIdSchema.safeParse(accountId).success) {
+      throw new ValidationError("accountId must be a decimal account ID", { accountId });
+    }
+    const query = SqueezeQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new ValidationError("Invalid squeeze query", query.error.flatten().fieldErrors);
+    }
+    const { sender, token } = query.data;
+
+    const rows = await db
+      .selectFrom("streams_history")
+      .selectAll()
+      .where("deployment_address", "=", address)
+      .where("account_id", "=", sender)
+      .where("fa_metadata", "=", token)
+      .orderBy("transaction_version")
+      .orderBy("event_index")
+      .orderBy("id")
+      .execute();
+    if (rows.length === 0) {
+      throw new NotFoundError("Sender never streamed this token", { sender, token });
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const [cycleSecs, ledger, { symbol, decimals }] = await Promise.all([
+      getCycleSecs(address),
+      buildSqueezeLedger(address, token, accountId, sender),
+      ensureToken(token),
+    ]);
+    const history = buildSqueezeHistory(rows, BigInt(accountId), cycleSecs, now);
+    const squeezable = squeezableStreams(
+      ledger,
+      token,
+      BigInt(accountId),
+      BigInt(sender),
+      now
+    );
+
+    res.json({
+      accountId,
+      senderId: sender,
+      faMetadata: token,
+      symbol,
+      squeezable: formatAmount(squeezable, decimals),
+      squeezableRaw: squeezable.toString(),
+      historyHash: toHex(history.historyHash),
+      history: history.entries.map((e) => ({
+        streamsHash: toHex(e.streamsHash),
+        receivers: e.receivers.map((r) => ({
+          accountId: r.accountId.toString(),
+          streamId: r.config.streamId.toString(),
+          amtPerSec: r.config.amtPerSec.toString(),
+          start: r.config.start.toString(),
+          duration: r.config.duration.toString(),
+        })),
+        updateTime: e.updateTime.toString(),
+        maxEnd: e.maxEnd.toString(),
+      })),
+      function: `${address}::drips::squeeze_streams`,
+      arguments: squeezeStreamsArguments(accountId, token, sender, history),
     });
+  } catch (err) {
+    next(err);
+  }
+});
 
-    res.json(enriched);
+// GET /deployments/:address/accounts/:accountId/verify - Whether the indexed splits
+// and streams configurations hash to what the chain stores for the account
+router.get("/:address/accounts/:accountId/verify", async (req, res, next) => {
+  try {
+    const { address, accountId } = req.params;
+    res.json(await verifyAccountConfig(address, accountId));
   } catch (err) {
     next(err);
   }
 });
 
-// GET /deployments/:address/vault - Token balances in the vault
-router.get("/:address/vault", async (req, res, next) => {
+// GET /deployments/:address/accounts/:accountId/metadata/history - Every emitted value
+// Query params:
+//   ?key=name - only this key
+//   ?limit=50&offset=0
+router.get("/:address/accounts/:accountId/metadata/history", async (req, res, next) => {
   try {
     const db = getDb();
-    const { address } = req.params;
+    const { address, accountId } = req.params;
+    const page = PaginationSchema.safeParse(req.query);
+    if (!page.success) {
+      throw new ValidationError("Invalid pagination", page.error.flatten().fieldErrors);
+    }
+    const { limit, offset } = page.data;
+    const key = req.query.key as string | undefined;
 
-    // Get all StreamsSet events to track balances per token
-    const streamsSetEvents = await db
-      .selectFrom("events")
-      .select(["data"])
+    let query = db
+      .selectFrom("account_metadata_history")
+      .selectAll()
       .where("deployment_address", "=", address)
-      .where("event_type", "=", "StreamsSet")
-      .orderBy("timestamp", "desc")
+      .where("account_id", "=", accountId);
+
+    if (key) {
+      query = query.where("key", "=", key);
+    }
+
+    const rows = await query
+      .orderBy("transaction_version", "desc")
+      .orderBy("event_index", "desc")
+      .limit(limit)
+      .offset(offset)
       .execute();
 
-    // Track latest balance per account per token
-    const tokenBalances = new Map<string, Map<string, bigint>>(); // token -> (account -> balance)
+    const history: AccountMetadataEntry[] = rows.map((m) => ({
+      key: m.key,
+      value: m.value,
+      json: parseMetadataJson(m.value),
+      hex: m.value_hex,
+      version: m.transaction_version,
+      txHash: m.tx_hash,
+      updatedAt: m.timestamp,
+    }));
 
-    for (const e of streamsSetEvents) {
-      try {
-        const data = JSON.parse(e.data);
-        const token = data.fa_metadata || "0xa";
-        const accountId = data.account_id;
-        const balance = BigInt(data.balance || "0");
+    res.json({ accountId, history });
+  } catch (err) {
+    next(err);
+  }
+});
 
-        if (!tokenBalances.has(token)) {
-          tokenBalances.set(token, new Map());
-        }
-        const accountMap = tokenBalances.get(token)!;
+/**
+ * GET /deployments/:address/events - Activity feed in chain order
+ * Query params:
+ *   ?type=StreamsSet,Collected   - event types
+ *   ?accountId=123               - emitted by or naming the account (sender / receiver)
+ *   ?token=0x...                 - FA metadata address
+ *   ?from=&to=                   - block time range (ISO dates)
+ *   ?fromVersion=&toVersion=     - transaction version range
+ *   ?order=desc|asc              - newest first by default
+ *   ?limit=50&cursor=            - next page cursor from the X-Next-Cursor header
+ */
+router.get("/:address/events", async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const query = EventQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new ValidationError("Invalid event query", query.error.flatten().fieldErrors);
+    }
 
-        // Only keep first (latest) balance per account
-        if (!accountMap.has(accountId)) {
-          accountMap.set(accountId, balance);
-        }
-      } catch {
-        /* skip */
-      }
+    const { events, nextCursor } = await queryEvents({ deployments: [address] }, query.data);
+    if (nextCursor) res.setHeader("X-Next-Cursor", nextCursor);
+    res.json(await toActivityEvents(events));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /deployments/:address/events/stream
+ * Server-Sent Events: `indexed` for each event as it is stored, `sync` with
+ * the deployment's sync status and latest job when they change. Reconnects
+ * resume from Last-Event-ID.
+ */
+router.get("/:address/events/stream", async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const deployment = await getDb()
+      .selectFrom("deployments")
+      .select("address")
+      .where("address", "=", address)
+      .executeTakeFirst();
+    if (!deployment) {
+      throw new NotFoundError("Deployment not found", { address });
     }
 
+    await streamLiveFeed(req, res, {
+      deployment: address,
+      syncState: async () => {
+        const [status, jobs] = await Promise.all([
+          getSyncStatus(address),
+          listSyncJobs({ deployment: address, limit: 1 }),
+        ]);
+        // ageMs changes on every read - clients work it out from lastSyncedAt
+        return {
+          status: status.map(({ ageMs: _ageMs, ...s }) => s),
+          job: jobs[0] ?? null,
+        };
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /deployments/:address/analytics - Hourly / daily snapshots for charts
+// Query params: ?interval=day|hour (default day), ?from= / ?to= (ISO dates)
+router.get("/:address/analytics", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address } = req.params;
+
+    const query = AnalyticsQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new ValidationError("Invalid analytics query", query.error.flatten().fieldErrors);
+    }
+
+    const deployment = await db
+      .selectFrom("deployments")
+      .select("address")
+      .where("address", "=", address)
+      .executeTakeFirst();
+    if (!deployment) {
+      throw new NotFoundError("Deployment not found", { address });
+    }
+
+    const { interval, from, to } = query.data;
+    const analytics = await getAnalytics(address, interval, { from, to });
+    res.json({ deployment: address, interval, ...analytics });
+  } catch (err) {
+    next(err);
+  }
+});
+
+async function requireDeployment(address: string): Promise<void> {
+  const deployment = await getDb()
+    .selectFrom("deployments")
+    .select("address")
+    .where("address", "=", address)
+    .executeTakeFirst();
+  if (!deployment) {
+    throw new NotFoundError("Deployment not found", { address });
+  }
+}
+
+// GET /deployments/:address/discrepancies - Where reconciliation found the index
+// disagreeing with the chain
+// Query params: ?status=open|resolved|all (default open), ?kind=, ?limit=100
+router.get("/:address/discrepancies", async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const query = DiscrepancyQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new ValidationError("Invalid discrepancy query", query.error.flatten().fieldErrors);
+    }
+    await requireDeployment(address);
+    res.json(await listDiscrepancies({ deployment: address, ...query.data }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /deployments/:address/reconcile - Compare the indexed state with the chain now
+// Body: { accountId?, token? } - limit the run to one account's configurations
+// and / or one token's balances
+router.post("/:address/reconcile", async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const { accountId, token } = req.body ?? {};
+    if (accountId !== undefined && !/^\d+$/.test(String(accountId))) {
+      throw new ValidationError("accountId must be a decimal account ID", { accountId });
+    }
+    await requireDeployment(address);
+    res.json(await reconcileDeployment(address, { accountId, faMetadata: token }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /deployments/:address/discrepancies/:id/resync - Rescan and replay the chain
+// from the first event the discrepancy involves, then check it again
+router.post("/:address/discrepancies/:id/resync", async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const id = parseInt(req.params.id, 10);
+    if (Number.isNaN(id)) {
+      throw new ValidationError("Discrepancy id must be a number");
+    }
+    if (await isReindexing(address)) {
+      throw new ConflictError("Reindex already running", { deployment: address });
+    }
+    const holder = await getSyncLeaseHolder(address);
+    if (holder) {
+      throw new ConflictError("Deployment is being synced", { deployment: address, holder });
+    }
+    const discrepancy = await getDiscrepancy(id);
+    if (!discrepancy || discrepancy.deployment !== address) {
+      throw new NotFoundError("Discrepancy not found", { id });
+    }
+    res.json(await resyncDiscrepancy(id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /deployments/:address/vault - Token balances in the vault
+router.get("/:address/vault", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address } = req.params;
+
+    const tokenBalances = await getStreamsBalances(address);
+
     // Aggregate per token
     // First, get all unique token addresses
     const tokenAddresses = Array.from(tokenBalances.keys());
@@ -0,0 +1,33 @@
+import express from "express";
+import { getDb } from "../database/connection.js";
+import { getDefaultNetworkId, listNetworks } from "../utils/network.js";
+
+const router = express.Router();
+
+// GET /networks - Configured networks and how many deployments each has
+// RPC URLs stay server-side (custom endpoints often embed API keys)
+router.get("/", async (_req, res, next) => {
+  try {
+    const db = getDb();
+    const counts = await db
+      .selectFrom("deployments")
+      .select(["network", (eb) => eb.fn.countAll<number>().as("count")])
+      .groupBy("network")
+      .execute();
+    const countByNetwork = new Map(counts.map((c) => [c.network, Number(c.count)]));
+    const defaultNetwork = getDefaultNetworkId();
+
+    res.json(
+      listNetworks().map((n) => ({
+        id: n.id,
+        name: n.name,
+        isDefault: n.id === defaultNetwork,
+        deployments: countByNetwork.get(n.id) ?? 0,
+      }))
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
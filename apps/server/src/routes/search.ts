@@ -1,96 +1,89 @@
 import express from "express";
 import { getDb } from "../database/connection.js";
-import { runSync } from "../indexer/sync.js";
+import { isBackgroundIndexerEnabled } from "../indexer/scheduler.js";
+import { enqueueSync, type EnqueueSyncOptions } from "../indexer/queue.js";
 import { calcAccountId } from "../utils/account.js";
+import { resolveNetworkId } from "../utils/network.js";
+import { rpcGetOptional } from "../utils/rpc.js";
 
 const router = express.Router();
 
 /**
- * Get RPC URL from environment
+ * Queue a sync for a search hit (deduplicated with any job already queued)
+ * Skipped when the background indexer owns syncing - it picks up newly
+ * registered deployments on its next pass
  */
-const getRpcUrl = () =>
-  process.env.MOVEMENT_RPC_URL || "https://aptos.testnet.porto.movementlabs.xyz/v1";
+function requestSync(options: Omit<EnqueueSyncOptions, "source">): void {
+  if (isBackgroundIndexerEnabled()) return;
+  enqueueSync({ ...options, source: "search" }).catch((err) =>
+    console.warn(`[Search] Failed to queue sync for ${options.deployment}:`, err)
+  );
+}
 
 /**
  * Find the deployment's first transaction version
  * This is when the contract was deployed - we start scanning from here
+ * RPC failures propagate: guessing 0 would rescan the chain from genesis
  */
-async function findDeploymentStartVersion(address: string): Promise<string> {
-  try {
-    // Get account info to see total transactions
-    const accountUrl = `${getRpcUrl()}/accounts/${address}`;
-    const accountRes = await fetch(accountUrl);
-
-    if (!accountRes.ok) {
-      console.log(`[Search] Could not fetch account info, starting at 0`);
-      return "0";
-    }
-
-    const account = (await accountRes.json()) as { sequence_number?: string };
-    const totalTxs = parseInt(account.sequence_number || "0");
-
-    if (totalTxs === 0) {
-      console.log(`[Search] Account has no transactions, starting at 0`);
-      return "0";
-    }
-
-    // Fetch all transactions to find the oldest
-    const txUrl = `${getRpcUrl()}/accounts/${address}/transactions?start=0&limit=${Math.min(
-      totalTxs,
-      1000
-    )}`;
-    const txRes = await fetch(txUrl);
+async function findDeploymentStartVersion(network: string, address: string): Promise<string> {
+  // Get account info to see total transactions
+  const account = await rpcGetOptional<{ sequence_number?: string }>(
+    network,
+    `/accounts/${address}`
+  );
+
+  if (!account) {
+    console.log(`[Search] Account not found on chain, starting at 0`);
+    return "0";
+  }
 
-    if (!txRes.ok) {
-      console.log(`[Search] Could not fetch transactions, starting at 0`);
-      return "0";
-    }
+  const totalTxs = parseInt(account.sequence_number || "0");
 
-    const txs = (await txRes.json()) as Array<{ version: string }>;
-    if (txs.length === 0) {
-      console.log(`[Search] No transactions found, starting at 0`);
-      return "0";
-    }
+  if (totalTxs === 0) {
+    console.log(`[Search] Account has no transactions, starting at 0`);
+    return "0";
+  }
 
-    // Find oldest transaction
-    let oldestVersion = parseInt(txs[0].version);
-    for (const tx of txs) {
-      const version = parseInt(tx.version);
-      if (version < oldestVersion) oldestVersion = version;
-    }
+  // Fetch all transactions to find the oldest
+  const txs =
+    (await rpcGetOptional<Array<{ version: string }>>(
+      network,
+      `/accounts/${address}/transactions?start=0&limit=${Math.min(totalTxs, 1000)}`
+    )) ?? [];
 
-    // Start a bit before the first transaction
-    const start = Math.max(0, oldestVersion - 10).toString();
-    console.log(
-      `[Search] Deployment first tx at ${oldestVersion}, starting cursor at ${start}`
-    );
-    return start;
-  } catch (err) {
-    console.error("[Search] Failed to find deployment start version:", err);
+  if (txs.length === 0) {
+    console.log(`[Search] No transactions found, starting at 0`);
     return "0";
   }
+
+  // Find oldest transaction
+  let oldestVersion = parseInt(txs[0].version);
+  for (const tx of txs) {
+    const version = parseInt(tx.version);
+    if (version < oldestVersion) oldestVersion = version;
+  }
+
+  // Start a bit before the first transaction
+  const start = Math.max(0, oldestVersion - 10).toString();
+  console.log(`[Search] Deployment first tx at ${oldestVersion}, starting cursor at ${start}`);
+  return start;
 }
 
 /**
  * Check if address has ::drips module (is a Xylkit deployment)
+ * A 404 means it is not; RPC failures throw rather than calling it a user
  */
-async function hasXylkitModule(address: string): Promise<boolean> {
-  try {
-    const url = `${getRpcUrl()}/accounts/${address}/module/drips`;
-    console.log(`[Search] Checking module at: ${url}`);
-    const response = await fetch(url);
-    console.log(`[Search] Module check response: ${response.status}`);
-    return response.ok; // 200 = module exists, 404 = not a deployment
-  } catch (err) {
-    console.error("[Search] Module check failed:", err);
-    return false;
-  }
+async function hasXylkitModule(network: string, address: string): Promise<boolean> {
+  const module = await rpcGetOptional(network, `/accounts/${address}/module/drips`);
+  console.log(`[Search] hasXylkitModule(${address}): ${module !== null}`);
+  return module !== null;
 }
 
 /**
- * GET /search?q=0x...
+ * GET /search?q=0x...&network=movement-testnet
  * Determines if address is a deployment (has ::drips module) or user
  * Auto-registers new deployments and users in DB, triggers background sync
+ * `network` picks the chain to look on (default network if omitted)
  */
 router.get("/", async (req, res, next) => {
   try {
@@ -107,12 +100,13 @@ router.get("/", async (req, res, next) => {
         .json({ error: "Address must be 66 characters (0x + 64 hex digits)" });
     }
 
+    const network = resolveNetworkId(req.query.network as string | undefined);
     const db = getDb();
 
     // First check our DB (faster)
     const knownDeployment = await db
       .selectFrom("deployments")
-      .select("address")
+      .select(["address", "network"])
       .where("address", "=", q)
       .executeTakeFirst();
 
@@ -120,17 +114,16 @@ router.get("/", async (req, res, next) => {
 
     if (knownDeployment) {
       // Trigger background sync for this deployment (fire and forget)
-      runSync({ deployment: q }).catch(() => {});
-      return res.json({ type: "deployment", address: q });
+      requestSync({ deployment: q });
+      return res.json({ type: "deployment", address: q, network: knownDeployment.network });
     }
 
     // Check on-chain if it has drips module
-    const isDeployment = await hasXylkitModule(q);
-    console.log(`[Search] hasXylkitModule(${q}):`, isDeployment);
+    const isDeployment = await hasXylkitModule(network, q);
 
     if (isDeployment) {
       // Find deployment start version (when contract was deployed)
-      const startVersion = await findDeploymentStartVersion(q);
+      const startVersion = await findDeploymentStartVersion(network, q);
       console.log(`[Search] New deployment ${q}, starting cursor at ${startVersion}`);
 
       // Register this new deployment (no end version - scan to chain tip)
@@ -138,7 +131,7 @@ router.get("/", async (req, res, next) => {
         .insertInto("deployments")
         .values({
           address: q,
-          network: "movement-testnet",
+          network,
           first_seen_at: new Date().toISOString(),
           last_tx_version: null,
         })
@@ -158,20 +151,21 @@ router.get("/", async (req, res, next) => {
         .execute();
 
       // Trigger background sync
-      runSync({ deployment: q }).catch(() => {});
+      requestSync({ deployment: q });
 
-      return res.json({ type: "deployment", address: q });
+      return res.json({ type: "deployment", address: q, network });
     }
 
     // It's a user address - find deployments they've interacted with
     const accountId = calcAccountId(q).toString();
 
-    // Check if we have a discovery cursor for this user
+    // Check if we have a discovery cursor for this user on this network
+    const discoveryKey = `user_discovery:${network}`;
     const discoveryCursor = await db
       .selectFrom("sync_cursors")
       .select("last_sequence")
       .where("deployment_address", "=", q) // Using address as key for user discovery
-      .where("event_type", "=", "user_discovery")
+      .where("event_type", "=", discoveryKey)
       .executeTakeFirst();
 
     const startSequence = discoveryCursor ? parseInt(discoveryCursor.last_sequence) : 0;
@@ -183,14 +177,11 @@ router.get("/", async (req, res, next) => {
     let hasMore = false;
 
     try {
-      const txUrl = `${getRpcUrl()}/accounts/${q}/transactions?start=${startSequence}&limit=${batchSize}`;
-      const txRes = await fetch(txUrl);
-      if (txRes.ok) {
-        const txs = (await txRes.json()) as Array<{
-          sequence_number: string;
-          events?: Array<{ type: string }>;
-        }>;
-
+      // 404 = account not on chain yet, i.e. no transactions
+      const txs = await rpcGetOptional<
+        Array<{ sequence_number: string; events?: Array<{ type: string }> }>
+      >(network, `/accounts/${q}/transactions?start=${startSequence}&limit=${batchSize}`);
+      if (txs) {
         if (txs.length === batchSize) {
           hasMore = true; // More transactions to process
         }
@@ -206,7 +197,7 @@ router.get("/", async (req, res, next) => {
               const deploymentAddr = event.type.split("::")[0];
 
               // Verify it has the drips module
-              const hasModule = await hasXylkitModule(deploymentAddr);
+              const hasModule = await hasXylkitModule(network, deploymentAddr);
               if (hasModule) {
                 discoveredDeployments.add(deploymentAddr);
               }
@@ -219,7 +210,7 @@ router.get("/", async (req, res, next) => {
           .insertInto("sync_cursors")
           .values({
             deployment_address: q,
-            event_type: "user_discovery",
+            event_type: discoveryKey,
             last_sequence: lastSequence.toString(),
             updated_at: new Date().toISOString(),
           })
@@ -242,13 +233,13 @@ router.get("/", async (req, res, next) => {
     // Register discovered deployments
     for (const depAddr of discoveredDeployments) {
       // Use binary search to find deployment version
-      const deploymentVersion = await findDeploymentStartVersion(depAddr);
+      const deploymentVersion = await findDeploymentStartVersion(network, depAddr);
 
       await db
         .insertInto("deployments")
         .values({
           address: depAddr,
-          network: "movement-testnet",
+          network,
           first_seen_at: new Date().toISOString(),
         })
         .onConflict((oc) => oc.column("address").doNothing())
@@ -267,11 +258,15 @@ router.get("/", async (req, res, next) => {
         .execute();
 
       // Trigger background sync
-      runSync({ deployment: depAddr, limit: 5000 }).catch(() => {});
+      requestSync({ deployment: depAddr });
     }
 
-    // Get all known deployments to register user across them
-    const deployments = await db.selectFrom("deployments").select("address").execute();
+    // Get all known deployments on this network to register user across them
+    const deployments = await db
+      .selectFrom("deployments")
+      .select("address")
+      .where("network", "=", network)
+      .execute();
 
     // Only register and sync if deployments exist
     if (deployments.length > 0) {
@@ -290,13 +285,18 @@ router.get("/", async (req, res, next) => {
           .execute();
       }
 
-      // Trigger background sync with user priority
-      runSync({ user: q }).catch(() => {});
+      // Trigger background syncs of every deployment the user is registered on.
+      // Full syncs - an account-filtered sync still advances the cursor past
+      // other accounts' events.
+      for (const dep of deployments) {
+        requestSync({ deployment: dep.address });
+      }
     }
 
     return res.json({
       type: "user",
       address: q,
+      network,
       deploymentsDiscovered: discoveredDeployments.size,
       discoveryProgress: {
         processed: lastSequence,
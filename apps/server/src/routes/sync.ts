@@ -1,36 +1,62 @@
 import express from "express";
-import { getSyncStatus, syncAll, syncDeployment } from "../indexer/sync.js";
+import { getDb } from "../database/connection.js";
+import { getSyncLeaseHolder } from "../indexer/lock.js";
+import { getReindexStatus, isReindexing, reindexDeployment } from "../indexer/reindex.js";
+import {
+  enqueueSync,
+  getQueueCounts,
+  getSyncJob,
+  listSyncJobs,
+  type SyncJobStatus,
+} from "../indexer/queue.js";
+import { getSyncStatus } from "../indexer/sync.js";
 import { calcAccountId } from "../utils/account.js";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors.js";
+import { resolveNetworkId } from "../utils/network.js";
 
 const router = express.Router();
 
 /**
  * POST /sync
- * Trigger indexing (with 30s cooldown unless force=true)
+ * Queue indexing jobs (with 30s cooldown unless force=true) - responds 202
+ * with the job; poll GET /sync/jobs/:id for progress. A deployment with a
+ * job already queued or running gets that job back instead of a second one.
  *
  * Body:
  *   deployment?: string  - Specific deployment
- *   user?: string        - Priority sync for user's account
+ *   user?: string        - Wallet the sync is for (recorded on the job; the
+ *                          whole deployment is synced)
  *   all?: boolean        - Sync all deployments
+ *   network?: string     - Limit `all` / the default pick to one network
  *   force?: boolean      - Skip cooldown
  */
 router.post("/", async (req, res, next) => {
   try {
     const { deployment, user, all, force } = req.body;
+    const network = req.body.network ? resolveNetworkId(req.body.network) : undefined;
+    const db = getDb();
 
     if (all) {
-      const results = await syncAll(force);
-      const processed = results.reduce((sum, r) => sum + r.eventsProcessed, 0);
-      const skipped = results.filter((r) => r.skipped).length;
-      return res.json({ success: true, results, totalEvents: processed, skipped });
+      let query = db.selectFrom("deployments").select("address");
+      if (network) {
+        query = query.where("network", "=", network);
+      }
+      const deployments = await query.execute();
+      const jobs = [];
+      for (const dep of deployments) {
+        jobs.push(await enqueueSync({ deployment: dep.address, force, source: "api" }));
+      }
+      return res.status(202).json({ success: true, jobs });
     }
 
     // If no deployment specified, get first from DB
     let targetDeployment = deployment;
     if (!targetDeployment) {
-      const { getDb } = await import("../database/connection.js");
-      const db = getDb();
-      const first = await db.selectFrom("deployments").select("address").executeTakeFirst();
+      let query = db.selectFrom("deployments").select("address");
+      if (network) {
+        query = query.where("network", "=", network);
+      }
+      const first = await query.executeTakeFirst();
       targetDeployment = first?.address;
     }
 
@@ -42,14 +68,126 @@ router.post("/", async (req, res, next) => {
     }
 
     const accountId = user ? calcAccountId(user).toString() : undefined;
-    const result = await syncDeployment({ deployment: targetDeployment, accountId, force });
+    const job = await enqueueSync({
+      deployment: targetDeployment,
+      network,
+      accountId,
+      force,
+      source: "api",
+    });
+
+    res.status(202).json({ success: true, job });
+  } catch (err) {
+    next(err);
+  }
+});
 
-    res.json({ success: true, ...result });
+/**
+ * GET /sync/jobs?deployment=0x...&status=running&limit=50
+ * Recent sync jobs, newest first, with queue totals across instances
+ */
+router.get("/jobs", async (req, res, next) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !["queued", "running", "done", "failed"].includes(status)) {
+      throw new ValidationError("status must be queued, running, done or failed");
+    }
+    const limit = Math.min(parseInt((req.query.limit as string) || "50", 10) || 50, 200);
+
+    const [jobs, counts] = await Promise.all([
+      listSyncJobs({
+        deployment: req.query.deployment as string | undefined,
+        status: status as SyncJobStatus | undefined,
+        limit,
+      }),
+      getQueueCounts(),
+    ]);
+    res.json({ jobs, ...counts });
   } catch (err) {
     next(err);
   }
 });
 
+/**
+ * GET /sync/jobs/:id
+ */
+router.get("/jobs/:id", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (Number.isNaN(id)) {
+      throw new ValidationError("Job id must be a number");
+    }
+    const job = await getSyncJob(id);
+    if (!job) {
+      throw new NotFoundError("Sync job not found", { id });
+    }
+    res.json(job);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /sync/reindex
+ * Rebuild a deployment's streams, splits, accounts and metadata from the
+ * stored events (no chain scan). Runs in the background - poll
+ * GET /sync/reindex for progress.
+ *
+ * Body:
+ *   deployment: string    - Deployment to rebuild
+ *   fromVersion?: number  - Only replay events from this transaction version
+ */
+router.post("/reindex", async (req, res, next) => {
+  try {
+    const { deployment } = req.body;
+    if (!deployment) {
+      throw new ValidationError("deployment is required");
+    }
+
+    const fromVersion =
+      req.body.fromVersion !== undefined ? Number(req.body.fromVersion) : undefined;
+    if (fromVersion !== undefined && !Number.isInteger(fromVersion)) {
+      throw new ValidationError("fromVersion must be an integer", {
+        fromVersion: req.body.fromVersion,
+      });
+    }
+
+    const db = getDb();
+    const known = await db
+      .selectFrom("deployments")
+      .select("address")
+      .where("address", "=", deployment)
+      .executeTakeFirst();
+    if (!known) {
+      throw new NotFoundError("Deployment not found", { deployment });
+    }
+    if (await isReindexing(deployment)) {
+      throw new ConflictError("Reindex already running", { deployment });
+    }
+    const holder = await getSyncLeaseHolder(deployment);
+    if (holder) {
+      throw new ConflictError("Deployment is being synced", { deployment, holder });
+    }
+
+    reindexDeployment({ deployment, fromVersion }).catch((err) =>
+      console.error(`[Reindex] ${deployment} failed:`, err)
+    );
+
+    res.status(202).json({ success: true, progress: getReindexStatus(deployment)[0] });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /sync/reindex
+ * Progress of the latest reindex per deployment (optionally ?deployment=)
+ */
+router.get("/reindex", (req, res) => {
+  const deployment = req.query.deployment as string | undefined;
+  res.json({ reindex: getReindexStatus(deployment) });
+});
+
 /**
  * GET /sync/status
  * Cheap freshness check for UI
@@ -58,12 +196,14 @@ router.post("/", async (req, res, next) => {
 router.get("/status", async (req, res, next) => {
   try {
     const deployment = req.query.deployment as string | undefined;
-    const status = await getSyncStatus(deployment);
+    const [status, queue] = await Promise.all([getSyncStatus(deployment), getQueueCounts()]);
 
     res.json({
       status,
-      // Helper for UI: is any deployment stale (>30s)?
-      anyStale: status.some((s) => s.ageMs > 30_000),
+      queue,
+      // Helper for UI: is any deployment stale (>30s) or failing to sync?
+      anyStale: status.some((s) => s.ageMs === null || s.ageMs > 30_000),
+      anyFailing: status.some((s) => s.failing),
     });
   } catch (err) {
     next(err);
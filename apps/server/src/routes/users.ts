@@ -1,36 +1,64 @@
 import express from "express";
 import { getDb } from "../database/connection.js";
-import { calcAccountId } from "../utils/account.js";
-import { formatRate } from "../utils/token.js";
-
-// Format duration in seconds to human readable
-function formatDuration(seconds: number): string {
-  if (seconds < 60) return `${seconds}s`;
-  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
-  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
-  return `${Math.round(seconds / 86400)}d`;
+import { getAccountBalances } from "../accounting/balances.js";
+import {
+  describeStream,
+  fundedUntil,
+  getStreamLifecycle,
+  liveStreams,
+} from "../accounting/lifecycle.js";
+import { streamLiveFeed, toActivityEvents } from "../indexer/feed.js";
+import { listSyncJobs } from "../indexer/queue.js";
+import { getSyncStatus } from "../indexer/sync.js";
+import { EventQuerySchema } from "../types/index.js";
+import { calcAccountId, eventAccountIds } from "../utils/account.js";
+import { ValidationError } from "../utils/errors.js";
+import { queryEvents } from "../utils/events.js";
+import { getNetworkName, resolveNetworkId } from "../utils/network.js";
+import { formatAmount, formatRate } from "../utils/token.js";
+
+// Join non-zero per-token amounts into one display string, "0" if all are zero
+function joinAmounts<K extends string>(
+  balances: Array<Record<K, string> & { tokenSymbol: string }>,
+  field: K
+): string {
+  return (
+    balances
+      .filter((b) => b[field] !== "0")
+      .map((b) => `${b[field]} ${b.tokenSymbol}`)
+      .join(", ") || "0"
+  );
 }
 
 const router = express.Router();
 
 // GET /users/:address - User across all deployments
 // Returns data formatted for UI: per-deployment balances, incoming streams, splits
+// ?network=movement-testnet limits the result to deployments on one network
 router.get("/:address", async (req, res, next) => {
   try {
     const db = getDb();
     const { address } = req.params;
+    const network = req.query.network
+      ? resolveNetworkId(req.query.network as string)
+      : undefined;
 
     // Calculate account ID for AddressDriver
     const accountId = calcAccountId(address).toString();
 
     // Find all accounts matching this wallet address or account ID
-    const accounts = await db
+    let accountsQuery = db
       .selectFrom("accounts")
       .selectAll()
       .where((eb) =>
         eb.or([eb("wallet_address", "=", address), eb("account_id", "=", accountId)])
-      )
-      .execute();
+      );
+    if (network) {
+      accountsQuery = accountsQuery.where("deployment_address", "in", (eb) =>
+        eb.selectFrom("deployments").select("address").where("network", "=", network)
+      );
+    }
+    const accounts = await accountsQuery.execute();
 
     if (accounts.length === 0) {
       return res.json({
@@ -58,7 +86,7 @@ router.get("/:address", async (req, res, next) => {
           .selectAll()
           .where("deployment_address", "=", account.deployment_address)
           .where("receiver_id", "=", account.account_id)
-          .where("active", "=", 1)
+          .where(liveStreams())
           .execute();
 
         // Get outgoing streams (where user is sender)
@@ -67,7 +95,7 @@ router.get("/:address", async (req, res, next) => {
           .selectAll()
           .where("deployment_address", "=", account.deployment_address)
           .where("sender_id", "=", account.account_id)
-          .where("active", "=", 1)
+          .where(liveStreams())
           .execute();
 
         // Get splits config
@@ -78,10 +106,26 @@ router.get("/:address", async (req, res, next) => {
           .where("account_id", "=", account.account_id)
           .execute();
 
+        // Sender side per token, from the latest StreamsSet of each
+        const streamsStates = await db
+          .selectFrom("streams_states")
+          .select(["fa_metadata", "max_end"])
+          .where("deployment_address", "=", account.deployment_address)
+          .where("account_id", "=", account.account_id)
+          .execute();
+        const maxEnds = new Map(streamsStates.map((s) => [s.fa_metadata, s.max_end]));
+
+        // Per-token balances from drips view functions (ledger replay as fallback)
+        const streamBalances = await getAccountBalances(
+          account.deployment_address,
+          account.account_id
+        );
+
         // Get all unique token addresses from streams
         const tokenAddresses = new Set<string>();
         incomingStreams.forEach((s) => tokenAddresses.add(s.fa_metadata));
         outgoingStreams.forEach((s) => tokenAddresses.add(s.fa_metadata));
+        streamBalances.forEach((b) => tokenAddresses.add(b.faMetadata));
 
         // Fetch all token metadata in one query
         const tokensData = await db
@@ -101,11 +145,15 @@ router.get("/:address", async (req, res, next) => {
           const decimals = tokenMeta?.decimals || 8;
           const symbol = tokenMeta?.symbol || "TOKEN";
           const rateInfo = formatRate(s.amt_per_sec, decimals);
+          const lifecycle = getStreamLifecycle(s);
           return {
             from: s.sender_id,
+            faMetadata: s.fa_metadata,
             rate: rateInfo.value,
             rateUnit: rateInfo.unit,
             streamId: s.stream_id,
+            status: lifecycle.status,
+            durationText: describeStream(lifecycle),
             tokenSymbol: symbol,
           };
         });
@@ -116,39 +164,40 @@ router.get("/:address", async (req, res, next) => {
           const decimals = tokenMeta?.decimals || 8;
           const symbol = tokenMeta?.symbol || "TOKEN";
           const rateInfo = formatRate(s.amt_per_sec, decimals);
-          const now = Math.floor(Date.now() / 1000);
-          // Use created_at timestamp if start_time is 0
-          const createdAtTs = s.created_at
-            ? Math.floor(new Date(s.created_at).getTime() / 1000)
-            : now;
-          const startTime = s.start_time || createdAtTs;
-          const endTime = s.duration > 0 ? startTime + s.duration : 0;
-
-          let durationText: string;
-          if (!s.active) {
-            const stoppedAt = s.updated_at
-              ? Math.floor(new Date(s.updated_at).getTime() / 1000)
-              : now;
-            const ranFor = stoppedAt - startTime;
-            durationText = ranFor > 0 ? formatDuration(ranFor) + " (stopped)" : "stopped";
-          } else if (endTime > 0 && endTime > now) {
-            durationText = formatDuration(endTime - now) + " left";
-          } else {
-            const runningFor = now - startTime;
-            durationText =
-              runningFor > 60 ? formatDuration(runningFor) + " running" : "ongoing";
-          }
-
+          const lifecycle = getStreamLifecycle(s);
           return {
             to: s.receiver_id,
+            faMetadata: s.fa_metadata,
             rate: rateInfo.value,
             rateUnit: rateInfo.unit,
             streamId: s.stream_id,
-            durationText,
+            status: lifecycle.status,
+            durationText: describeStream(lifecycle),
             tokenSymbol: symbol,
           };
         });
 
+        // Format per-token stream balances for UI
+        const balances = streamBalances.map((b) => {
+          const tokenMeta = tokensMap.get(b.faMetadata);
+          const decimals = tokenMeta?.decimals || 8;
+          const maxEnd = maxEnds.get(b.faMetadata);
+          const until = maxEnd ? fundedUntil(maxEnd) : null;
+          return {
+            faMetadata: b.faMetadata,
+            tokenSymbol: tokenMeta?.symbol || "TOKEN",
+            splittable: formatAmount(b.splittable ?? "0", decimals),
+            collectable: formatAmount(b.collectable ?? "0", decimals),
+            streamed: formatAmount(b.streamed, decimals),
+            remaining: formatAmount(b.streamsBalance, decimals),
+            streamedIn: formatAmount(b.streamedIn, decimals),
+            receivable: formatAmount(b.receivable, decimals),
+            squeezable: formatAmount(b.squeezable, decimals),
+            // When the outgoing streams of this token run out of funds
+            fundedUntil: until !== null ? new Date(until * 1000).toISOString() : null,
+          };
+        });
+
         // Format splits for UI
         const splitsFormatted = splits.map((s) => ({
           to: s.receiver_id,
@@ -159,14 +208,15 @@ router.get("/:address", async (req, res, next) => {
         return {
           address: account.deployment_address,
           network: deployment?.network || "Unknown",
+          networkName: deployment ? getNetworkName(deployment.network) : "Unknown",
           accountId: account.account_id,
           driverType: account.driver_type,
           driverName: account.driver_name, // Send actual driver name
-          // Balances - these would need to be fetched from chain in real implementation
-          // For now, return placeholders that UI can display
-          splittable: "0",
-          collectable: "0",
-          streaming: "0",
+          // Per-token totals joined for display, e.g. "12.5 MOVE, 3 USDC"
+          splittable: joinAmounts(balances, "splittable"),
+          collectable: joinAmounts(balances, "collectable"),
+          streaming: joinAmounts(balances, "remaining"),
+          streamBalances: balances,
           incoming,
           outgoing,
           splits: splitsFormatted,
@@ -184,6 +234,96 @@ router.get("/:address", async (req, res, next) => {
   }
 });
 
+/**
+ * GET /users/:address/events - Events involving the wallet's accounts, across
+ * deployments. Takes the same filters and cursor as /deployments/:address/events,
+ * plus ?network= and ?deployment=
+ */
+router.get("/:address/events", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address } = req.params;
+    const query = EventQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw new ValidationError("Invalid event query", query.error.flatten().fieldErrors);
+    }
+    const accountId = calcAccountId(address).toString();
+
+    const accounts = await db
+      .selectFrom("accounts")
+      .select("account_id")
+      .where("wallet_address", "=", address)
+      .execute();
+    const accountIds = [...new Set([accountId, ...accounts.map((a) => a.account_id)])];
+
+    let deployments: string[] | undefined;
+    if (req.query.deployment) {
+      deployments = [req.query.deployment as string];
+    } else if (req.query.network) {
+      const rows = await db
+        .selectFrom("deployments")
+        .select("address")
+        .where("network", "=", resolveNetworkId(req.query.network as string))
+        .execute();
+      deployments = rows.map((d) => d.address);
+    }
+
+    const { events, nextCursor } = await queryEvents({ deployments, accountIds }, query.data);
+    if (nextCursor) res.setHeader("X-Next-Cursor", nextCursor);
+    res.json(await toActivityEvents(events));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /users/:address/events/stream
+ * Server-Sent Events for one wallet across deployments: `indexed` for events
+ * its accounts emit or are named in, `sync` with the sync status and latest
+ * job of each deployment it appears in
+ */
+router.get("/:address/events/stream", async (req, res, next) => {
+  try {
+    const db = getDb();
+    const { address } = req.params;
+    const accountId = calcAccountId(address).toString();
+
+    // Re-read on every update - the first sync of a deployment adds accounts
+    const userAccounts = () =>
+      db
+        .selectFrom("accounts")
+        .select(["deployment_address", "account_id"])
+        .where((eb) =>
+          eb.or([eb("wallet_address", "=", address), eb("account_id", "=", accountId)])
+        )
+        .execute();
+
+    await streamLiveFeed(req, res, {
+      filter: async (events) => {
+        const ids = new Set([accountId, ...(await userAccounts()).map((a) => a.account_id)]);
+        return events.filter((e) => eventAccountIds(e.data).some((id) => ids.has(id)));
+      },
+      syncState: async () => {
+        const deployments = [...new Set((await userAccounts()).map((a) => a.deployment_address))];
+        const status = await Promise.all(
+          deployments.map(async (deployment) => {
+            const [[sync], [job]] = await Promise.all([
+              getSyncStatus(deployment),
+              listSyncJobs({ deployment, limit: 1 }),
+            ]);
+            if (!sync) return null;
+            const { ageMs: _ageMs, ...rest } = sync;
+            return { ...rest, job: job ?? null };
+          })
+        );
+        return { status: status.filter((s) => s !== null) };
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // GET /users/:address/deployments - Which deployments user appears in
 router.get("/:address/deployments", async (req, res, next) => {
   try {
@@ -215,6 +355,7 @@ router.get("/:address/deployments", async (req, res, next) => {
       deployments.map((d) => ({
         address: d.address,
         network: d.network,
+        networkName: getNetworkName(d.network),
         firstSeenAt: d.first_seen_at,
       }))
     );
@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import express from "express";
+import { WebhookSchema } from "../types/index.js";
+import { UnauthorizedError, ValidationError } from "../utils/errors.js";
+import {
+  listDeliveries,
+  redeliver,
+  replayWebhook,
+  type DeliveryStatus,
+} from "../webhooks/deliveries.js";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  listWebhooks,
+  updateWebhook,
+} from "../webhooks/subscriptions.js";
+
+const router = express.Router();
+
+/**
+ * Webhooks make the server POST to URLs it is given - every route here needs
+ * `Authorization: Bearer <WEBHOOK_ADMIN_TOKEN>`, and they stay closed while no
+ * token is configured
+ */
+router.use((req, _res, next) => {
+  const token = process.env.WEBHOOK_ADMIN_TOKEN;
+  if (!token) {
+    return next(
+      new UnauthorizedError("Webhooks are disabled - WEBHOOK_ADMIN_TOKEN is not set")
+    );
+  }
+
+  const given = Buffer.from(req.headers.authorization?.replace(/^Bearer /, "") ?? "");
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return next(new UnauthorizedError("Missing or invalid webhook admin token"));
+  }
+  next();
+});
+
+function parseId(value: string, name = "id"): number {
+  const id = parseInt(value, 10);
+  if (Number.isNaN(id)) {
+    throw new ValidationError(`${name} must be a number`, { [name]: value });
+  }
+  return id;
+}
+
+/**
+ * POST /webhooks
+ * Register a URL for indexed events. Filters are optional and combine with AND.
+ * The response includes the signing `secret` - it is not shown again.
+ *
+ * Body:
+ *   url: string            - http(s) endpoint, receives a signed JSON POST per event
+ *   description?: string
+ *   deployment?: string    - Only events of this deployment
+ *   eventTypes?: string[]  - e.g. ["StreamsSet", "Collected"]
+ *   accountId?: string     - Events emitted by or naming this account
+ *   token?: string         - Events for this FA metadata address
+ *   active?: boolean
+ */
+router.post("/", async (req, res, next) => {
+  try {
+    const body = WebhookSchema.safeParse(req.body);
+    if (!body.success) {
+      throw new ValidationError("Invalid webhook", body.error.flatten().fieldErrors);
+    }
+    res.status(201).json(await createWebhook(body.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /webhooks - All registered webhooks (without secrets)
+router.get("/", async (_req, res, next) => {
+  try {
+    res.json(await listWebhooks());
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/:id", async (req, res, next) => {
+  try {
+    res.json(await getWebhook(parseId(req.params.id)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /webhooks/:id - Change url, filters or active; null clears a filter
+router.patch("/:id", async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id);
+    const body = WebhookSchema.partial().safeParse(req.body);
+    if (!body.success) {
+      throw new ValidationError("Invalid webhook", body.error.flatten().fieldErrors);
+    }
+    res.json(await updateWebhook(id, body.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /webhooks/:id - Remove the webhook and its delivery log
+router.delete("/:id", async (req, res, next) => {
+  try {
+    await deleteWebhook(parseId(req.params.id));
+    res.status(204).end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /webhooks/:id/deliveries?status=failed&limit=50
+ * Delivery log, newest first
+ */
+router.get("/:id/deliveries", async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id);
+    const status = req.query.status as string | undefined;
+    if (status && !["pending", "delivered", "failed"].includes(status)) {
+      throw new ValidationError("status must be pending, delivered or failed");
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    await getWebhook(id);
+    res.json(
+      await listDeliveries(id, { status: status as DeliveryStatus | undefined, limit })
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /webhooks/:id/deliveries/:deliveryId/redeliver - Send that event again
+router.post("/:id/deliveries/:deliveryId/redeliver", async (req, res, next) => {
+  try {
+    const delivery = await redeliver(
+      parseId(req.params.id),
+      parseId(req.params.deliveryId, "deliveryId")
+    );
+    res.status(202).json(delivery);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /webhooks/:id/replay
+ * Queue deliveries for every stored event the webhook matches in a version range
+ *
+ * Body:
+ *   fromVersion: number
+ *   toVersion?: number
+ */
+router.post("/:id/replay", async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id);
+    const fromVersion = Number(req.body.fromVersion);
+    const toVersion =
+      req.body.toVersion !== undefined ? Number(req.body.toVersion) : undefined;
+    if (
+      !Number.isInteger(fromVersion) ||
+      (toVersion !== undefined && !Number.isInteger(toVersion))
+    ) {
+      throw new ValidationError("fromVersion and toVersion must be integers", {
+        fromVersion: req.body.fromVersion,
+        toVersion: req.body.toVersion,
+      });
+    }
+    res.status(202).json(await replayWebhook(id, { fromVersion, toVersion }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -1,14 +1,18 @@
 import { z } from "zod";
 
 // Event types from contracts
-export type EventType =
-  | "StreamsSet"
-  | "SplitsSet"
-  | "Given"
-  | "Received"
-  | "Squeezed"
-  | "SplitExecuted"
-  | "Collected";
+export const EVENT_TYPES = [
+  "StreamsSet",
+  "SplitsSet",
+  "Given",
+  "Received",
+  "Squeezed",
+  "SplitExecuted",
+  "Collected",
+  "AccountMetadataEmitted",
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
 
 // API Response types
 export interface DeploymentResponse {
@@ -55,9 +59,21 @@ export interface EventResponse {
   accountId: string;
   data: Record<string, unknown>;
   txHash: string | null;
+  version: number | null;
+  eventIndex: number | null;
   timestamp: string;
 }
 
+export interface AccountMetadataEntry {
+  key: string;
+  value: string | null;
+  json: unknown | null;
+  hex: string;
+  version: number | null;
+  txHash: string | null;
+  updatedAt: string;
+}
+
 export interface UserDeploymentInfo {
   deploymentAddress: string;
   accountId: string;
@@ -76,7 +92,84 @@ export interface ErrorResponse {
 // Validation schemas
 export const AddressSchema = z.string().regex(/^0x[a-fA-F0-9]+$/, "Invalid hex address");
 
+/** Account ids are u256, written in decimal */
+export const AccountIdSchema = z
+  .string()
+  .regex(/^\d+$/, "Invalid account id")
+  .refine((id) => !/^\d+$/.test(id) || BigInt(id) < 2n ** 256n, "Account id exceeds u256");
+
+export const WebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//.test(url), "Must be an http(s) URL"),
+  description: z.string().max(200).nullish(),
+  deployment: AddressSchema.nullish(),
+  eventTypes: z.array(z.enum(EVENT_TYPES)).nullish(),
+  accountId: z.string().regex(/^\d+$/, "Invalid account id").nullish(),
+  token: AddressSchema.nullish(),
+  active: z.boolean().optional(),
+});
+
+// GET .../accounts/:accountId/squeeze query
+export const SqueezeQuerySchema = z.object({
+  sender: AccountIdSchema,
+  token: AddressSchema,
+});
+
 export const PaginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(50),
   offset: z.coerce.number().int().min(0).default(0),
 });
+
+// Comma-separated query param ("a,b") or repeated (?x=a&x=b) -> array
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+    z.array(item).min(1)
+  );
+
+/**
+ * GET .../events query. `cursor` (from X-Next-Cursor) pages by chain order
+ * and stays stable while new events arrive; `offset` is still accepted
+ */
+export const EventQuerySchema = PaginationSchema.extend({
+  offset: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().optional(),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  type: listParam(z.enum(EVENT_TYPES)).optional(),
+  accountId: z.string().regex(/^\d+$/, "Invalid account id").optional(),
+  token: AddressSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  fromVersion: z.coerce.number().int().min(0).optional(),
+  toVersion: z.coerce.number().int().min(0).optional(),
+}).refine((q) => q.cursor === undefined || q.offset === undefined, {
+  message: "Use either cursor or offset",
+  path: ["cursor"],
+});
+
+export type EventQuery = z.infer<typeof EventQuerySchema>;
+
+/** GET /deployments/:address/analytics query - defaults to the last 30 buckets */
+export const AnalyticsQuerySchema = z.object({
+  interval: z.enum(["hour", "day"]).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/** GET /deployments/:address/discrepancies query - open ones by default */
+export const DiscrepancyQuerySchema = z.object({
+  status: z.enum(["open", "resolved", "all"]).default("open"),
+  kind: z
+    .enum([
+      "splits_hash",
+      "streams_hash",
+      "history_hash",
+      "streams_balance",
+      "splits_balance",
+      "vault_balance",
+    ])
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
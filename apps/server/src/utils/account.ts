@@ -1,5 +1,11 @@
 // Account ID calculation utilities
 
+import { getDeploymentNetwork } from "./network.js";
+import { rpcView } from "./rpc.js";
+
+// Owner lookups run inside the sync's write transaction - one short attempt
+const NFT_OWNER_TIMEOUT_MS = 3_000;
+
 /**
  * Calculate account ID from wallet address for AddressDriver
  *
@@ -10,6 +16,16 @@ export function calcAccountId(address: string): bigint {
   return BigInt(address);
 }
 
+/**
+ * Every account id an event touches - the emitter plus senders / receivers
+ * named in its data (a StreamsSet lists its current receivers)
+ */
+export function eventAccountIds(data: Record<string, unknown>): string[] {
+  const ids: unknown[] = [data.account_id, data.sender_id, data.receiver_id];
+  if (Array.isArray(data.receiver_account_ids)) ids.push(...data.receiver_account_ids);
+  return ids.filter((id) => id !== undefined && id !== null).map(String);
+}
+
 /**
  * Extract wallet address from account ID (for AddressDriver accounts)
  *
@@ -51,28 +67,20 @@ export function getDriverTypeFromName(driverName: string | null | undefined): nu
 
 /**
  * Fetch NFT owner from chain (for NFTDriver accounts)
+ * Not retried: a slow node would hold up the batch, so a miss is null.
  */
 export async function fetchNftOwner(
   deploymentAddress: string,
   accountId: string
 ): Promise<string | null> {
-  const rpcUrl =
-    process.env.MOVEMENT_RPC_URL || "https://aptos.testnet.porto.movementlabs.xyz/v1";
-
   try {
-    const response = await fetch(`${rpcUrl}/view`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        function: `${deploymentAddress}::nft_driver::owner_of`,
-        type_arguments: [],
-        arguments: [accountId],
-      }),
-    });
-
-    if (!response.ok) return null;
-
-    const result = (await response.json()) as string[];
+    const result = await rpcView<string[]>(
+      await getDeploymentNetwork(deploymentAddress),
+      `${deploymentAddress}::nft_driver::owner_of`,
+      [accountId],
+      [],
+      { maxRetries: 0, timeoutMs: NFT_OWNER_TIMEOUT_MS }
+    );
     return result[0] || null;
   } catch {
     return null;
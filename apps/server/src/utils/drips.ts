@@ -0,0 +1,307 @@
+// Live balance lookups through the drips module's #[view] functions
+
+import type { StreamReceiver } from "../accounting/streams.js";
+import { getDeploymentNetwork } from "./network.js";
+import { rpcGetOptional, rpcView } from "./rpc.js";
+
+// Balances move every block - keep results just long enough to absorb a page load
+const VIEW_CACHE_TTL_MS = 10 * 1000;
+// balance_at keys on the current second, so every call can be a new entry
+const VIEW_CACHE_MAX_ENTRIES = 5_000;
+
+const MAX_U64 = "18446744073709551615";
+
+// Cached view results and in-flight calls, keyed by deployment + function + args
+const viewCache = new Map<string, { value: unknown; expiresAt: number }>();
+const inflight = new Map<string, Promise<unknown>>();
+
+function cacheView(key: string, value: unknown): void {
+  if (viewCache.size >= VIEW_CACHE_MAX_ENTRIES) {
+    const now = Date.now();
+    for (const [k, entry] of viewCache) {
+      if (entry.expiresAt <= now) viewCache.delete(k);
+    }
+    // Still full of live entries - drop the oldest (Maps keep insertion order)
+    if (viewCache.size >= VIEW_CACHE_MAX_ENTRIES) {
+      viewCache.delete(viewCache.keys().next().value!);
+    }
+  }
+  viewCache.set(key, { value, expiresAt: Date.now() + VIEW_CACHE_TTL_MS });
+}
+
+export interface StreamsStateView {
+  streamsHash: string;
+  historyHash: string;
+  updateTime: string;
+  balance: string;
+  maxEnd: string;
+}
+
+export interface ReceiveStreamsResultView {
+  receivedAmt: string;
+  receivableCycles: string;
+  fromCycle: string;
+  toCycle: string;
+  amtPerCycle: string; // Signed
+}
+
+/** Everything the chain reports for one (deployment, account, token) */
+export interface LiveAccountBalance {
+  faMetadata: string;
+  splittable: string | null;
+  collectable: string | null;
+  receivable: string | null;
+  receivableCycles: string | null;
+  streamsBalance: string | null; // balance_at now, null if receivers unknown
+  streamsState: StreamsStateView | null;
+  fetchedAt: string;
+}
+
+/**
+ * Call `<deployment>::drips::<fn>` through the node's /view endpoint
+ * Returns null if the call fails (missing resource, abort, RPC down)
+ */
+async function callView<T extends unknown[]>(
+  deploymentAddress: string,
+  fn: string,
+  args: unknown[]
+): Promise<T | null> {
+  const key = `${deploymentAddress}:${fn}:${JSON.stringify(args)}`;
+
+  const cached = viewCache.get(key);
+  if (cached) {
+    if (cached.expiresAt > Date.now()) return cached.value as T;
+    viewCache.delete(key);
+  }
+
+  // Concurrent identical calls share one request
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T | null>;
+
+  const request = (async () => {
+    try {
+      const result = await rpcView<T>(
+        await getDeploymentNetwork(deploymentAddress),
+        `${deploymentAddress}::drips::${fn}`,
+        args
+      );
+      cacheView(key, result);
+      return result;
+    } catch {
+      return null;
+    } finally {
+      inflight.delete(key);
+    }
+  })();
+
+  inflight.set(key, request);
+  return request;
+}
+
+/** Decode a movemate I128 ({ bits }) into a signed decimal string */
+function decodeI128(value: { bits: string }): string {
+  const bits = BigInt(value.bits);
+  const signBit = 1n << 127n;
+  return (bits & signBit ? -(bits ^ signBit) : bits).toString();
+}
+
+export async function getSplittable(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string
+): Promise<string | null> {
+  const result = await callView<[string]>(deploymentAddress, "splittable", [
+    accountId,
+    faMetadata,
+  ]);
+  return result?.[0] ?? null;
+}
+
+export async function getCollectable(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string
+): Promise<string | null> {
+  const result = await callView<[string]>(deploymentAddress, "collectable", [
+    accountId,
+    faMetadata,
+  ]);
+  return result?.[0] ?? null;
+}
+
+export async function getReceivableStreamsCycles(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string
+): Promise<string | null> {
+  const result = await callView<[string]>(deploymentAddress, "receivable_streams_cycles", [
+    accountId,
+    faMetadata,
+  ]);
+  return result?.[0] ?? null;
+}
+
+/** `receive_streams_result` - defaults to processing every receivable cycle */
+export async function getReceiveStreamsResult(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string,
+  maxCycles = MAX_U64
+): Promise<ReceiveStreamsResultView | null> {
+  const result = await callView<[string, string, string, string, { bits: string }]>(
+    deploymentAddress,
+    "receive_streams_result",
+    [accountId, faMetadata, maxCycles]
+  );
+  if (!result) return null;
+
+  const [receivedAmt, receivableCycles, fromCycle, toCycle, amtPerCycle] = result;
+  return {
+    receivedAmt,
+    receivableCycles,
+    fromCycle,
+    toCycle,
+    amtPerCycle: decodeI128(amtPerCycle),
+  };
+}
+
+export async function getStreamsState(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string
+): Promise<StreamsStateView | null> {
+  const result = await callView<[string, string, string, string, string]>(
+    deploymentAddress,
+    "streams_state",
+    [accountId, faMetadata]
+  );
+  if (!result) return null;
+
+  const [streamsHash, historyHash, updateTime, balance, maxEnd] = result;
+  return { streamsHash, historyHash, updateTime, balance, maxEnd };
+}
+
+/** `splits_hash` - empty ("0x") while the account has no splits receivers */
+export async function getSplitsHash(
+  deploymentAddress: string,
+  accountId: string
+): Promise<string | null> {
+  const result = await callView<[string]>(deploymentAddress, "splits_hash", [accountId]);
+  return result?.[0] ?? null;
+}
+
+/**
+ * `balance_at` - the receivers must be the sender's current list,
+ * otherwise the contract aborts and this returns null
+ */
+export async function getBalanceAt(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string,
+  receivers: StreamReceiver[],
+  timestamp: bigint
+): Promise<string | null> {
+  const result = await callView<[string]>(deploymentAddress, "balance_at", [
+    accountId,
+    faMetadata,
+    receivers.map((r) => r.accountId.toString()),
+    receivers.map((r) => r.config.streamId.toString()),
+    receivers.map((r) => r.config.amtPerSec.toString()),
+    receivers.map((r) => r.config.start.toString()),
+    receivers.map((r) => r.config.duration.toString()),
+    timestamp.toString(),
+  ]);
+  return result?.[0] ?? null;
+}
+
+/**
+ * Total (streams, splits) balances of a token held by the deployment
+ * `balances` is public but not marked #[view] on every deployment, so this
+ * may be null
+ */
+export async function getDripsBalances(
+  deploymentAddress: string,
+  faMetadata: string
+): Promise<{ streams: string; splits: string } | null> {
+  const result = await callView<[string, string]>(deploymentAddress, "balances", [
+    faMetadata,
+  ]);
+  if (!result) return null;
+  return { streams: result[0], splits: result[1] };
+}
+
+/**
+ * What the deployment's vault actually holds of a token
+ * The vault is a resource account whose address `DripsStorage` keeps; anything
+ * above `balances` there is surplus the contract lets anyone withdraw.
+ */
+export async function getVaultBalance(
+  deploymentAddress: string,
+  faMetadata: string
+): Promise<string | null> {
+  try {
+    const network = await getDeploymentNetwork(deploymentAddress);
+    const storage = await rpcGetOptional<{ data: { vault_address: string } }>(
+      network,
+      `/accounts/${deploymentAddress}/resource/${deploymentAddress}::drips::DripsStorage`
+    );
+    if (!storage) return null;
+    const [balance] = await rpcView<[string]>(
+      network,
+      "0x1::primary_fungible_store::balance",
+      [storage.data.vault_address, faMetadata],
+      ["0x1::fungible_asset::Metadata"]
+    );
+    return balance;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch every live balance for one account and token in parallel
+ *
+ * `receivers` is the sender's current receiver list (from the streams ledger);
+ * without it the streams balance falls back to the last snapshot in
+ * streams_state.
+ */
+export async function getLiveAccountBalance(
+  deploymentAddress: string,
+  accountId: string,
+  faMetadata: string,
+  receivers?: StreamReceiver[]
+): Promise<LiveAccountBalance> {
+  const [splittable, collectable, receivableCycles, receiveResult, streamsState] =
+    await Promise.all([
+      getSplittable(deploymentAddress, accountId, faMetadata),
+      getCollectable(deploymentAddress, accountId, faMetadata),
+      getReceivableStreamsCycles(deploymentAddress, accountId, faMetadata),
+      getReceiveStreamsResult(deploymentAddress, accountId, faMetadata),
+      getStreamsState(deploymentAddress, accountId, faMetadata),
+    ]);
+
+  let streamsBalance = streamsState?.balance ?? null;
+  if (streamsState && receivers && receivers.length > 0) {
+    // balance_at rejects timestamps before the last update
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const updateTime = BigInt(streamsState.updateTime);
+    streamsBalance = await getBalanceAt(
+      deploymentAddress,
+      accountId,
+      faMetadata,
+      receivers,
+      now > updateTime ? now : updateTime
+    );
+  }
+
+  return {
+    faMetadata,
+    splittable,
+    collectable,
+    receivable: receiveResult?.receivedAmt ?? null,
+    receivableCycles,
+    streamsBalance,
+    streamsState,
+    fetchedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,112 @@
+// Stored-event queries shared by the deployment and user activity routes
+
+import { sql, type Selectable, type SqlBool } from "kysely";
+import { getDb } from "../database/connection.js";
+import type { EventsTable } from "../database/schema.js";
+import type { EventQuery } from "../types/index.js";
+import { ValidationError } from "./errors.js";
+
+export interface EventScope {
+  deployments?: string[]; // Any of these deployments - all if unset
+  accountIds?: string[]; // Events any of these accounts emitted or is named in
+}
+
+// Chain order; events stored before versions were recorded sort first
+const VERSION = sql<number>`coalesce(transaction_version, -1)`;
+const INDEX = sql<number>`coalesce(event_index, -1)`;
+
+type Position = [version: number, index: number, id: number];
+
+function encodeCursor(row: Selectable<EventsTable>): string {
+  const position: Position = [row.transaction_version ?? -1, row.event_index ?? -1, row.id];
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Position {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(position) &&
+      position.length === 3 &&
+      position.every((n) => Number.isInteger(n))
+    ) {
+      return position as Position;
+    }
+  } catch {
+    /* fall through */
+  }
+  throw new ValidationError("Invalid cursor", { cursor });
+}
+
+/**
+ * Filtered page of events in chain order (newest first by default)
+ *
+ * Keyset pagination on (version, event index, id): a `nextCursor` keeps
+ * pointing at the same place while new events are indexed, unlike an offset.
+ * `nextCursor` is null on the last page.
+ */
+export async function queryEvents(
+  scope: EventScope,
+  query: EventQuery
+): Promise<{ events: Selectable<EventsTable>[]; nextCursor: string | null }> {
+  const desc = query.order === "desc";
+  let q = getDb().selectFrom("events").selectAll();
+
+  if (scope.deployments) {
+    if (scope.deployments.length === 0) return { events: [], nextCursor: null };
+    q = q.where("deployment_address", "in", scope.deployments);
+  }
+
+  // Accounts show up as the emitter (account_id) or as the counterparty
+  // inside the event data - sender_id, receiver_id, a StreamsSet's receivers
+  const accountIds = query.accountId
+    ? (scope.accountIds ?? [query.accountId]).filter((id) => id === query.accountId)
+    : scope.accountIds;
+  if (accountIds) {
+    if (accountIds.length === 0) return { events: [], nextCursor: null };
+    const ids = sql.join(accountIds);
+    q = q.where((eb) =>
+      eb.or([
+        eb("account_id", "in", accountIds),
+        sql<SqlBool>`json_extract(data, '$.sender_id') in (${ids})`,
+        sql<SqlBool>`json_extract(data, '$.receiver_id') in (${ids})`,
+        sql<SqlBool>`exists (select 1 from json_each(events.data, '$.receiver_account_ids') where value in (${ids}))`,
+      ])
+    );
+  }
+
+  if (query.type) q = q.where("event_type", "in", query.type);
+  if (query.token) {
+    q = q.where(sql`json_extract(data, '$.fa_metadata')`, "=", query.token);
+  }
+  if (query.from) q = q.where("timestamp", ">=", query.from.toISOString());
+  if (query.to) q = q.where("timestamp", "<=", query.to.toISOString());
+  if (query.fromVersion !== undefined) {
+    q = q.where("transaction_version", ">=", query.fromVersion);
+  }
+  if (query.toVersion !== undefined) {
+    q = q.where("transaction_version", "<=", query.toVersion);
+  }
+
+  if (query.cursor) {
+    const [version, index, id] = decodeCursor(query.cursor);
+    q = q.where(
+      sql<SqlBool>`(${VERSION}, ${INDEX}, id) ${sql.raw(desc ? "<" : ">")} (${version}, ${index}, ${id})`
+    );
+  }
+
+  const direction = desc ? "desc" : "asc";
+  const rows = await q
+    .orderBy(VERSION, direction)
+    .orderBy(INDEX, direction)
+    .orderBy("id", direction)
+    .limit(query.limit + 1)
+    .offset(query.offset ?? 0)
+    .execute();
+
+  const events = rows.slice(0, query.limit);
+  return {
+    events,
+    nextCursor: rows.length > query.limit ? encodeCursor(events[events.length - 1]) : null,
+  };
+}
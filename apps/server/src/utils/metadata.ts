@@ -0,0 +1,44 @@
+// Account metadata decoding utilities
+
+export interface DecodedMetadataBytes {
+  hex: string; // Raw bytes as emitted, 0x-prefixed
+  text: string | null; // UTF-8 string, or null if the bytes are not valid UTF-8
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Decode a Move `vector<u8>` from event data
+ *
+ * The node serializes byte vectors as 0x-prefixed hex strings.
+ */
+export function decodeMetadataBytes(hex: string): DecodedMetadataBytes {
+  const normalized = hex.startsWith("0x") ? hex : `0x${hex}`;
+  const body = normalized.slice(2);
+
+  if (body.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(body)) {
+    return { hex: normalized, text: null };
+  }
+
+  try {
+    const text = utf8.decode(Buffer.from(body, "hex"));
+    return { hex: normalized, text };
+  } catch {
+    return { hex: normalized, text: null };
+  }
+}
+
+/**
+ * Parse a metadata value as JSON when possible
+ * Only objects and arrays count - plain strings like "Alice" stay text
+ */
+export function parseMetadataJson(text: string | null): unknown | null {
+  if (!text) return null;
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return null;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+}
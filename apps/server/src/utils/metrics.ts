@@ -0,0 +1,303 @@
+// Prometheus metrics - in-process registry rendered in the text exposition format
+
+import type { RequestHandler } from "express";
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+const registry = new Map<string, Metric>();
+
+// Default buckets (seconds) - fine for HTTP and single RPC calls
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(String(v))}"`).join(",")}}`;
+}
+
+/** Series key - label values in declaration order */
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? "")));
+}
+
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? ""]));
+}
+
+function register<T extends Metric>(metric: T): T {
+  if (registry.has(metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+  remove(labels: Labels): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  /** Start a timer - call the returned function to record the elapsed seconds */
+  startTimer(labels?: Labels): (extra?: Labels) => void;
+}
+
+export function counter(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = []
+): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      const entry = series.get(key) ?? { labels: pickLabels(labelNames, labels), value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+export function gauge(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = []
+): Gauge {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name,
+    help,
+    type: "gauge",
+    render: () =>
+      [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    set(labels, value) {
+      series.set(seriesKey(labelNames, labels), {
+        labels: pickLabels(labelNames, labels),
+        value,
+      });
+    },
+    remove(labels) {
+      series.delete(seriesKey(labelNames, labels));
+    },
+  };
+}
+
+export function histogram(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = [],
+  buckets: readonly number[] = DEFAULT_BUCKETS
+): Histogram {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  register({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap((s) => [
+        ...buckets.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...s.labels, le })} ${s.counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${s.sum}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+
+  const observe = (labels: Labels, value: number) => {
+    const key = seriesKey(labelNames, labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = {
+        labels: pickLabels(labelNames, labels),
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      series.set(key, entry);
+    }
+    // Buckets are cumulative
+    buckets.forEach((le, i) => {
+      if (value <= le) entry!.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  };
+
+  return {
+    observe,
+    startTimer(labels = {}) {
+      const start = process.hrtime.bigint();
+      return (extra = {}) =>
+        observe({ ...labels, ...extra }, Number(process.hrtime.bigint() - start) / 1e9);
+    },
+  };
+}
+
+/** Every registered metric in the Prometheus text format */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join("\n") + "\n";
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// ---------------------------------------------------------------------------
+// Indexer
+
+export const syncCursorVersion = gauge(
+  "xylkit_sync_cursor_version",
+  "Last transaction version scanned for the deployment",
+  ["deployment", "network"]
+);
+
+export const chainTipVersion = gauge(
+  "xylkit_chain_tip_version",
+  "Ledger version reported by the node at the last sync",
+  ["network"]
+);
+
+export const syncLagVersions = gauge(
+  "xylkit_sync_lag_versions",
+  "Transaction versions between the deployment's cursor and the chain tip",
+  ["deployment", "network"]
+);
+
+export const syncLagSeconds = gauge(
+  "xylkit_sync_lag_seconds",
+  "Chain time between the last scanned transaction and the chain tip",
+  ["deployment", "network"]
+);
+
+export const eventsProcessed = counter(
+  "xylkit_events_processed_total",
+  "Drips events stored and applied, by event type",
+  ["deployment", "type"]
+);
+
+export const syncDuration = histogram(
+  "xylkit_sync_duration_seconds",
+  "Duration of one syncDeployment batch",
+  ["deployment", "outcome"],
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+export const syncFailures = counter(
+  "xylkit_sync_failures_total",
+  "Sync batches that failed before committing",
+  ["deployment"]
+);
+
+// ---------------------------------------------------------------------------
+// RPC
+
+export const rpcRequests = counter(
+  "xylkit_rpc_requests_total",
+  'Fullnode requests by endpoint and HTTP status ("error" for timeouts and connection errors)',
+  ["network", "endpoint", "status"]
+);
+
+export const rpcErrors = counter(
+  "xylkit_rpc_errors_total",
+  "RPC calls that failed after all retries",
+  ["network", "endpoint"]
+);
+
+export const rpcDuration = histogram(
+  "xylkit_rpc_request_duration_seconds",
+  "Latency of single fullnode requests",
+  ["network", "endpoint"]
+);
+
+/**
+ * Low-cardinality label for a node path - addresses, resource types and
+ * query strings are dropped
+ */
+export function rpcEndpointLabel(path: string): string {
+  const segments = path
+    .split("?")[0]
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (/^(0x[0-9a-f]+|\d+)$/i.test(segment) ? ":id" : segment));
+  // /accounts/:id/resource/<type> and /module/<name> - keep the kind only
+  if (segments[0] === "accounts") segments.splice(3);
+  return `/${segments.join("/")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Prices
+
+export const priceFetchFailures = counter(
+  "xylkit_price_fetch_failures_total",
+  "CoinGecko price lookups that failed and fell back to the cached price",
+  ["token"]
+);
+
+// ---------------------------------------------------------------------------
+// Webhooks
+
+export const webhookDeliveries = counter(
+  "xylkit_webhook_deliveries_total",
+  "Webhook delivery attempts by outcome (delivered, retry, failed)",
+  ["outcome"]
+);
+
+// ---------------------------------------------------------------------------
+// HTTP API
+
+export const httpDuration = histogram(
+  "xylkit_http_request_duration_seconds",
+  "API request latency by route",
+  ["method", "route", "status"]
+);
+
+/**
+ * Times every request against its matched route pattern
+ * (`/deployments/:address/streams`), so ids don't become label values
+ */
+export function httpMetrics(): RequestHandler {
+  return (req, res, next) => {
+    const done = httpDuration.startTimer({ method: req.method });
+    res.on("finish", () => {
+      const route = req.route?.path
+        ? `${req.baseUrl}${req.route.path}`.replace(/(.)\/$/, "$1")
+        : "unmatched";
+      done({ route, status: res.statusCode });
+    });
+    next();
+  };
+}
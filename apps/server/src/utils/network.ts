@@ -0,0 +1,132 @@
+// Network registry - which chains the indexer can talk to and how
+
+import { getDb } from "../database/connection.js";
+import { NotFoundError, ValidationError } from "./errors.js";
+
+export interface NetworkConfig {
+  id: string; // Stored in deployments.network
+  name: string; // Display name
+  rpcUrl: string; // Primary fullnode REST endpoint, including /v1
+  rpcUrls: string[]; // All configured endpoints, tried in order on failure
+}
+
+/**
+ * Built-in networks, RPC URLs overridable from the environment
+ * Each variable takes a comma-separated list of endpoints for failover
+ *
+ * - movement-mainnet  MOVEMENT_MAINNET_RPC_URL
+ * - movement-testnet  MOVEMENT_RPC_URL (kept for existing setups)
+ * - local             LOCAL_RPC_URL (a local devnet node)
+ * - custom            CUSTOM_RPC_URL + CUSTOM_NETWORK_NAME, only when set
+ */
+function buildRegistry(): NetworkConfig[] {
+  const networks: NetworkConfig[] = [
+    network(
+      "movement-mainnet",
+      "Movement Mainnet",
+      process.env.MOVEMENT_MAINNET_RPC_URL || "https://mainnet.movementnetwork.xyz/v1"
+    ),
+    network(
+      "movement-testnet",
+      "Movement Testnet",
+      process.env.MOVEMENT_RPC_URL || "https://aptos.testnet.porto.movementlabs.xyz/v1"
+    ),
+    network("local", "Local Devnet", process.env.LOCAL_RPC_URL || "http://127.0.0.1:8080/v1"),
+  ];
+
+  if (process.env.CUSTOM_RPC_URL) {
+    networks.push(
+      network("custom", process.env.CUSTOM_NETWORK_NAME || "Custom", process.env.CUSTOM_RPC_URL)
+    );
+  }
+
+  return networks;
+}
+
+function network(id: string, name: string, urls: string): NetworkConfig {
+  const rpcUrls = urls
+    .split(",")
+    .map((url) => url.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return { id, name, rpcUrl: rpcUrls[0], rpcUrls };
+}
+
+// Short names accepted in query params and the CLI
+const ALIASES: Record<string, string> = {
+  mainnet: "movement-mainnet",
+  testnet: "movement-testnet",
+  devnet: "local",
+  localnet: "local",
+};
+
+// deployments.network never changes once set, cache the lookups
+const deploymentNetworkCache = new Map<string, string>();
+
+export function listNetworks(): NetworkConfig[] {
+  return buildRegistry();
+}
+
+export function getDefaultNetworkId(): string {
+  return resolveNetworkId(process.env.DEFAULT_NETWORK || "movement-testnet");
+}
+
+/**
+ * Normalize a network id or alias, throwing ValidationError if unknown
+ * Empty input resolves to the default network
+ */
+export function resolveNetworkId(input?: string | null): string {
+  if (!input) return getDefaultNetworkId();
+  const normalized = input.trim().toLowerCase();
+  const id = ALIASES[normalized] ?? normalized;
+  if (!buildRegistry().some((n) => n.id === id)) {
+    throw new ValidationError("Unknown network", {
+      network: input,
+      available: buildRegistry().map((n) => n.id),
+    });
+  }
+  return id;
+}
+
+/**
+ * Look up a network by id or alias. Throws NotFoundError for ids that aren't
+ * configured (e.g. a custom network since removed) rather than sending its
+ * calls to another chain.
+ */
+export function getNetwork(id?: string | null): NetworkConfig {
+  const registry = buildRegistry();
+  const normalized = id ? (ALIASES[id.toLowerCase()] ?? id.toLowerCase()) : getDefaultNetworkId();
+  const found = registry.find((n) => n.id === normalized);
+  if (!found) {
+    throw new NotFoundError("Network not configured", {
+      network: id,
+      available: registry.map((n) => n.id),
+    });
+  }
+  return found;
+}
+
+/** Display name of a stored network id - the id itself if it isn't configured */
+export function getNetworkName(id: string): string {
+  return buildRegistry().find((n) => n.id === id)?.name ?? id;
+}
+
+export function getRpcUrl(network?: string | null): string {
+  return getNetwork(network).rpcUrl;
+}
+
+/** Network a deployment was registered on (default network if unknown) */
+export async function getDeploymentNetwork(deploymentAddress: string): Promise<string> {
+  const cached = deploymentNetworkCache.get(deploymentAddress);
+  if (cached) return cached;
+
+  const db = getDb();
+  const row = await db
+    .selectFrom("deployments")
+    .select("network")
+    .where("address", "=", deploymentAddress)
+    .executeTakeFirst();
+
+  if (!row) return getDefaultNetworkId();
+  deploymentNetworkCache.set(deploymentAddress, row.network);
+  return row.network;
+}
@@ -0,0 +1,219 @@
+// Shared fullnode client - retries, backoff, rate limiting and endpoint failover
+
+import { AppError } from "./errors.js";
+import { rpcDuration, rpcEndpointLabel, rpcErrors, rpcRequests } from "./metrics.js";
+import { getNetwork } from "./network.js";
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RPS = 20;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 10_000;
+
+/**
+ * The node could not be reached or kept failing after all retries
+ * Surfaces as a 502 from API routes
+ */
+export class RpcError extends AppError {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    details: { network: string; path: string; attempts: number; url?: string }
+  ) {
+    super(502, "RpcError", message, details);
+    this.name = "RpcError";
+  }
+}
+
+interface RpcRequestOptions {
+  method?: "GET" | "POST";
+  body?: unknown;
+  /** Override RPC_MAX_RETRIES / RPC_TIMEOUT_MS for this request */
+  maxRetries?: number;
+  timeoutMs?: number;
+}
+
+// Index of the endpoint currently in use, per network - sticks until it fails
+const activeEndpoint = new Map<string, number>();
+// Earliest time the next request may go out, per network
+const nextSlot = new Map<string, number>();
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return value >= 0 ? value : fallback;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Space requests to a network out to at most RPC_MAX_RPS per second */
+async function throttle(network: string): Promise<void> {
+  const interval = 1000 / Math.max(1, envInt("RPC_MAX_RPS", DEFAULT_MAX_RPS));
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(network) ?? 0);
+  nextSlot.set(network, slot + interval);
+  if (slot > now) await sleep(slot - now);
+}
+
+function backoffMs(attempt: number): number {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+/** Retry-After as seconds or an HTTP date, in ms */
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Request `path` (relative to the network's /v1 base) and parse the JSON body
+ *
+ * - 2xx: the parsed body
+ * - 404: null - the resource / account / module does not exist ("no data")
+ * - 429: waits for Retry-After (or backs off) and retries; the whole network
+ *   is held back for that long
+ * - 5xx, timeouts, connection errors: retried with exponential backoff, moving
+ *   to the network's next configured endpoint each time
+ * - other 4xx: RpcError straight away - retrying won't change the answer
+ *
+ * Throws RpcError once retries are exhausted.
+ */
+export async function rpcRequest<T>(
+  network: string | null | undefined,
+  path: string,
+  options: RpcRequestOptions = {}
+): Promise<T | null> {
+  const config = getNetwork(network);
+  const endpoints = config.rpcUrls;
+  const maxRetries = options.maxRetries ?? envInt("RPC_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+  const timeoutMs = options.timeoutMs ?? envInt("RPC_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const labels = { network: config.id, endpoint: rpcEndpointLabel(path) };
+
+  let lastError = "";
+  let lastStatus: number | null = null;
+  let url = "";
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const index = (activeEndpoint.get(config.id) ?? 0) % endpoints.length;
+    url = `${endpoints[index]}${path}`;
+    let waitMs = backoffMs(attempt);
+
+    await throttle(config.id);
+    const timer = rpcDuration.startTimer(labels);
+    let responded = false;
+    try {
+      const response = await fetch(url, {
+        method: options.method ?? "GET",
+        headers:
+          options.body !== undefined ? { "Content-Type": "application/json" } : undefined,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      responded = true;
+      timer();
+      rpcRequests.inc({ ...labels, status: response.status });
+
+      if (response.ok) return (await response.json()) as T;
+      if (response.status === 404) return null;
+
+      lastStatus = response.status;
+      lastError = `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`;
+
+      if (response.status === 429) {
+        waitMs = retryAfterMs(response.headers.get("retry-after")) ?? waitMs;
+        nextSlot.set(
+          config.id,
+          Math.max(nextSlot.get(config.id) ?? 0, Date.now() + waitMs)
+        );
+      } else if (response.status < 500) {
+        rpcErrors.inc(labels);
+        throw new RpcError(`RPC request failed (${lastError})`, lastStatus, {
+          network: config.id,
+          path,
+          attempts: attempt + 1,
+          url,
+        });
+      } else {
+        activeEndpoint.set(config.id, index + 1);
+      }
+    } catch (err) {
+      if (err instanceof RpcError) throw err;
+      if (!responded) {
+        timer();
+        rpcRequests.inc({ ...labels, status: "error" });
+      }
+      lastStatus = null;
+      lastError = err instanceof Error ? err.message : String(err);
+      activeEndpoint.set(config.id, index + 1);
+    }
+
+    if (attempt < maxRetries) {
+      console.warn(
+        `[RPC] ${config.id} ${path || "/"} failed (${lastError}), retry ${attempt + 1}/${maxRetries} in ${Math.round(waitMs)}ms`
+      );
+      await sleep(waitMs);
+    }
+  }
+
+  rpcErrors.inc(labels);
+  throw new RpcError(
+    `RPC request failed after ${maxRetries + 1} attempts (${lastError})`,
+    lastStatus,
+    {
+      network: config.id,
+      path,
+      attempts: maxRetries + 1,
+      url,
+    }
+  );
+}
+
+/** GET that must return data - a 404 is an error too */
+export async function rpcGet<T>(
+  network: string | null | undefined,
+  path: string
+): Promise<T> {
+  const result = await rpcRequest<T>(network, path);
+  if (result === null) {
+    throw new RpcError("RPC resource not found", 404, {
+      network: network ?? "",
+      path,
+      attempts: 1,
+    });
+  }
+  return result;
+}
+
+/** GET where "not found" is a normal answer (null) */
+export async function rpcGetOptional<T>(
+  network: string | null | undefined,
+  path: string
+): Promise<T | null> {
+  return rpcRequest<T>(network, path);
+}
+
+/** Call a #[view] function */
+export async function rpcView<T extends unknown[]>(
+  network: string | null | undefined,
+  fn: string,
+  args: unknown[],
+  typeArguments: string[] = [],
+  limits: Pick<RpcRequestOptions, "maxRetries" | "timeoutMs"> = {}
+): Promise<T> {
+  const result = await rpcRequest<T>(network, "/view", {
+    method: "POST",
+    body: { function: fn, type_arguments: typeArguments, arguments: args },
+    ...limits,
+  });
+  if (result === null) {
+    throw new RpcError("View function not found", 404, {
+      network: network ?? "",
+      path: fn,
+      attempts: 1,
+    });
+  }
+  return result;
+}
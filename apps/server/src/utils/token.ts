@@ -1,9 +1,8 @@
 // Token/FA utilities
 
 import { getDb } from "../database/connection.js";
-
-const getRpcUrl = () =>
-  process.env.MOVEMENT_RPC_URL || "https://aptos.testnet.porto.movementlabs.xyz/v1";
+import { priceFetchFailures } from "./metrics.js";
+import { rpcGetOptional } from "./rpc.js";
 
 // Cache decimals in memory (these don't change)
 const decimalsCache = new Map<string, number>();
@@ -72,6 +71,7 @@ export async function getTokenPrice(faMetadata: string): Promise<number> {
     );
 
     if (!response.ok) {
+      priceFetchFailures.inc({ token: geckoId });
       return cached?.price_usd || 0;
     }
 
@@ -90,10 +90,43 @@ export async function getTokenPrice(faMetadata: string): Promise<number> {
 
     return price;
   } catch {
+    priceFetchFailures.inc({ token: geckoId });
     return cached?.price_usd || 0;
   }
 }
 
+/**
+ * USD prices of a token between two times (ms) as [ms, price] points, oldest
+ * first, from CoinGecko's market_chart/range - hourly for ranges up to 90 days,
+ * daily beyond. Empty if the token has no CoinGecko id or the lookup fails.
+ */
+export async function getTokenPriceHistory(
+  faMetadata: string,
+  fromMs: number,
+  toMs: number
+): Promise<Array<[number, number]>> {
+  const geckoId = COINGECKO_IDS[faMetadata] || COINGECKO_IDS[faMetadata.toLowerCase()];
+  if (!geckoId) return [];
+
+  const from = Math.floor(fromMs / 1000);
+  const to = Math.ceil(toMs / 1000);
+  try {
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/coins/${geckoId}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
+      { headers: { Accept: "application/json" } }
+    );
+    if (!response.ok) {
+      priceFetchFailures.inc({ token: geckoId });
+      return [];
+    }
+    const data = (await response.json()) as { prices?: Array<[number, number]> };
+    return data.prices ?? [];
+  } catch {
+    priceFetchFailures.inc({ token: geckoId });
+    return [];
+  }
+}
+
 /**
  * Convert token amount to USD
  */
@@ -122,10 +155,12 @@ export function formatUsd(amount: number): string {
 
 /**
  * Ensure token metadata exists in database
- * Fetches from chain if not present, stores for future use
+ * Fetches from chain (the given network, default otherwise) if not present,
+ * stores for future use
  */
 export async function ensureToken(
-  faMetadata: string
+  faMetadata: string,
+  network?: string
 ): Promise<{ symbol: string; name: string; decimals: number }> {
   const db = getDb();
 
@@ -147,76 +182,45 @@ export async function ensureToken(
   // Not in DB, fetch from chain
   console.log(`[ensureToken] Fetching metadata for ${faMetadata} from chain`);
 
+  const fallback = { symbol: "TOKEN", name: "Unknown Token", decimals: 8 };
+  let data: { data: { symbol: string; name: string; decimals: number } } | null;
   try {
-    const response = await fetch(
-      `${getRpcUrl()}/accounts/${faMetadata}/resource/0x1::fungible_asset::Metadata`
+    data = await rpcGetOptional(
+      network,
+      `/accounts/${faMetadata}/resource/0x1::fungible_asset::Metadata`
     );
-
-    if (!response.ok) {
-      console.log(`[ensureToken] RPC call failed with status:`, response.status);
-      // Store fallback in DB
-      const fallback = { symbol: "TOKEN", name: "Unknown Token", decimals: 8 };
-      await db
-        .insertInto("tokens")
-        .values({
-          address: faMetadata,
-          symbol: fallback.symbol,
-          name: fallback.name,
-          decimals: fallback.decimals,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .execute();
-      return fallback;
-    }
-
-    const data = (await response.json()) as {
-      data: {
-        symbol: string;
-        name: string;
-        decimals: number;
-      };
-    };
-
-    const metadata = {
-      symbol: data.data.symbol || "TOKEN",
-      name: data.data.name || "Unknown Token",
-      decimals: data.data.decimals || 8,
-    };
-
-    console.log(`[ensureToken] Fetched and storing:`, metadata);
-
-    // Store in DB
-    await db
-      .insertInto("tokens")
-      .values({
-        address: faMetadata,
-        symbol: metadata.symbol,
-        name: metadata.name,
-        decimals: metadata.decimals,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .execute();
-
-    return metadata;
   } catch (err) {
+    // Node unreachable - answer with the fallback but don't store it, so the
+    // next lookup tries again
     console.error(`[ensureToken] Failed to fetch token metadata for ${faMetadata}:`, err);
-    // Store fallback in DB
-    const fallback = { symbol: "TOKEN", name: "Unknown Token", decimals: 8 };
-    await db
-      .insertInto("tokens")
-      .values({
-        address: faMetadata,
-        symbol: fallback.symbol,
-        name: fallback.name,
-        decimals: fallback.decimals,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .execute();
     return fallback;
   }
+
+  const metadata = data
+    ? {
+        symbol: data.data.symbol || "TOKEN",
+        name: data.data.name || "Unknown Token",
+        decimals: data.data.decimals || 8,
+      }
+    : fallback; // No Metadata resource - not a standard FA, store the fallback
+
+  console.log(`[ensureToken] Fetched and storing:`, metadata);
+
+  // Store in DB
+  await db
+    .insertInto("tokens")
+    .values({
+      address: faMetadata,
+      symbol: metadata.symbol,
+      name: metadata.name,
+      decimals: metadata.decimals,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .onConflict((oc) => oc.column("address").doNothing())
+    .execute();
+
+  return metadata;
 }
 
 /**
@@ -0,0 +1,441 @@
+// Webhook deliveries - queued in the transaction of the sync batch that stores
+// the events (an outbox), sent signed once it commits, retried with backoff.
+// `webhook_deliveries` doubles as the delivery log.
+
+import crypto from "crypto";
+import type { Kysely, Selectable } from "kysely";
+import { getDb } from "../database/connection.js";
+import type { DB, EventsTable, WebhookDeliveriesTable } from "../database/schema.js";
+import type { MovementEvent } from "../indexer/types.js";
+import { NotFoundError } from "../utils/errors.js";
+import { webhookDeliveries } from "../utils/metrics.js";
+import {
+  assertWebhookUrl,
+  getWebhook,
+  listWebhooks,
+  matchesWebhook,
+  type Webhook,
+} from "./subscriptions.js";
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const DISPATCH_BATCH = 20;
+const INSERT_CHUNK = 500;
+// Most stored events a single replay request queues
+const MAX_REPLAY_EVENTS = 5_000;
+
+export type DeliveryStatus = WebhookDeliveriesTable["status"];
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  eventId: number;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+/** JSON body POSTed to the webhook URL */
+export interface WebhookPayload {
+  deliveryId: number;
+  webhookId: number;
+  event: {
+    id: number;
+    deployment: string;
+    type: string;
+    accountId: string;
+    data: Record<string, unknown>;
+    txHash: string | null;
+    version: number | null;
+    eventIndex: number | null;
+    timestamp: string;
+  };
+  sentAt: string;
+}
+
+let dispatching = false;
+let dispatchAgain = false;
+
+function getMaxAttempts(): number {
+  const configured = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "", 10);
+  return configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+function toDelivery(row: Selectable<WebhookDeliveriesTable>): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastAttemptAt: row.last_attempt_at,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+function parseEventData(row: Selectable<EventsTable>): Record<string, unknown> {
+  try {
+    return JSON.parse(row.data) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * `X-Xylkit-Signature` value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ * Receivers recompute the HMAC with their secret and reject stale timestamps
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number
+): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function insertDeliveries(
+  db: Kysely<DB>,
+  pairs: Array<{ webhookId: number; eventId: number }>
+): Promise<Array<Selectable<WebhookDeliveriesTable>>> {
+  const now = new Date().toISOString();
+  const rows: Array<Selectable<WebhookDeliveriesTable>> = [];
+  // Chunked to stay under SQLite's bound-parameter limit
+  for (let i = 0; i < pairs.length; i += INSERT_CHUNK) {
+    const chunk = pairs.slice(i, i + INSERT_CHUNK);
+    rows.push(
+      ...(await db
+        .insertInto("webhook_deliveries")
+        .values(
+          chunk.map(({ webhookId, eventId }) => ({
+            webhook_id: webhookId,
+            event_id: eventId,
+            status: "pending" as const,
+            next_attempt_at: now,
+            last_attempt_at: null,
+            response_status: null,
+            error: null,
+            created_at: now,
+            delivered_at: null,
+          }))
+        )
+        .returningAll()
+        .execute())
+    );
+  }
+  return rows;
+}
+
+function matchingPairs(
+  webhooks: Webhook[],
+  rows: Array<Selectable<EventsTable>>
+): Array<{ webhookId: number; eventId: number }> {
+  const pairs: Array<{ webhookId: number; eventId: number }> = [];
+  for (const row of rows) {
+    const event = {
+      deployment: row.deployment_address,
+      eventType: row.event_type,
+      data: parseEventData(row),
+    };
+    for (const webhook of webhooks) {
+      if (matchesWebhook(webhook, event))
+        pairs.push({ webhookId: webhook.id, eventId: row.id });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Queue deliveries for events a sync batch is storing, in `trx` - the batch's
+ * transaction - so they commit with the events or not at all. Call
+ * `dispatchWebhooks()` once it has committed; nothing is sent before that.
+ */
+export async function queueWebhookDeliveries(
+  trx: Kysely<DB>,
+  deployment: string,
+  events: MovementEvent[]
+): Promise<number> {
+  if (events.length === 0) return 0;
+  const webhooks = (await listWebhooks(trx)).filter(
+    (w) => w.active && (!w.deployment || w.deployment === deployment)
+  );
+  if (webhooks.length === 0) return 0;
+
+  const stored = new Set(events.map((e) => `${e.version}:${e.event_index ?? null}`));
+  const versions = [...new Set(events.map((e) => parseInt(e.version, 10)))];
+  const rows = (
+    await trx
+      .selectFrom("events")
+      .selectAll()
+      .where("deployment_address", "=", deployment)
+      .where("transaction_version", "in", versions)
+      .orderBy("transaction_version")
+      .orderBy("event_index")
+      .execute()
+  ).filter((row) => stored.has(`${row.transaction_version}:${row.event_index}`));
+
+  const queued = await insertDeliveries(trx, matchingPairs(webhooks, rows));
+  return queued.length;
+}
+
+/**
+ * Queue a webhook's deliveries again for stored events in a version range
+ * Already-delivered events are sent again - receivers dedupe on event id
+ */
+export async function replayWebhook(
+  webhookId: number,
+  range: { fromVersion: number; toVersion?: number }
+): Promise<{ queued: number; truncated: boolean }> {
+  const webhook = await getWebhook(webhookId);
+
+  let query = getDb()
+    .selectFrom("events")
+    .selectAll()
+    .where("transaction_version", ">=", range.fromVersion);
+  if (range.toVersion !== undefined) {
+    query = query.where("transaction_version", "<=", range.toVersion);
+  }
+  if (webhook.deployment) {
+    query = query.where("deployment_address", "=", webhook.deployment);
+  }
+  if (webhook.eventTypes) {
+    query = query.where("event_type", "in", webhook.eventTypes);
+  }
+  const rows = await query
+    .orderBy("transaction_version")
+    .orderBy("event_index")
+    .limit(MAX_REPLAY_EVENTS + 1)
+    .execute();
+
+  const truncated = rows.length > MAX_REPLAY_EVENTS;
+  const queued = await insertDeliveries(
+    getDb(),
+    matchingPairs([webhook], rows.slice(0, MAX_REPLAY_EVENTS))
+  );
+  if (queued.length > 0) dispatchWebhooks();
+  return { queued: queued.length, truncated };
+}
+
+/** Send one logged delivery again, as a new delivery of the same event */
+export async function redeliver(
+  webhookId: number,
+  deliveryId: number
+): Promise<WebhookDelivery> {
+  const db = getDb();
+  const original = await db
+    .selectFrom("webhook_deliveries")
+    .select("event_id")
+    .where("id", "=", deliveryId)
+    .where("webhook_id", "=", webhookId)
+    .executeTakeFirst();
+  if (!original) throw new NotFoundError("Delivery not found", { webhookId, deliveryId });
+
+  const [row] = await insertDeliveries(db, [{ webhookId, eventId: original.event_id }]);
+  dispatchWebhooks();
+  return toDelivery(row);
+}
+
+export async function listDeliveries(
+  webhookId: number,
+  filter: { status?: DeliveryStatus; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  let query = getDb()
+    .selectFrom("webhook_deliveries")
+    .selectAll()
+    .where("webhook_id", "=", webhookId);
+  if (filter.status) query = query.where("status", "=", filter.status);
+  const rows = await query
+    .orderBy("id", "desc")
+    .limit(filter.limit ?? 50)
+    .execute();
+  return rows.map(toDelivery);
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1));
+}
+
+/**
+ * Claim due deliveries - pushing next_attempt_at out only succeeds for one
+ * claimant, so instances dispatching together never send the same attempt twice
+ */
+async function claimDueDeliveries(): Promise<Array<Selectable<WebhookDeliveriesTable>>> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const due = await db
+    .selectFrom("webhook_deliveries")
+    .selectAll()
+    .where("status", "=", "pending")
+    .where("next_attempt_at", "<=", now)
+    .orderBy("next_attempt_at")
+    .limit(DISPATCH_BATCH)
+    .execute();
+
+  const claimUntil = new Date(Date.now() + DELIVERY_TIMEOUT_MS * 3).toISOString();
+  const claimed = [];
+  for (const row of due) {
+    const result = await db
+      .updateTable("webhook_deliveries")
+      .set({ next_attempt_at: claimUntil })
+      .where("id", "=", row.id)
+      .where("status", "=", "pending")
+      .where("next_attempt_at", "=", row.next_attempt_at)
+      .executeTakeFirst();
+    if (Number(result.numUpdatedRows) > 0) claimed.push(row);
+  }
+  return claimed;
+}
+
+async function sendDelivery(row: Selectable<WebhookDeliveriesTable>): Promise<void> {
+  const db = getDb();
+  const attempts = row.attempts + 1;
+  const attemptedAt = new Date().toISOString();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  const [webhook, event] = await Promise.all([
+    db
+      .selectFrom("webhooks")
+      .selectAll()
+      .where("id", "=", row.webhook_id)
+      .executeTakeFirst(),
+    db.selectFrom("events").selectAll().where("id", "=", row.event_id).executeTakeFirst(),
+  ]);
+
+  if (!webhook || !webhook.active || !event) {
+    // Nothing to send - replay once the webhook is re-enabled
+    await db
+      .updateTable("webhook_deliveries")
+      .set({
+        status: "failed",
+        next_attempt_at: null,
+        error: !webhook
+          ? "Webhook removed"
+          : !webhook.active
+            ? "Webhook disabled"
+            : "Event no longer stored",
+      })
+      .where("id", "=", row.id)
+      .execute();
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    deliveryId: row.id,
+    webhookId: webhook.id,
+    event: {
+      id: event.id,
+      deployment: event.deployment_address,
+      type: event.event_type,
+      accountId: event.account_id,
+      data: parseEventData(event),
+      txHash: event.tx_hash,
+      version: event.transaction_version,
+      eventIndex: event.event_index,
+      timestamp: event.timestamp,
+    },
+    sentAt: attemptedAt,
+  };
+  const body = JSON.stringify(payload);
+
+  try {
+    // Checked again here - the host may resolve elsewhere since it was registered
+    await assertWebhookUrl(webhook.url);
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "xylkit-indexer-webhooks",
+        "X-Xylkit-Event": event.event_type,
+        "X-Xylkit-Delivery": String(row.id),
+        "X-Xylkit-Signature": signWebhookPayload(
+          webhook.secret,
+          body,
+          Math.floor(Date.now() / 1000)
+        ),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const delivered = error === null;
+  const exhausted = !delivered && attempts >= getMaxAttempts();
+  webhookDeliveries.inc({
+    outcome: delivered ? "delivered" : exhausted ? "failed" : "retry",
+  });
+
+  await db
+    .updateTable("webhook_deliveries")
+    .set({
+      status: delivered ? "delivered" : exhausted ? "failed" : "pending",
+      attempts,
+      last_attempt_at: attemptedAt,
+      next_attempt_at:
+        delivered || exhausted
+          ? null
+          : new Date(Date.now() + backoffMs(attempts)).toISOString(),
+      response_status: responseStatus,
+      error,
+      delivered_at: delivered ? new Date().toISOString() : null,
+    })
+    .where("id", "=", row.id)
+    .execute();
+}
+
+/**
+ * Send every due delivery - fire-and-forget, one dispatch loop per process
+ * Called when deliveries are queued and periodically for retries
+ */
+export function dispatchWebhooks(): void {
+  if (dispatching) {
+    dispatchAgain = true;
+    return;
+  }
+  dispatching = true;
+
+  void (async () => {
+    try {
+      do {
+        dispatchAgain = false;
+        for (;;) {
+          const claimed = await claimDueDeliveries();
+          if (claimed.length === 0) break;
+          await Promise.all(claimed.map(sendDelivery));
+        }
+      } while (dispatchAgain);
+    } catch (err) {
+      console.error("[Webhooks] Dispatch failed:", err);
+    } finally {
+      dispatching = false;
+    }
+  })();
+}
+
+/** Retry due deliveries every `intervalMs`; returns a stop function */
+export function startWebhookDispatcher(intervalMs = 10_000): () => void {
+  dispatchWebhooks();
+  const timer = setInterval(dispatchWebhooks, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
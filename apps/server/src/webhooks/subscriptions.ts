@@ -0,0 +1,219 @@
+// Webhook subscriptions - registered URLs and the events they want
+
+import crypto from "crypto";
+import dns from "dns";
+import type { Kysely, Selectable } from "kysely";
+import net from "net";
+import { getDb } from "../database/connection.js";
+import type { DB, WebhooksTable } from "../database/schema.js";
+import type { EventType } from "../types/index.js";
+import { eventAccountIds } from "../utils/account.js";
+import { NotFoundError, ValidationError } from "../utils/errors.js";
+
+export interface WebhookFilters {
+  deployment: string | null;
+  eventTypes: EventType[] | null;
+  accountId: string | null;
+  token: string | null; // fa_metadata
+}
+
+export interface Webhook extends WebhookFilters {
+  id: number;
+  url: string;
+  description: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookInput extends Partial<WebhookFilters> {
+  url: string;
+  description?: string | null;
+  active?: boolean;
+}
+
+/** The stored-event fields filters are matched against */
+export interface MatchableEvent {
+  deployment: string;
+  eventType: string;
+  data: Record<string, unknown>;
+}
+
+// Addresses a webhook may not resolve to - the server would POST into its own
+// network (loopback, private and link-local ranges, cloud metadata endpoints)
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3], // Multicast and reserved
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 127], // Unspecified and loopback
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, "ipv6");
+}
+
+/**
+ * Throws ValidationError unless `url` is http(s) and its host resolves to
+ * public addresses only. WEBHOOK_ALLOW_PRIVATE_URLS=true lifts the address
+ * check, for local development.
+ */
+export async function assertWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError("Invalid webhook url", { url });
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new ValidationError("Webhook url must be http(s)", { url });
+  }
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true") return;
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new ValidationError("Webhook url host does not resolve", { url });
+  }
+  const blocked = addresses.find((a) =>
+    BLOCKED_ADDRESSES.check(a.address, a.family === 6 ? "ipv6" : "ipv4")
+  );
+  if (blocked) {
+    throw new ValidationError("Webhook url resolves to a private address", {
+      url,
+      address: blocked.address,
+    });
+  }
+}
+
+function toWebhook(row: Selectable<WebhooksTable>): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    deployment: row.deployment_address,
+    eventTypes: row.event_types ? (JSON.parse(row.event_types) as EventType[]) : null,
+    accountId: row.account_id,
+    token: row.fa_metadata,
+    active: row.active === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function filterColumns(filters: Partial<WebhookFilters>) {
+  const columns: Partial<
+    Pick<WebhooksTable, "deployment_address" | "event_types" | "account_id" | "fa_metadata">
+  > = {};
+  if (filters.deployment !== undefined) columns.deployment_address = filters.deployment;
+  if (filters.eventTypes !== undefined) {
+    columns.event_types = filters.eventTypes?.length
+      ? JSON.stringify(filters.eventTypes)
+      : null;
+  }
+  if (filters.accountId !== undefined) columns.account_id = filters.accountId;
+  if (filters.token !== undefined) columns.fa_metadata = filters.token;
+  return columns;
+}
+
+/**
+ * Register a webhook
+ * The signing secret is generated here and only ever returned from this call
+ */
+export async function createWebhook(
+  input: WebhookInput
+): Promise<Webhook & { secret: string }> {
+  await assertWebhookUrl(input.url);
+  const secret = `whsec_${crypto.randomBytes(24).toString("hex")}`;
+  const now = new Date().toISOString();
+  const row = await getDb()
+    .insertInto("webhooks")
+    .values({
+      url: input.url,
+      secret,
+      description: input.description ?? null,
+      deployment_address: null,
+      event_types: null,
+      account_id: null,
+      fa_metadata: null,
+      ...filterColumns(input),
+      active: input.active === false ? 0 : 1,
+      created_at: now,
+      updated_at: now,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+  return { ...toWebhook(row), secret };
+}
+
+/** `db` is the open transaction when called while a sync batch is stored */
+export async function listWebhooks(db: Kysely<DB> = getDb()): Promise<Webhook[]> {
+  const rows = await db.selectFrom("webhooks").selectAll().orderBy("id").execute();
+  return rows.map(toWebhook);
+}
+
+/** Throws NotFoundError for unknown ids */
+export async function getWebhook(id: number): Promise<Webhook> {
+  const row = await getDb()
+    .selectFrom("webhooks")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+  if (!row) throw new NotFoundError("Webhook not found", { id });
+  return toWebhook(row);
+}
+
+export async function updateWebhook(
+  id: number,
+  input: Partial<WebhookInput>
+): Promise<Webhook> {
+  await getWebhook(id);
+  if (input.url !== undefined) await assertWebhookUrl(input.url);
+  await getDb()
+    .updateTable("webhooks")
+    .set({
+      ...filterColumns(input),
+      ...(input.url !== undefined && { url: input.url }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.active !== undefined && { active: input.active ? 1 : 0 }),
+      updated_at: new Date().toISOString(),
+    })
+    .where("id", "=", id)
+    .execute();
+  return getWebhook(id);
+}
+
+/** Remove a webhook and its delivery log */
+export async function deleteWebhook(id: number): Promise<void> {
+  await getWebhook(id);
+  await getDb()
+    .transaction()
+    .execute(async (trx) => {
+      await trx.deleteFrom("webhook_deliveries").where("webhook_id", "=", id).execute();
+      await trx.deleteFrom("webhooks").where("id", "=", id).execute();
+    });
+}
+
+export function matchesWebhook(webhook: WebhookFilters, event: MatchableEvent): boolean {
+  if (webhook.deployment && webhook.deployment !== event.deployment) return false;
+  if (webhook.eventTypes && !webhook.eventTypes.includes(event.eventType as EventType)) {
+    return false;
+  }
+  if (webhook.accountId && !eventAccountIds(event.data).includes(webhook.accountId)) {
+    return false;
+  }
+  if (webhook.token && event.data.fa_metadata !== webhook.token) return false;
+  return true;
+}
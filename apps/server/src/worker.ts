@@ -0,0 +1,53 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import http from "http";
+import { startSnapshotter } from "./analytics/snapshots.js";
+import { startReconciler } from "./indexer/reconcile.js";
+import { createIndexerWorker, getPollIntervalMs } from "./indexer/worker.js";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "./utils/metrics.js";
+import { startWebhookDispatcher } from "./webhooks/deliveries.js";
+
+// Standalone indexer process - runs the sync loop without the HTTP API
+const worker = createIndexerWorker();
+
+console.log(`\n🔁 Xylkit Indexer Worker`);
+console.log(`   Poll interval: ${getPollIntervalMs()}ms\n`);
+
+worker.start();
+// Deliveries queued by this worker's syncs, and retries
+const stopWebhooks = startWebhookDispatcher();
+// Hourly / daily analytics snapshots
+const stopSnapshots = startSnapshotter();
+// Indexed state vs view results, recorded as discrepancies
+const stopReconciler = startReconciler();
+
+// No API in this process - serve /metrics on its own port when asked to
+const metricsPort = process.env.METRICS_PORT;
+const metricsServer = metricsPort
+  ? http
+      .createServer((req, res) => {
+        if (req.url !== "/metrics") {
+          res.statusCode = 404;
+          return res.end();
+        }
+        res.setHeader("Content-Type", METRICS_CONTENT_TYPE);
+        res.end(renderMetrics());
+      })
+      .listen(parseInt(metricsPort, 10), () => {
+        console.log(`📈 Metrics on http://localhost:${metricsPort}/metrics\n`);
+      })
+  : null;
+
+async function shutdown(signal: string) {
+  console.log(`[Indexer] ${signal} received, finishing current batch...`);
+  stopWebhooks();
+  stopSnapshots();
+  stopReconciler();
+  await worker.stop();
+  metricsServer?.close();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
@@ -0,0 +1,98 @@
+// Stand-in fullnode - serves recorded RPC responses so the indexer can run offline
+
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * Recorded node data (see record.ts)
+ *
+ * `transactions` is served like the node's /transactions endpoint (by start
+ * and limit); every other request is looked up in `responses` by
+ * requestKey() and answered 404 when it was not recorded.
+ */
+export interface RpcFixture {
+  description?: string;
+  ledgerInfo: Record<string, unknown>;
+  transactions: Array<Record<string, unknown> & { version: string }>;
+  responses: Record<string, unknown>;
+}
+
+export interface FixtureNode {
+  /** Base URL including /v1, as MOVEMENT_RPC_URL expects */
+  url: string;
+  /** Request keys served so far, in order */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+/** `GET /accounts/0x1/resource/...` or `POST /view {"function":...}` */
+export function requestKey(method: string, path: string, body?: string): string {
+  const key = `${method} ${path}`;
+  if (!body) return key;
+  try {
+    return `${key} ${JSON.stringify(JSON.parse(body))}`;
+  } catch {
+    return `${key} ${body}`;
+  }
+}
+
+export function loadFixture(file: string): RpcFixture {
+  return JSON.parse(fs.readFileSync(file, "utf8")) as RpcFixture;
+}
+
+function notFound(res: http.ServerResponse, key: string): void {
+  res.statusCode = 404;
+  res.end(
+    JSON.stringify({
+      message: `No recorded response for ${key}`,
+      error_code: "resource_not_found",
+    })
+  );
+}
+
+export function startFixtureNode(fixture: RpcFixture, port = 0): Promise<FixtureNode> {
+  const requests: string[] = [];
+  const transactions = [...fixture.transactions].sort((a, b) =>
+    Number(BigInt(a.version) - BigInt(b.version))
+  );
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://fixture");
+      const path = url.pathname.replace(/^\/v1/, "") + url.search;
+      const key = requestKey(req.method ?? "GET", path, body);
+      requests.push(key);
+      res.setHeader("Content-Type", "application/json");
+
+      if (url.pathname === "/v1" || url.pathname === "/v1/") {
+        return res.end(JSON.stringify(fixture.ledgerInfo));
+      }
+
+      if (url.pathname === "/v1/transactions") {
+        const start = BigInt(url.searchParams.get("start") ?? "0");
+        const limit = parseInt(url.searchParams.get("limit") ?? "25", 10);
+        const page = transactions
+          .filter((tx) => BigInt(tx.version) >= start)
+          .slice(0, limit);
+        return res.end(JSON.stringify(page));
+      }
+
+      if (!(key in fixture.responses)) return notFound(res, key);
+      res.end(JSON.stringify(fixture.responses[key]));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, "127.0.0.1", () => {
+      const { port: bound } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${bound}/v1`,
+        requests,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
@@ -0,0 +1,107 @@
+// Recording proxy - forwards RPC traffic to a real node and saves it as a fixture
+//
+//   npm run fixtures:record -- --upstream https://testnet.example/v1 \
+//     --out test/fixtures/my-case.json [--deployment 0x...]
+//
+// Point the indexer at the proxy (MOVEMENT_RPC_URL=http://127.0.0.1:18545/v1),
+// run the syncs / API calls the fixture should cover, then stop the recorder
+// with Ctrl-C to write the file. Re-recording into an existing file merges.
+
+import fs from "fs";
+import http from "http";
+import { parseArgs } from "node:util";
+import { requestKey, type RpcFixture } from "./node.js";
+
+const { values } = parseArgs({
+  options: {
+    upstream: { type: "string" },
+    out: { type: "string" },
+    port: { type: "string", default: "18545" },
+    description: { type: "string" },
+    // Keep only transactions with events from this deployment
+    deployment: { type: "string" },
+  },
+});
+
+if (!values.upstream || !values.out) {
+  console.error(
+    "Usage: record.ts --upstream <node url incl. /v1> --out <fixture.json> [--port 18545]"
+  );
+  process.exit(1);
+}
+
+const upstream = values.upstream.replace(/\/+$/, "");
+const out = values.out;
+
+const fixture: RpcFixture = fs.existsSync(out)
+  ? (JSON.parse(fs.readFileSync(out, "utf8")) as RpcFixture)
+  : { ledgerInfo: {}, transactions: [], responses: {} };
+if (values.description) fixture.description = values.description;
+
+const transactions = new Map(fixture.transactions.map((tx) => [tx.version, tx]));
+
+function hasDeploymentEvent(tx: Record<string, unknown>, deployment: string): boolean {
+  const events = (tx.events ?? []) as Array<{ type: string }>;
+  return events.some((e) => e.type.startsWith(deployment));
+}
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", async () => {
+    const url = new URL(req.url ?? "/", "http://proxy");
+    const path = url.pathname.replace(/^\/v1/, "") + url.search;
+    const key = requestKey(req.method ?? "GET", path, body);
+
+    try {
+      const upstreamRes = await fetch(`${upstream}${path}`, {
+        method: req.method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body || undefined,
+      });
+      const text = await upstreamRes.text();
+
+      // Only successful answers are kept - anything missing replays as a 404
+      if (upstreamRes.ok) {
+        const json = JSON.parse(text);
+        if (url.pathname === "/v1" || url.pathname === "/v1/") {
+          fixture.ledgerInfo = json;
+        } else if (url.pathname === "/v1/transactions") {
+          for (const tx of json as RpcFixture["transactions"]) {
+            if (values.deployment && !hasDeploymentEvent(tx, values.deployment)) continue;
+            transactions.set(tx.version, tx);
+          }
+        } else {
+          fixture.responses[key] = json;
+        }
+      }
+      console.log(`[record] ${upstreamRes.status} ${key}`);
+
+      res.statusCode = upstreamRes.status;
+      res.setHeader("Content-Type", "application/json");
+      res.end(text);
+    } catch (err) {
+      console.error(`[record] ${key} failed:`, err);
+      res.statusCode = 502;
+      res.end(JSON.stringify({ message: String(err) }));
+    }
+  });
+});
+
+server.listen(parseInt(values.port!, 10), "127.0.0.1", () => {
+  console.log(`Recording ${upstream} on http://127.0.0.1:${values.port}/v1 → ${out}`);
+});
+
+function save() {
+  fixture.transactions = [...transactions.values()].sort((a, b) =>
+    Number(BigInt(a.version) - BigInt(b.version))
+  );
+  fs.writeFileSync(out, JSON.stringify(fixture, null, 2) + "\n");
+  console.log(
+    `\nSaved ${fixture.transactions.length} transactions and ${Object.keys(fixture.responses).length} responses to ${out}`
+  );
+  process.exit(0);
+}
+
+process.on("SIGINT", save);
+process.on("SIGTERM", save);
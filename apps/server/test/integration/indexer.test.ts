@@ -0,0 +1,1596 @@
+// Full sync → API run against the hand-written lifecycle fixture (served by
+// the stand-in node), no network needed
+//
+//   npm test
+
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import http, { type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  encodeStreamReceivers,
+  hashSplits,
+  hashStreams,
+  hashStreamsHistory,
+  toHex,
+} from "xylkit-hashing";
+import { loadFixture, startFixtureNode, type FixtureNode } from "../fixtures/node.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEPLOYMENT = "0x" + "d1".repeat(32);
+const ALICE = "0x" + "a1".repeat(32);
+const BOB = "0x" + "b0".repeat(32);
+const CAROL = "0x" + "c4".repeat(32);
+const id = (wallet: string) => BigInt(wallet).toString();
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "xylkit-test-"));
+let node: FixtureNode;
+let server: Server;
+let api: string;
+let sync: typeof import("../../src/indexer/sync.js");
+
+// Webhook receiver - records every POST it gets
+let receiver: Server;
+let receiverUrl: string;
+const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+let webhook: { id: number; secret: string };
+const ADMIN_TOKEN = "test-admin-token";
+const admin = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+async function get<T = unknown>(route: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`${api}${route}`, init);
+  assert.equal(res.status, 200, `${route} → ${res.status} ${await res.clone().text()}`);
+  return (await res.json()) as T;
+}
+
+interface StreamMessage {
+  event: string;
+  id?: string;
+  data: unknown;
+}
+
+/**
+ * Read Server-Sent Events from `route` until `done` returns true for the
+ * messages so far, then disconnect
+ */
+async function readStream(
+  route: string,
+  done: (messages: StreamMessage[]) => boolean,
+  onMessage?: (message: StreamMessage) => void
+): Promise<StreamMessage[]> {
+  const controller = new AbortController();
+  const res = await fetch(`${api}${route}`, { signal: controller.signal });
+  assert.equal(res.headers.get("content-type"), "text/event-stream");
+
+  const messages: StreamMessage[] = [];
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of res.body!) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const fields = Object.fromEntries(
+        block
+          .split("\n")
+          .map((line) => [
+            line.slice(0, line.indexOf(":")),
+            line.slice(line.indexOf(":") + 2),
+          ])
+      );
+      if (!fields.event) continue; // retry / keepalive
+      const message = { event: fields.event, id: fields.id, data: JSON.parse(fields.data) };
+      messages.push(message);
+      onMessage?.(message);
+    }
+    if (done(messages)) break;
+  }
+  controller.abort();
+  return messages;
+}
+
+async function syncUntilCaughtUp(): Promise<number> {
+  let processed = 0;
+  for (;;) {
+    const result = await sync.syncDeployment({ deployment: DEPLOYMENT, force: true });
+    processed += result.eventsProcessed;
+    if (!result.hasMore) return processed;
+  }
+}
+
+/**
+ * The deployment's derived rows, per table, without the row ids and write
+ * times that change with every rebuild
+ */
+async function derivedRows(): Promise<Record<string, string[]>> {
+  const { getDb } = await import("../../src/database/connection.js");
+  const rows: Record<string, string[]> = {};
+  for (const table of [
+    "streams",
+    "streams_states",
+    "stream_changes",
+    "streams_history",
+    "splits",
+    "accounts",
+  ] as const) {
+    const all = await getDb()
+      .selectFrom(table)
+      .selectAll()
+      .where("deployment_address", "=", DEPLOYMENT)
+      .execute();
+    rows[table] = all
+      .map(({ id: _id, created_at: _c, updated_at: _u, ...row }: Record<string, unknown>) =>
+        JSON.stringify(row)
+      )
+      .sort();
+  }
+  return rows;
+}
+
+before(async () => {
+  node = await startFixtureNode(
+    loadFixture(path.join(__dirname, "../fixtures/drips-lifecycle.json"))
+  );
+
+  process.env.DATABASE_PATH = path.join(tmpDir, "xylkit.db");
+  process.env.MOVEMENT_RPC_URL = node.url;
+  process.env.DEFAULT_NETWORK = "movement-testnet";
+  process.env.RPC_MAX_RETRIES = "0";
+  // Keeps /search from kicking off its own background syncs
+  process.env.INDEXER_ENABLED = "true";
+  process.env.WEBHOOK_ADMIN_TOKEN = ADMIN_TOKEN;
+  // The receiver below listens on loopback
+  process.env.WEBHOOK_ALLOW_PRIVATE_URLS = "true";
+
+  await import("../../src/database/migrate.js");
+  sync = await import("../../src/indexer/sync.js");
+  const { createApp } = await import("../../src/app.js");
+
+  server = createApp().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  api = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  receiver = http
+    .createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.end();
+      });
+    })
+    .listen(0);
+  await new Promise((resolve) => receiver.once("listening", resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+});
+
+after(async () => {
+  server?.close();
+  receiver?.close();
+  await node?.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("indexer against recorded node", () => {
+  it("registers the deployment from search at its first transaction", async () => {
+    const result = await get(`/search?q=${DEPLOYMENT}`);
+    assert.deepEqual(result, {
+      type: "deployment",
+      address: DEPLOYMENT,
+      network: "movement-testnet",
+    });
+
+    const { getDb } = await import("../../src/database/connection.js");
+    const cursor = await getDb()
+      .selectFrom("sync_cursors")
+      .select("last_sequence")
+      .where("deployment_address", "=", DEPLOYMENT)
+      .where("event_type", "=", "transactions")
+      .executeTakeFirstOrThrow();
+    assert.equal(cursor.last_sequence, "985"); // 10 before the publish tx
+  });
+
+  it("registers a webhook with filters and a one-time secret", async () => {
+    const res = await fetch(`${api}/webhooks`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...admin },
+      body: JSON.stringify({
+        url: receiverUrl,
+        deployment: DEPLOYMENT,
+        eventTypes: ["StreamsSet", "Collected"],
+        accountId: id(BOB),
+      }),
+    });
+    assert.equal(res.status, 201);
+    webhook = (await res.json()) as { id: number; secret: string };
+    assert.match(webhook.secret, /^whsec_/);
+
+    const listed = await get<Array<Record<string, unknown>>>("/webhooks", {
+      headers: admin,
+    });
+    assert.equal(listed.length, 1);
+    assert.equal(listed[0].secret, undefined);
+
+    const create = (body: unknown) =>
+      fetch(`${api}/webhooks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...admin },
+        body: JSON.stringify(body),
+      });
+    const invalid = await create({ url: "ftp://example.com", eventTypes: ["Streamed"] });
+    assert.equal(invalid.status, 400);
+
+    // Without the development override, nothing inside the network is accepted
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+    try {
+      for (const url of [
+        receiverUrl,
+        "http://169.254.169.254/latest/meta-data",
+        "http://10.1.2.3/hook",
+        "http://[::ffff:192.168.0.1]/hook",
+      ]) {
+        assert.equal((await create({ url })).status, 400, url);
+      }
+    } finally {
+      process.env.WEBHOOK_ALLOW_PRIVATE_URLS = "true";
+    }
+
+    assert.equal((await fetch(`${api}/webhooks`)).status, 401);
+    delete process.env.WEBHOOK_ADMIN_TOKEN;
+    try {
+      assert.equal((await fetch(`${api}/webhooks`, { headers: admin })).status, 401);
+    } finally {
+      process.env.WEBHOOK_ADMIN_TOKEN = ADMIN_TOKEN;
+    }
+  });
+
+  it("indexes every drips event and skips unrelated ones", async () => {
+    assert.equal(await syncUntilCaughtUp(), 8);
+
+    const events = await get<
+      Array<{ eventType: string; version: number; tokenSymbol: string }>
+    >(`/deployments/${DEPLOYMENT}/events`);
+    assert.deepEqual(
+      events.map((e) => [e.version, e.eventType]),
+      [
+        [1008, "StreamsSet"],
+        [1007, "Collected"],
+        [1006, "SplitExecuted"],
+        [1005, "Squeezed"],
+        [1004, "Received"],
+        [1002, "Given"],
+        [1001, "SplitsSet"],
+        [1000, "StreamsSet"],
+      ]
+    );
+    // Token metadata comes from the recorded fungible_asset::Metadata resource
+    assert.ok(
+      events
+        .filter((e) => e.eventType !== "SplitsSet")
+        .every((e) => e.tokenSymbol === "MOVE")
+    );
+  });
+
+  it("delivers signed payloads for matching events after the batch commits", async () => {
+    for (let i = 0; i < 100 && received.length < 2; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    // Bob is a receiver of the first StreamsSet and collects at 1007; the
+    // second StreamsSet no longer names him
+    assert.deepEqual(
+      received.map((r) => JSON.parse(r.body).event.version).sort(),
+      [1000, 1007]
+    );
+
+    for (const { headers, body } of received) {
+      const [, t, v1] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(
+        headers["x-xylkit-signature"] as string
+      )!;
+      const expected = crypto
+        .createHmac("sha256", webhook.secret)
+        .update(`${t}.${body}`)
+        .digest("hex");
+      assert.equal(v1, expected);
+      assert.equal(headers["x-xylkit-event"], JSON.parse(body).event.type);
+    }
+
+    const log = await get<
+      Array<{ status: string; attempts: number; responseStatus: number }>
+    >(`/webhooks/${webhook.id}/deliveries`, { headers: admin });
+    assert.equal(log.length, 2);
+    assert.ok(log.every((d) => d.status === "delivered" && d.responseStatus === 200));
+
+    const replay = await fetch(`${api}/webhooks/${webhook.id}/replay`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...admin },
+      body: JSON.stringify({ fromVersion: 1005 }),
+    });
+    assert.deepEqual(await replay.json(), { queued: 1, truncated: false });
+  });
+
+  it("exposes sync progress on /metrics", async () => {
+    const res = await fetch(`${api}/metrics`);
+    assert.equal(res.status, 200);
+    const metrics = await res.text();
+    const labels = `deployment="${DEPLOYMENT}",network="movement-testnet"`;
+
+    assert.match(metrics, new RegExp(`xylkit_sync_cursor_version\\{${labels}\\} 1008\n`));
+    assert.match(metrics, new RegExp(`xylkit_sync_lag_versions\\{${labels}\\} 2\n`));
+    assert.match(metrics, new RegExp(`xylkit_sync_lag_seconds\\{${labels}\\} 40\n`));
+    assert.ok(
+      metrics.includes(
+        `xylkit_events_processed_total{deployment="${DEPLOYMENT}",type="StreamsSet"} 2\n`
+      )
+    );
+    assert.ok(
+      metrics.includes(
+        'xylkit_rpc_requests_total{network="movement-testnet",endpoint="/transactions",status="200"}'
+      )
+    );
+    assert.ok(
+      metrics.includes(
+        'xylkit_http_request_duration_seconds_count{method="GET",route="/search",status="200"}'
+      )
+    );
+  });
+
+  it("lists configured networks and refuses unknown ones", async () => {
+    const networks = await get<Array<Record<string, unknown>>>("/networks");
+    assert.deepEqual(
+      networks.map((n) => n.id),
+      ["movement-mainnet", "movement-testnet", "local"]
+    );
+    assert.deepEqual(
+      networks.find((n) => n.id === "movement-testnet"),
+      { id: "movement-testnet", name: "Movement Testnet", isDefault: true, deployments: 1 }
+    );
+
+    const search = await fetch(`${api}/search?q=${DEPLOYMENT}&network=retired`);
+    assert.equal(search.status, 400);
+    assert.equal(((await search.json()) as { error: string }).error, "ValidationError");
+
+    const { getNetwork, getNetworkName } = await import("../../src/utils/network.js");
+    assert.equal(getNetwork("testnet").rpcUrl, node.url);
+    assert.throws(() => getNetwork("retired"), { statusCode: 404 });
+    assert.equal(getNetworkName("retired"), "retired");
+  });
+
+  it("replaces a sender's streams on StreamsSet", async () => {
+    type Stream = {
+      from: string;
+      to: string;
+      amtPerSec: string;
+      active: boolean;
+      status: string;
+      endsAt: string | null;
+    };
+    const streams = await get<Stream[]>(`/deployments/${DEPLOYMENT}/streams?active=false`);
+    const byReceiver = new Map(streams.map((s) => [s.to, s]));
+    assert.equal(streams.length, 2);
+    assert.equal(byReceiver.get(id(BOB))?.status, "stopped"); // dropped by the second StreamsSet
+    assert.equal(byReceiver.get(id(CAROL))?.amtPerSec, "5000000000");
+    // ALICE's balance only funded CAROL until max_end, long past by now
+    assert.equal(byReceiver.get(id(CAROL))?.status, "out_of_funds");
+    assert.equal(byReceiver.get(id(CAROL))?.endsAt, "2023-11-15T03:42:40.000Z");
+    assert.ok(streams.every((s) => s.from === id(ALICE) && !s.active));
+    assert.deepEqual(await get(`/deployments/${DEPLOYMENT}/streams`), []);
+  });
+
+  it("keeps each token's streams and state apart for the same sender", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const { processEvent } = await import("../../src/indexer/processor.js");
+    const db = getDb();
+    const USDC = "0x" + "e5".repeat(32);
+    const nowSecs = Math.floor(Date.now() / 1000);
+    const moveStreams = await get<Array<{ to: string; streamId: string }>>(
+      `/deployments/${DEPLOYMENT}/streams?active=false&token=0xa&sender=${id(ALICE)}`
+    );
+    const carolMove = moveStreams.find((s) => s.to === id(CAROL))!;
+
+    await db
+      .insertInto("tokens")
+      .values({
+        address: USDC,
+        symbol: "USDC",
+        name: "USD Coin",
+        decimals: 6,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .execute();
+    try {
+      // Same receiver and stream id as ALICE's MOVE stream, in another token
+      await processEvent(db, DEPLOYMENT, {
+        type: `${DEPLOYMENT}::drips::StreamsSet`,
+        data: {
+          account_id: id(ALICE),
+          fa_metadata: USDC,
+          receiver_account_ids: [id(CAROL)],
+          receiver_stream_ids: [carolMove.streamId],
+          receiver_amt_per_secs: ["1000000000"],
+          receiver_starts: ["0"],
+          receiver_durations: ["0"],
+          balance: "50000000",
+          max_end: String(nowSecs + 86400),
+        },
+        sequence_number: "3000",
+        version: "3000",
+        event_index: 0,
+        timestamp: String(nowSecs * 1_000_000),
+      });
+
+      type Token = {
+        faMetadata: string;
+        symbol: string;
+        balance: string;
+        balanceRaw: string;
+        fundedUntil: string | null;
+        streams: Array<{ to: string; streamId: string; status: string }>;
+      };
+      const { tokens } = await get<{ tokens: Token[] }>(
+        `/deployments/${DEPLOYMENT}/accounts/${id(ALICE)}/streams?active=false`
+      );
+      const byToken = new Map(tokens.map((t) => [t.faMetadata, t]));
+      assert.equal(tokens.length, 2);
+      // The USDC StreamsSet leaves the MOVE streams as they were
+      assert.equal(byToken.get("0xa")?.balanceRaw, "98000");
+      assert.equal(byToken.get("0xa")?.fundedUntil, "2023-11-15T03:42:40.000Z");
+      assert.deepEqual(
+        byToken
+          .get("0xa")
+          ?.streams.map((s) => s.status)
+          .sort(),
+        ["out_of_funds", "stopped"]
+      );
+      assert.equal(byToken.get(USDC)?.symbol, "USDC");
+      assert.equal(byToken.get(USDC)?.balance, "50");
+      assert.equal(
+        byToken.get(USDC)?.fundedUntil,
+        new Date((nowSecs + 86400) * 1000).toISOString()
+      );
+      assert.deepEqual(byToken.get(USDC)?.streams, [
+        {
+          ...byToken.get(USDC)!.streams[0],
+          to: id(CAROL),
+          streamId: carolMove.streamId,
+          status: "streaming",
+        },
+      ]);
+      assert.equal((await get<unknown[]>(`/deployments/${DEPLOYMENT}/streams`)).length, 1);
+    } finally {
+      await db.deleteFrom("events").where("transaction_version", "=", 3000).execute();
+      await db.deleteFrom("streams").where("fa_metadata", "=", USDC).execute();
+      await db.deleteFrom("streams_states").where("fa_metadata", "=", USDC).execute();
+      await db.deleteFrom("stream_changes").where("fa_metadata", "=", USDC).execute();
+      await db.deleteFrom("streams_history").where("fa_metadata", "=", USDC).execute();
+      await db.deleteFrom("tokens").where("address", "=", USDC).execute();
+    }
+  });
+
+  it("records what each StreamsSet changed, net of what was streamed", async () => {
+    type Change = {
+      type: string;
+      receiverId: string | null;
+      from: { amtPerSec: string } | null;
+      amountRaw: string | null;
+      version: number;
+    };
+    const { history } = await get<{ history: Change[] }>(
+      `/deployments/${DEPLOYMENT}/accounts/${id(ALICE)}/stream-history`
+    );
+    assert.deepEqual(
+      history.map((c) => [c.version, c.type, c.receiverId]),
+      [
+        [1008, "removed", id(BOB)],
+        [1008, "top_up", null],
+        [1000, "added", id(BOB)],
+        [1000, "added", id(CAROL)],
+        [1000, "top_up", null],
+      ]
+    );
+    assert.equal(history[0].from?.amtPerSec, "10000000000");
+    // 160s at 15 units/s streamed 2400 of the 100000, leaving 97600 before the update
+    assert.equal(history[1].amountRaw, "400");
+    assert.equal(history[4].amountRaw, "100000");
+
+    const [latest] = await get<Array<{ changes: Change[] }>>(
+      `/deployments/${DEPLOYMENT}/events?type=StreamsSet`
+    );
+    assert.deepEqual(
+      latest.changes.map((c) => c.type),
+      ["removed", "top_up"]
+    );
+
+    // Rate and schedule changes, and withdrawals, from the diff itself
+    const { diffStreamsConfigs } = await import("../../src/accounting/changes.js");
+    const receiver = (amtPerSec: bigint, duration = 0n) => ({
+      accountId: 1n,
+      config: { streamId: 7n, amtPerSec, start: 0n, duration },
+    });
+    const changes = diffStreamsConfigs(
+      {
+        receivers: [receiver(1_000_000_000n)],
+        updateTime: 100n,
+        maxEnd: 1000n,
+        balance: 500n,
+      },
+      {
+        receivers: [receiver(2_000_000_000n, 60n)],
+        updateTime: 200n,
+        maxEnd: 250n,
+        balance: 100n,
+      }
+    );
+    assert.deepEqual(
+      changes.map((c) => [c.change_type, c.amount]),
+      [
+        ["rate_changed", null],
+        ["schedule_changed", null],
+        ["withdrawal", "300"], // 100 streamed, 400 left, 100 kept
+      ]
+    );
+  });
+
+  it("diffs replayed StreamsSets against the configuration before them", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const { reindexDeployment } = await import("../../src/indexer/reindex.js");
+    const changes = () =>
+      getDb()
+        .selectFrom("stream_changes")
+        .select(["transaction_version", "change_type", "receiver_id", "amount"])
+        .where("deployment_address", "=", DEPLOYMENT)
+        .orderBy("transaction_version")
+        .orderBy("change_type")
+        .orderBy("receiver_id")
+        .execute();
+    const before = await changes();
+
+    // streams_states already holds the 1008 state while 1000 is replayed
+    await reindexDeployment({ deployment: DEPLOYMENT, fromVersion: 1000 });
+    assert.deepEqual(await changes(), before);
+    assert.equal(before.length, 5);
+  });
+
+  it("rebuilds identical derived tables from the stored events", async () => {
+    const { reindexDeployment } = await import("../../src/indexer/reindex.js");
+    const before = await derivedRows();
+
+    const progress = await reindexDeployment({ deployment: DEPLOYMENT });
+    assert.equal(progress.status, "completed");
+    assert.equal(progress.eventsReplayed, 8);
+    assert.deepEqual(await derivedRows(), before);
+    assert.deepEqual(
+      Object.values(before).map((rows) => rows.length),
+      [2, 1, 5, 2, 1, 3]
+    );
+  });
+
+  it("sees reindexes in other processes and rolls back one that loses its lease", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const { reindexDeployment } = await import("../../src/indexer/reindex.js");
+    const { syncDeployment } = await import("../../src/indexer/sync.js");
+    const db = getDb();
+    const before = await derivedRows();
+
+    // Another process's reindex is only visible through its lease
+    const now = Date.now();
+    await db
+      .insertInto("sync_locks")
+      .values({
+        deployment_address: DEPLOYMENT,
+        owner: "elsewhere:1:reindex",
+        acquired_at: new Date(now).toISOString(),
+        expires_at: new Date(now + 60_000).toISOString(),
+        purpose: "reindex",
+      })
+      .execute();
+    try {
+      const sync = await syncDeployment({ deployment: DEPLOYMENT, force: true });
+      assert.equal(sync.reason, "reindexing");
+      const res = await fetch(`${api}/sync/reindex`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deployment: DEPLOYMENT }),
+      });
+      assert.equal(res.status, 409);
+      assert.match(
+        ((await res.json()) as { message: string }).message,
+        /Reindex already running/
+      );
+    } finally {
+      await db
+        .deleteFrom("sync_locks")
+        .where("deployment_address", "=", DEPLOYMENT)
+        .execute();
+    }
+
+    const lost = {
+      deployment: DEPLOYMENT,
+      owner: "lost",
+      renew: async () => false,
+      release: async () => {},
+    };
+    await assert.rejects(
+      reindexDeployment({ deployment: DEPLOYMENT, lease: lost }),
+      /Sync lease lost/
+    );
+    assert.deepEqual(await derivedRows(), before);
+  });
+
+  it("builds squeeze_streams arguments from the sender's streams history", async () => {
+    const { buildSqueezeHistory, parseStoredReceivers } =
+      await import("../../src/accounting/history.js");
+    type Squeeze = {
+      squeezableRaw: string;
+      historyHash: string;
+      history: Array<{ streamsHash: string; receivers: Array<{ accountId: string }> }>;
+      function: string;
+      arguments: unknown[];
+    };
+    const squeeze = (receiver: string) =>
+      get<Squeeze>(
+        `/deployments/${DEPLOYMENT}/accounts/${id(receiver)}/squeeze?sender=${id(ALICE)}&token=0xa`
+      );
+    const carol = await squeeze(CAROL);
+
+    // The cycle of both StreamsSets is long over: only the latest one is walked,
+    // chained onto the hash of the first
+    const [first, latest] = (
+      await get<Array<{ data: Record<string, string[]> }>>(
+        `/deployments/${DEPLOYMENT}/events?type=StreamsSet&order=asc`
+      )
+    ).map((e) =>
+      e.data.receiver_account_ids.map((accountId, i) => ({
+        accountId: BigInt(accountId),
+        config: {
+          streamId: BigInt(e.data.receiver_stream_ids[i]),
+          amtPerSec: BigInt(e.data.receiver_amt_per_secs[i]),
+          start: BigInt(e.data.receiver_starts[i]),
+          duration: BigInt(e.data.receiver_durations[i]),
+        },
+      }))
+    );
+    const historyHash = hashStreamsHistory(
+      new Uint8Array(),
+      hashStreams(first),
+      1700000000n,
+      1700006666n
+    );
+    assert.equal(carol.historyHash, "0x" + Buffer.from(historyHash).toString("hex"));
+    assert.equal(carol.function, `${DEPLOYMENT}::drips::squeeze_streams`);
+    assert.equal(carol.squeezableRaw, "0");
+    assert.deepEqual(carol.arguments, [
+      id(CAROL),
+      "0xa",
+      id(ALICE),
+      Array.from(historyHash),
+      [[]],
+      [[id(CAROL)]],
+      [[latest[0].config.streamId.toString()]],
+      [[latest[0].config.amtPerSec.toString()]],
+      [["0"]],
+      [["0"]],
+      ["1700000160"],
+      ["1700019760"],
+    ]);
+
+    // BOB isn't in the latest configuration: the entry is collapsed to its hash
+    const bob = await squeeze(BOB);
+    assert.deepEqual(bob.history[0].receivers, []);
+    assert.equal(
+      bob.history[0].streamsHash,
+      "0x" + Buffer.from(hashStreams(latest)).toString("hex")
+    );
+    assert.deepEqual(bob.arguments.slice(4, 6), [[Array.from(hashStreams(latest))], [[]]]);
+
+    for (const route of [
+      `accounts/${id(BOB)}/squeeze?token=0xa`,
+      `accounts/abc/squeeze?sender=${id(ALICE)}&token=0xa`,
+      `accounts/${id(BOB)}/squeeze?sender=${2n ** 256n}&token=0xa`,
+    ]) {
+      const res = await fetch(`${api}/deployments/${DEPLOYMENT}/${route}`);
+      assert.equal(res.status, 400, route);
+    }
+
+    // The last two updates are in the current 60s cycle: they are walked along
+    // with the one before, which still streamed when the cycle started
+    const row = (update_time: number, receivers: string) => ({
+      id: 0,
+      deployment_address: DEPLOYMENT,
+      account_id: "1",
+      fa_metadata: "0xa",
+      receivers,
+      update_time,
+      max_end: "5000",
+      balance: "100",
+      transaction_version: null,
+      event_index: null,
+      timestamp: "",
+    });
+    const toBob = JSON.stringify([
+      {
+        account_id: "2",
+        stream_id: "1",
+        amt_per_sec: "1000000000",
+        start: "0",
+        duration: "0",
+      },
+    ]);
+    const inCycle = buildSqueezeHistory(
+      [row(900, toBob), row(1000, toBob), row(1210, toBob), row(1230, "[]")],
+      2n,
+      60n,
+      1235n
+    );
+    assert.deepEqual(
+      inCycle.entries.map((e) => [e.updateTime, e.receivers.length]),
+      [
+        [1000n, 1],
+        [1210n, 1],
+        [1230n, 0],
+      ]
+    );
+    assert.deepEqual(
+      inCycle.historyHash,
+      hashStreamsHistory(
+        new Uint8Array(),
+        hashStreams(parseStoredReceivers(toBob)),
+        900n,
+        5000n
+      )
+    );
+  });
+
+  it("hashes receiver lists like the contract and verifies indexed configs", async () => {
+    const view = async (fn: string, args: unknown[]) => {
+      const res = await fetch(`${node.url}/view`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          function: `${DEPLOYMENT}::drips::${fn}`,
+          type_arguments: [],
+          arguments: args,
+        }),
+      });
+      assert.equal(res.status, 200, `${fn} → ${res.status}`);
+      return ((await res.json()) as string[])[0];
+    };
+    const receiver = (wallet: string, streamId: bigint, amtPerSec: bigint) => ({
+      accountId: BigInt(wallet),
+      config: { streamId, amtPerSec, start: 0n, duration: 0n },
+    });
+    const streams = [
+      receiver(BOB, 1n, 10_000_000_000n),
+      receiver(CAROL, 2n, 5_000_000_000n),
+    ];
+    assert.equal(
+      await view("hash_streams_view", [
+        streams.map((r) => r.accountId.toString()),
+        ["1", "2"],
+        ["10000000000", "5000000000"],
+        ["0", "0"],
+        ["0", "0"],
+      ]),
+      toHex(hashStreams(streams))
+    );
+    assert.equal(
+      await view("hash_splits_view", [[id(CAROL)], [500000]]),
+      toHex(hashSplits([{ accountId: BigInt(CAROL), weight: 500000 }]))
+    );
+    assert.equal(toHex(hashStreams([])), "0x");
+
+    // BCS layout: ULEB128 length, then u256 / u64 fields little-endian
+    assert.equal(
+      Buffer.from(
+        encodeStreamReceivers([
+          {
+            accountId: 1n,
+            config: { streamId: 2n, amtPerSec: 3n, start: 4n, duration: 5n },
+          },
+        ])
+      ).toString("hex"),
+      [
+        "01",
+        "01" + "00".repeat(31),
+        "02" + "00".repeat(7),
+        "03" + "00".repeat(31),
+        "04" + "00".repeat(7),
+        "05" + "00".repeat(7),
+      ].join("")
+    );
+
+    // The indexed history and splits hash to what streams_state / splits_hash report
+    type Check = { indexed: string; onChain: string | null; matches: boolean | null };
+    const alice = await get<{
+      matches: boolean | null;
+      streams: Array<{ faMetadata: string; streamsHash: Check; historyHash: Check }>;
+    }>(`/deployments/${DEPLOYMENT}/accounts/${id(ALICE)}/verify`);
+    assert.equal(alice.matches, true);
+    assert.deepEqual(
+      alice.streams.map((s) => [
+        s.faMetadata,
+        s.streamsHash.matches,
+        s.historyHash.matches,
+      ]),
+      [["0xa", true, true]]
+    );
+    const bob = await get<{ matches: boolean | null; splits: Check }>(
+      `/deployments/${DEPLOYMENT}/accounts/${id(BOB)}/verify`
+    );
+    assert.equal(bob.splits.onChain, bob.splits.indexed);
+    assert.equal(bob.matches, true);
+  });
+
+  it("stores splits with their weights", async () => {
+    const splits = await get(`/deployments/${DEPLOYMENT}/splits`);
+    assert.deepEqual(splits, [
+      {
+        accountId: id(BOB),
+        receivers: [{ to: id(CAROL), weight: 500000, pct: 50 }],
+        totalPct: 50,
+      },
+    ]);
+  });
+
+  it("creates accounts for every participant with driver and wallet", async () => {
+    const accounts = await get<
+      Array<{ accountId: string; walletAddress: string; driverName: string | null }>
+    >(`/deployments/${DEPLOYMENT}/accounts`);
+    const byId = new Map(accounts.map((a) => [a.accountId, a]));
+    assert.equal(accounts.length, 3);
+    assert.equal(byId.get(id(ALICE))?.walletAddress, ALICE);
+    assert.equal(byId.get(id(ALICE))?.driverName, "address_driver");
+    assert.equal(byId.get(id(BOB))?.walletAddress, BOB);
+    assert.equal(byId.get(id(CAROL))?.walletAddress, CAROL);
+  });
+
+  it("keeps the latest metadata value per key and every value in its history", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const { processEvent } = await import("../../src/indexer/processor.js");
+    const db = getDb();
+    const hex = (text: string) => toHex(new TextEncoder().encode(text));
+    const emit = (version: number, key: string, value: string) =>
+      processEvent(db, DEPLOYMENT, {
+        type: `${DEPLOYMENT}::drips::AccountMetadataEmitted`,
+        data: { account_id: id(BOB), key: hex(key), value },
+        sequence_number: String(version),
+        version: String(version),
+        event_index: 0,
+        tx_hash: `0x${version}`,
+        timestamp: String(1_700_000_000_000_000 + version * 1_000_000),
+      });
+
+    type Entry = {
+      key: string;
+      value: string | null;
+      json: unknown;
+      hex: string;
+      version: string;
+      txHash: string | null;
+    };
+    try {
+      await emit(3000, "name", hex("Bob"));
+      await emit(3001, "name", hex("Robert"));
+      await emit(3002, "profile", hex('{"avatar":"ipfs://bob"}'));
+      await emit(3003, "raw", "0xff00");
+      // Replayed out of order - an older value never replaces a newer one
+      await emit(2999, "name", hex("B."));
+
+      const { metadata } = await get<{ metadata: Entry[] }>(
+        `/deployments/${DEPLOYMENT}/accounts/${id(BOB)}/metadata`
+      );
+      assert.deepEqual(
+        metadata.map((m) => [m.key, m.value, m.json, m.hex, String(m.version), m.txHash]),
+        [
+          ["name", "Robert", null, hex("Robert"), "3001", "0x3001"],
+          [
+            "profile",
+            '{"avatar":"ipfs://bob"}',
+            { avatar: "ipfs://bob" },
+            hex('{"avatar":"ipfs://bob"}'),
+            "3002",
+            "0x3002",
+          ],
+          ["raw", null, null, "0xff00", "3003", "0x3003"],
+        ]
+      );
+
+      const { history } = await get<{ history: Entry[] }>(
+        `/deployments/${DEPLOYMENT}/accounts/${id(BOB)}/metadata/history?key=name`
+      );
+      assert.deepEqual(
+        history.map((m) => m.value),
+        ["Robert", "Bob", "B."]
+      );
+      const page = await get<{ history: Entry[] }>(
+        `/deployments/${DEPLOYMENT}/accounts/${id(BOB)}/metadata/history?limit=2&offset=1`
+      );
+      assert.deepEqual(
+        page.history.map((m) => m.key),
+        ["profile", "name"]
+      );
+
+      // The account list only carries text values
+      const accounts = await get<
+        Array<{ accountId: string; metadata: Record<string, string> }>
+      >(`/deployments/${DEPLOYMENT}/accounts`);
+      assert.deepEqual(accounts.find((a) => a.accountId === id(BOB))?.metadata, {
+        name: "Robert",
+        profile: '{"avatar":"ipfs://bob"}',
+      });
+    } finally {
+      await db.deleteFrom("events").where("transaction_version", ">=", 2999).execute();
+      await db.deleteFrom("account_metadata").execute();
+      await db.deleteFrom("account_metadata_history").execute();
+    }
+  });
+
+  it("serves balances from the fixture's view calls", async () => {
+    const { balances } = await get<{
+      balances: Array<{
+        faMetadata: string;
+        splittable: string | null;
+        live: boolean;
+        symbol: string;
+      }>;
+    }>(`/deployments/${DEPLOYMENT}/accounts/${id(BOB)}/balances`);
+    assert.equal(balances.length, 1);
+    assert.equal(balances[0].faMetadata, "0xa");
+    assert.equal(balances[0].splittable, "1200000000");
+    assert.equal(balances[0].live, true);
+
+    const user = await get<{
+      deployments: Array<{ splittable: string; incoming: unknown[]; splits: unknown[] }>;
+    }>(`/users/${BOB}`);
+    assert.equal(user.deployments.length, 1);
+    assert.equal(user.deployments[0].splittable, "12 MOVE");
+    assert.equal(user.deployments[0].splits.length, 1);
+  });
+
+  it("filters events and pages through them with a keyset cursor", async () => {
+    type Event = {
+      id: number;
+      eventType: string;
+      version: number;
+      data: Record<string, unknown>;
+    };
+    const route = `/deployments/${DEPLOYMENT}/events`;
+
+    // Bob emits the Collected and is a receiver in the first StreamsSet
+    const bob = await get<Event[]>(
+      `${route}?accountId=${id(BOB)}&type=StreamsSet,Collected`
+    );
+    assert.deepEqual(
+      bob.map((e) => [e.eventType, e.version]),
+      [
+        ["Collected", 1007],
+        ["StreamsSet", 1000],
+      ]
+    );
+    const token = bob[0].data.fa_metadata;
+    const all = await get<Event[]>(route);
+    assert.deepEqual(
+      await get<Event[]>(`${route}?token=${token}`),
+      all.filter((e) => e.data.fa_metadata === token)
+    );
+    assert.deepEqual(
+      (await get<Event[]>(`${route}?fromVersion=1003&toVersion=1005`)).map(
+        (e) => e.version
+      ),
+      all.map((e) => e.version).filter((v) => v >= 1003 && v <= 1005)
+    );
+
+    // Oldest first, three at a time - the pages join up to the full list
+    const pages: Event[] = [];
+    let cursor: string | null = "";
+    while (cursor !== null) {
+      const res = await fetch(`${api}${route}?order=asc&limit=3&cursor=${cursor}`);
+      pages.push(...((await res.json()) as Event[]));
+      cursor = res.headers.get("x-next-cursor");
+    }
+    assert.deepEqual(pages, [...all].reverse());
+
+    const invalid = await fetch(`${api}${route}?cursor=nope&type=Streamed`);
+    assert.equal(invalid.status, 400);
+    const { details } = (await invalid.json()) as { details: Record<string, unknown> };
+    assert.ok(details.type);
+
+    const user = await get<Event[]>(`/users/${BOB}/events`);
+    assert.ok(user.length < all.length);
+    assert.ok(user.some((e) => e.eventType === "Collected"));
+  });
+
+  it("answers nested GraphQL queries with cursor pagination", async () => {
+    const graphql = async <T = unknown>(query: string, variables = {}) => {
+      const res = await fetch(`${api}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables }),
+      });
+      return (await res.json()) as { data?: T; errors?: Array<{ message: string }> };
+    };
+
+    const { data, errors } = await graphql<{
+      account: { outgoingStreams: unknown[]; events: { nodes: unknown[] } };
+    }>(
+      `
+        query ($deployment: String!, $alice: String!) {
+          account(deployment: $deployment, accountId: $alice) {
+            walletAddress
+            outgoingStreams {
+              amtPerSec
+              status
+              receiver {
+                walletAddress
+                splitsReceived {
+                  account {
+                    walletAddress
+                  }
+                  weight
+                }
+              }
+            }
+            events(types: [StreamsSet]) {
+              nodes {
+                type
+                version
+              }
+            }
+          }
+        }
+      `,
+      { deployment: DEPLOYMENT, alice: id(ALICE) }
+    );
+    assert.equal(errors, undefined);
+    assert.deepEqual(data!.account.outgoingStreams, [
+      {
+        amtPerSec: "10000000000",
+        status: "stopped",
+        receiver: { walletAddress: BOB, splitsReceived: [] },
+      },
+      {
+        amtPerSec: "5000000000",
+        status: "out_of_funds",
+        receiver: {
+          walletAddress: CAROL,
+          splitsReceived: [{ account: { walletAddress: BOB }, weight: 500000 }],
+        },
+      },
+    ]);
+    assert.equal(data!.account.events.nodes.length, 2);
+
+    const page = `
+      query ($after: String) {
+        deployment(address: "${DEPLOYMENT}") {
+          events(first: 5, after: $after) {
+            nodes { id }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      }
+    `;
+    type EventPage = {
+      deployment: {
+        events: {
+          nodes: Array<{ id: string }>;
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        };
+      };
+    };
+    const first = (await graphql<EventPage>(page)).data!.deployment.events;
+    assert.equal(first.nodes.length, 5);
+    assert.equal(first.pageInfo.hasNextPage, true);
+    const second = (await graphql<EventPage>(page, { after: first.pageInfo.endCursor }))
+      .data!.deployment.events;
+    assert.equal(second.nodes.length, 3);
+    assert.equal(second.pageInfo.hasNextPage, false);
+    assert.ok(second.nodes[0].id < first.nodes[4].id);
+
+    const tooDeep = await graphql(`
+      {
+        streams {
+          nodes {
+            sender {
+              outgoingStreams {
+                receiver {
+                  incomingStreams {
+                    sender {
+                      splits {
+                        receiver {
+                          splits {
+                            receiver {
+                              walletAddress
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `);
+    assert.match(tooDeep.errors![0].message, /exceeds the maximum of 10/);
+  });
+
+  it("queues one sync job per deployment and runs it once the lease is free", async () => {
+    const { acquireSyncLease } = await import("../../src/indexer/lock.js");
+    const { drainQueue, getSyncJob } = await import("../../src/indexer/queue.js");
+
+    // Someone else is syncing - the job has to wait in the queue
+    const lease = await acquireSyncLease(DEPLOYMENT);
+    assert.ok(lease);
+    assert.equal(await acquireSyncLease(DEPLOYMENT), null);
+
+    const post = () =>
+      fetch(`${api}/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deployment: DEPLOYMENT, force: true }),
+      });
+    const first = await post();
+    assert.equal(first.status, 202);
+    const { job } = (await first.json()) as { job: { id: number; status: string } };
+    assert.equal(job.status, "queued");
+
+    const second = (await (await post()).json()) as { job: { id: number } };
+    assert.equal(second.job.id, job.id);
+    assert.equal(
+      (await get<{ queue: { queued: number } }>(`/sync/status`)).queue.queued,
+      1
+    );
+
+    await lease!.release();
+    drainQueue();
+    let finished = await getSyncJob(job.id);
+    for (let i = 0; i < 50 && finished?.status !== "done"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      finished = await getSyncJob(job.id);
+    }
+    assert.equal(finished?.status, "done");
+    assert.equal(finished?.cursor, "1008");
+    assert.deepEqual(await get(`/sync/jobs/${job.id}`), finished);
+  });
+
+  it("streams missed events on resume and pushes sync progress", async () => {
+    type Indexed = { id: number; version: number };
+    type SyncState = {
+      status: Array<{ deployment: string; lastSyncedAt: string }>;
+      job: { status: string } | null;
+    };
+    const replayed = await readStream(
+      `/deployments/${DEPLOYMENT}/events/stream?after=0`,
+      (m) => m.some((e) => e.event === "sync")
+    );
+    assert.equal(replayed[0].event, "ready");
+    const indexed = replayed.filter((m) => m.event === "indexed");
+    assert.equal(indexed.length, 8);
+    assert.deepEqual(
+      indexed.map((m) => Number(m.id)),
+      indexed.map((m) => (m.data as Indexed).id)
+    );
+    const state = replayed.find((m) => m.event === "sync")!.data as SyncState;
+    assert.equal(state.status[0].deployment, DEPLOYMENT);
+    assert.equal(state.job?.status, "done");
+
+    // Without a resume point only changes from now on are sent
+    let syncs = 0;
+    const live = await readStream(
+      `/deployments/${DEPLOYMENT}/events/stream`,
+      () => syncs === 2,
+      (message) => {
+        if (message.event === "sync" && ++syncs === 1) {
+          void sync.syncDeployment({ deployment: DEPLOYMENT, force: true });
+        }
+      }
+    );
+    assert.equal(live.filter((m) => m.event === "indexed").length, 0);
+    const [before, after] = live
+      .filter((m) => m.event === "sync")
+      .map((m) => m.data as SyncState);
+    assert.ok(after.status[0].lastSyncedAt > before.status[0].lastSyncedAt);
+
+    const bob = await readStream(`/users/${BOB}/events/stream?after=0`, (m) =>
+      m.some((e) => e.event === "sync")
+    );
+    const versions = bob
+      .filter((m) => m.event === "indexed")
+      .map((m) => (m.data as Indexed).version);
+    assert.ok(versions.includes(1000) && versions.includes(1007));
+    assert.ok(versions.length < 8);
+    assert.equal(
+      (bob.find((m) => m.event === "sync")!.data as SyncState).status[0].deployment,
+      DEPLOYMENT
+    );
+  });
+
+  it("breaks deployment stats down per token, each with its own decimals and price", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const db = getDb();
+    const USDC = "0x" + "e5".repeat(32);
+    const now = new Date().toISOString();
+    const event = (type: string, version: number, data: Record<string, unknown>) => ({
+      deployment_address: DEPLOYMENT,
+      event_type: type,
+      account_id: id(BOB),
+      data: JSON.stringify({ account_id: id(BOB), fa_metadata: USDC, ...data }),
+      tx_hash: null,
+      transaction_version: version,
+      event_index: 0,
+      sequence_number: String(version),
+      timestamp: now,
+      sender: null,
+      entry_function: null,
+    });
+
+    await db
+      .insertInto("tokens")
+      .values({
+        address: USDC,
+        symbol: "USDC",
+        name: "USD Coin",
+        decimals: 6,
+        created_at: now,
+        updated_at: now,
+      })
+      .execute();
+    await db
+      .insertInto("token_prices")
+      .values([
+        { token_id: "0xa", symbol: "movement", price_usd: 2, updated_at: now },
+        { token_id: USDC, symbol: "USDC", price_usd: 1, updated_at: now },
+      ])
+      .onConflict((oc) =>
+        oc.column("token_id").doUpdateSet({ price_usd: 2, updated_at: now })
+      )
+      .execute();
+    await db
+      .insertInto("events")
+      .values([
+        event("Given", 2000, { receiver_id: id(CAROL), amount: "5000000" }),
+        event("StreamsSet", 2001, { balance: "20000000", receiver_account_ids: [] }),
+      ])
+      .execute();
+    await db
+      .insertInto("streams_states")
+      .values({
+        deployment_address: DEPLOYMENT,
+        account_id: id(BOB),
+        fa_metadata: USDC,
+        balance: "20000000",
+        max_end: "0",
+        update_time: Math.floor(Date.now() / 1000),
+        transaction_version: 2001,
+        updated_at: now,
+      })
+      .execute();
+
+    try {
+      type TokenStats = {
+        faMetadata: string;
+        symbol: string;
+        volume: string;
+        volumeByType: Record<string, string>;
+        tvl: string;
+        holders: number;
+        activeStreams: number;
+      };
+      const { stats } = await get<{
+        stats: {
+          totalVolumeUsd: string;
+          tvl: string;
+          tvlUsd: string;
+          tokens: TokenStats[];
+        };
+      }>(`/deployments/${DEPLOYMENT}`);
+      const byToken = new Map(stats.tokens.map((t) => [t.faMetadata, t]));
+      assert.equal(stats.tokens.length, 2);
+      assert.deepEqual(byToken.get("0xa")?.volumeByType, {
+        Given: "250",
+        Collected: "365",
+        Received: "600",
+        Squeezed: "130",
+      });
+      assert.equal(byToken.get("0xa")?.holders, 1);
+      assert.equal(byToken.get("0xa")?.activeStreams, 0); // Out of funds since 2023
+      assert.equal(byToken.get(USDC)?.volume, "5");
+      assert.equal(byToken.get(USDC)?.tvl, "20");
+      assert.equal(byToken.get(USDC)?.activeStreams, 0);
+      // MOVE amounts are dust at 8 decimals - the USD totals are the USDC values
+      assert.equal(stats.tvl, "20 USDC");
+      assert.equal(stats.tvlUsd, "$20.00");
+      assert.equal(stats.totalVolumeUsd, "$5.00");
+
+      const [listed] = await get<Array<{ volumeUsd: string; tokens: TokenStats[] }>>(
+        "/deployments?random=false"
+      );
+      assert.equal(listed.volumeUsd, "$5.00");
+      assert.equal(listed.tokens.length, 2);
+    } finally {
+      await db.deleteFrom("events").where("transaction_version", ">=", 2000).execute();
+      await db.deleteFrom("streams_states").where("fa_metadata", "=", USDC).execute();
+      await db.deleteFrom("tokens").where("address", "=", USDC).execute();
+      await db.deleteFrom("token_prices").execute();
+    }
+  });
+
+  it("snapshots daily and hourly analytics per token", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const { snapshotDeployment } = await import("../../src/analytics/snapshots.js");
+    await getDb()
+      .insertInto("token_prices")
+      .values({
+        token_id: "0xa",
+        symbol: "movement",
+        price_usd: 2,
+        updated_at: new Date().toISOString(),
+      })
+      .execute();
+    // CoinGecko's price history has a single point, at the end of the 14th
+    const realFetch = globalThis.fetch;
+    const priceRequests: string[] = [];
+    globalThis.fetch = async (input, init) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (!url.startsWith("https://api.coingecko.com/")) return realFetch(input, init);
+      priceRequests.push(url);
+      return Response.json({ prices: [[Date.parse("2023-11-15T00:00:00Z"), 1.5]] });
+    };
+
+    try {
+      assert.equal(
+        await snapshotDeployment(DEPLOYMENT, "day", new Date("2023-11-16T12:00:00Z")),
+        3
+      );
+      assert.equal(
+        await snapshotDeployment(DEPLOYMENT, "hour", new Date("2023-11-14T23:30:00Z")),
+        2
+      );
+
+      type Bucket = {
+        start: string;
+        newAccounts: number;
+        totalAccounts: number;
+        volumeUsd: number | null;
+        tokens: Array<{
+          priceUsd: number | null;
+          volume: string;
+          volumeUsd: number | null;
+          volumeByType: Record<string, string>;
+          tvl: string;
+          tvlUsd: number | null;
+          activeStreams: number;
+          streamingRate: string;
+        }>;
+      };
+      const { buckets } = await get<{ buckets: Bucket[] }>(
+        `/deployments/${DEPLOYMENT}/analytics?interval=day&from=2023-11-14&to=2023-11-16`
+      );
+      assert.deepEqual(
+        buckets.map((b) => [b.start, b.newAccounts, b.totalAccounts]),
+        [
+          ["2023-11-14T00:00:00.000Z", 3, 3],
+          ["2023-11-15T00:00:00.000Z", 0, 3],
+          ["2023-11-16T00:00:00.000Z", 0, 3],
+        ]
+      );
+      const [first, second, third] = buckets.map((b) => b.tokens[0]);
+      assert.deepEqual(first.volumeByType, {
+        Given: "250",
+        Collected: "365",
+        Received: "600",
+        Squeezed: "130",
+      });
+      // Closed when first written: priced from history, or left unpriced when
+      // it has no point near the bucket's end. The open bucket is at today's price
+      assert.equal(first.priceUsd, 1.5);
+      assert.equal(first.volumeUsd, (1345 / 1e8) * 1.5);
+      assert.equal(second.priceUsd, null);
+      assert.equal(second.tvlUsd, null);
+      assert.equal(third.priceUsd, 2);
+      assert.deepEqual(
+        buckets.map((b) => b.volumeUsd === null),
+        [false, true, false]
+      );
+      assert.match(
+        priceRequests[0],
+        /\/coins\/movement\/market_chart\/range\?vs_currency=usd&/
+      );
+      // Only the second StreamsSet's stream to CAROL runs past the first day
+      assert.equal(first.tvl, "98000");
+      assert.equal(first.activeStreams, 1);
+      assert.equal(first.streamingRate, "5000000000");
+      // ... until its balance runs out early on the 15th
+      assert.equal(second.volume, "0");
+      assert.equal(second.activeStreams, 0);
+
+      const hourly = await get<{ buckets: Bucket[] }>(
+        `/deployments/${DEPLOYMENT}/analytics?interval=hour&from=2023-11-14T22:00:00Z&to=2023-11-14T23:00:00Z`
+      );
+      assert.equal(hourly.buckets.length, 2);
+
+      // A bucket closed since it was last written keeps that price
+      priceRequests.length = 0;
+      await snapshotDeployment(DEPLOYMENT, "day", new Date("2023-11-17T12:00:00Z"));
+      const later = await get<{ buckets: Bucket[] }>(
+        `/deployments/${DEPLOYMENT}/analytics?interval=day&from=2023-11-16&to=2023-11-17`
+      );
+      assert.deepEqual(
+        later.buckets.map((b) => b.tokens[0].priceUsd),
+        [2, 2]
+      );
+      assert.equal(priceRequests.length, 0);
+
+      const invalid = await fetch(
+        `${api}/deployments/${DEPLOYMENT}/analytics?interval=week`
+      );
+      assert.equal(invalid.status, 400);
+    } finally {
+      globalThis.fetch = realFetch;
+      await getDb().deleteFrom("token_prices").execute();
+    }
+  });
+
+  it("leaves everything unchanged when the range is synced again", async () => {
+    await sync.addDeployment(DEPLOYMENT, { startVersion: "985" });
+    assert.equal(await syncUntilCaughtUp(), 0);
+    const events = await get<unknown[]>(`/deployments/${DEPLOYMENT}/events`);
+    assert.equal(events.length, 8);
+  });
+
+  it("reconciles indexed state with the chain and re-syncs a discrepancy", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    type Discrepancy = {
+      id: number;
+      kind: string;
+      accountId: string | null;
+      faMetadata: string | null;
+      indexed: string;
+      onChain: string;
+      resolvedAt: string | null;
+    };
+    const post = async <T = unknown>(route: string, body: unknown = {}): Promise<T> => {
+      const res = await fetch(`${api}${route}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      assert.equal(res.status, 200, `${route} → ${res.status} ${await res.clone().text()}`);
+      return (await res.json()) as T;
+    };
+
+    // Every hash matches; the fixture's balances view is 15 short on splits and
+    // the vault holds a little more than it has to
+    const run = await post<{
+      accountsChecked: number;
+      tokensChecked: number;
+      opened: number;
+      open: Discrepancy[];
+    }>(`/deployments/${DEPLOYMENT}/reconcile`);
+    assert.equal(run.accountsChecked, 2);
+    assert.equal(run.tokensChecked, 1);
+    assert.equal(run.opened, 1);
+    assert.deepEqual(
+      run.open.map((d) => [d.kind, d.faMetadata, d.indexed, d.onChain]),
+      [["splits_balance", "0xa", "615", "600"]]
+    );
+
+    // A lost splits row shows up as a hash mismatch...
+    await getDb().deleteFrom("splits").where("account_id", "=", id(BOB)).execute();
+    const again = await post<{ opened: number }>(`/deployments/${DEPLOYMENT}/reconcile`, {
+      accountId: id(BOB),
+    });
+    assert.equal(again.opened, 1);
+    const [lost] = await get<Discrepancy[]>(
+      `/deployments/${DEPLOYMENT}/discrepancies?kind=splits_hash`
+    );
+    assert.equal(lost.accountId, id(BOB));
+    assert.equal(lost.indexed, "0x");
+
+    // ...that re-syncing from BOB's first event repairs
+    const resync = await post<{ discrepancy: Discrepancy; fromVersion: number }>(
+      `/deployments/${DEPLOYMENT}/discrepancies/${lost.id}/resync`
+    );
+    assert.equal(resync.fromVersion, 1001);
+    assert.notEqual(resync.discrepancy.resolvedAt, null);
+    assert.equal((await get<unknown[]>(`/deployments/${DEPLOYMENT}/splits`)).length, 1);
+
+    // A lost top-up throws the token's streams balance off; re-syncing the token
+    // replays its StreamsSets and restores the change rows the check adds up
+    await getDb()
+      .deleteFrom("stream_changes")
+      .where("transaction_version", "=", 1008)
+      .where("change_type", "=", "top_up")
+      .execute();
+    const short = await post<{ open: Discrepancy[] }>(
+      `/deployments/${DEPLOYMENT}/reconcile`,
+      {
+        token: "0xa",
+      }
+    );
+    const streams = short.open.find((d) => d.kind === "streams_balance")!;
+    assert.deepEqual([streams.indexed, streams.onChain], ["99270", "99670"]);
+    const replayed = await post<{ discrepancy: Discrepancy; fromVersion: number }>(
+      `/deployments/${DEPLOYMENT}/discrepancies/${streams.id}/resync`
+    );
+    assert.equal(replayed.fromVersion, 1000);
+    assert.notEqual(replayed.discrepancy.resolvedAt, null);
+    assert.equal(replayed.discrepancy.indexed, "99670");
+
+    const open = await get<Discrepancy[]>(`/deployments/${DEPLOYMENT}/discrepancies`);
+    assert.deepEqual(
+      open.map((d) => d.kind),
+      ["splits_balance"]
+    );
+    const all = await get<Discrepancy[]>(
+      `/deployments/${DEPLOYMENT}/discrepancies?status=all`
+    );
+    assert.equal(all.length, 3);
+    const invalid = await fetch(`${api}/deployments/${DEPLOYMENT}/discrepancies?kind=nope`);
+    assert.equal(invalid.status, 400);
+  });
+
+  it("backfills a gap in the stored events and replays state from it", async () => {
+    const { getDb } = await import("../../src/database/connection.js");
+    const { reindexDeployment } = await import("../../src/indexer/reindex.js");
+    const versions = async () =>
+      (await get<Array<{ version: number }>>(`/deployments/${DEPLOYMENT}/events`)).map(
+        (e) => e.version
+      );
+    const before = await derivedRows();
+    const events = await versions();
+
+    // Lose SplitsSet and Given, and derive state without them
+    await getDb()
+      .deleteFrom("events")
+      .where("deployment_address", "=", DEPLOYMENT)
+      .where("transaction_version", ">=", 1001)
+      .where("transaction_version", "<=", 1002)
+      .execute();
+    await reindexDeployment({ deployment: DEPLOYMENT });
+    assert.notDeepEqual(await derivedRows(), before);
+
+    const result = await sync.backfillDeployment({
+      deployment: DEPLOYMENT,
+      fromVersion: "1000",
+      toVersion: "1008",
+    });
+    // Events still stored are skipped
+    assert.equal(result.eventsProcessed, 2);
+    assert.equal(result.replayedFrom, 1001);
+    assert.deepEqual(await versions(), events);
+    assert.deepEqual(await derivedRows(), before);
+
+    const cursor = await getDb()
+      .selectFrom("sync_cursors")
+      .select("last_sequence")
+      .where("deployment_address", "=", DEPLOYMENT)
+      .where("event_type", "=", "transactions")
+      .executeTakeFirstOrThrow();
+    assert.equal(cursor.last_sequence, "1008");
+  });
+
+  it("reports sync failures once the node goes away", async () => {
+    await node.close();
+    await assert.rejects(sync.syncDeployment({ deployment: DEPLOYMENT, force: true }), {
+      name: "RpcError",
+    });
+
+    const { status, anyFailing } = await get<{
+      status: Array<{ failing: boolean; consecutiveFailures: number }>;
+      anyFailing: boolean;
+    }>(`/sync/status?deployment=${DEPLOYMENT}`);
+    assert.equal(anyFailing, true);
+    assert.equal(status[0].failing, true);
+    assert.equal(status[0].consecutiveFailures, 1);
+  });
+});
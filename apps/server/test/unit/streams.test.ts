@@ -0,0 +1,184 @@
+// Stream accounting against hand-computed amounts - the streaming acts of the
+// client's end-to-end test (apps/client/test.ts) without a node or waiting
+//
+//   npm test
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  AMT_PER_SEC_MULTIPLIER,
+  applyReceived,
+  applySqueezed,
+  applyStreamsSet,
+  balanceAt,
+  createStreamsLedger,
+  getAccountStreamBalances,
+  receivableStreams,
+  squeezableStreams,
+  streamedAmt,
+  type StreamReceiver,
+  type StreamsLedger,
+} from "../../src/accounting/streams.js";
+
+const TOKEN = "0xa";
+const ALICE = 1n;
+const BOB = 2n;
+const CAROL = 3n;
+const MAX_U64 = 2n ** 64n - 1n;
+// One token per second
+const RATE = AMT_PER_SEC_MULTIPLIER;
+
+function receiver(
+  accountId: bigint,
+  amtPerSec: bigint,
+  start = 0n,
+  duration = 0n
+): StreamReceiver {
+  return { accountId, config: { streamId: 0n, amtPerSec, start, duration } };
+}
+
+/** Alice streams 1000 to Bob at 1/sec from t=30 - mid-cycle, ending at 1030 */
+function aliceStreamsToBob(): StreamsLedger {
+  const ledger = createStreamsLedger(60n);
+  applyStreamsSet(ledger, TOKEN, ALICE, [receiver(BOB, RATE)], 1000n, 1030n, 30n);
+  return ledger;
+}
+
+function balanceOf(ledger: StreamsLedger, accountId: bigint, timestamp: bigint) {
+  const [balance] = getAccountStreamBalances(ledger, accountId, timestamp);
+  assert.equal(balance.faMetadata, TOKEN);
+  return balance;
+}
+
+describe("stream accounting", () => {
+  it("rounds streamed amounts on absolute time, like the contract", () => {
+    const rate = (3n * RATE) / 2n; // 1.5 per second
+    assert.equal(streamedAmt(rate, 0n, 1n), 1n);
+    assert.equal(streamedAmt(rate, 1n, 2n), 2n);
+    assert.equal(streamedAmt(rate, 0n, 2n), 3n);
+    assert.equal(streamedAmt(rate, 5n, 5n), 0n);
+  });
+
+  it("splits a stream started mid-cycle into receivable and squeezable", () => {
+    const ledger = aliceStreamsToBob();
+
+    // Cycles 1-3 ([0, 180)) are complete, cycle 4 is running
+    assert.deepEqual(receivableStreams(ledger, TOKEN, BOB, 200n), {
+      amount: 150n,
+      fromCycle: 1n,
+      toCycle: 4n,
+    });
+    assert.deepEqual(balanceOf(ledger, BOB, 200n), {
+      faMetadata: TOKEN,
+      streamed: 0n,
+      remaining: 0n,
+      maxEnd: 0n,
+      streamedIn: 170n,
+      receivable: 150n,
+      squeezable: 20n,
+    });
+    assert.deepEqual(balanceOf(ledger, ALICE, 200n), {
+      faMetadata: TOKEN,
+      streamed: 170n,
+      remaining: 830n,
+      maxEnd: 1030n,
+      streamedIn: 0n,
+      receivable: 0n,
+      squeezable: 0n,
+    });
+  });
+
+  it("stops streaming at max_end", () => {
+    const ledger = aliceStreamsToBob();
+
+    const bob = balanceOf(ledger, BOB, 2000n);
+    assert.equal(bob.streamedIn, 1000n);
+    assert.equal(bob.receivable, 1000n);
+    assert.equal(bob.squeezable, 0n);
+    assert.equal(balanceAt(ledger, TOKEN, ALICE, 2000n), 0n);
+    assert.equal(balanceOf(ledger, ALICE, 2000n).streamed, 1000n);
+  });
+
+  it("streams only between a receiver's start and start + duration", () => {
+    const ledger = createStreamsLedger(60n);
+    applyStreamsSet(
+      ledger,
+      TOKEN,
+      ALICE,
+      [receiver(CAROL, 2n * RATE, 100n, 50n)],
+      1000n,
+      MAX_U64,
+      30n
+    );
+
+    assert.equal(balanceOf(ledger, CAROL, 90n).streamedIn, 0n);
+    assert.equal(balanceOf(ledger, CAROL, 120n).streamedIn, 40n);
+    const carol = balanceOf(ledger, CAROL, 400n);
+    assert.equal(carol.streamedIn, 100n);
+    assert.equal(carol.receivable, 100n);
+    assert.equal(balanceAt(ledger, TOKEN, ALICE, 400n), 900n);
+  });
+
+  it("moves received cycles out of the receivable amount", () => {
+    const ledger = aliceStreamsToBob();
+    applyReceived(ledger, TOKEN, BOB, 150n, 200n);
+
+    assert.equal(receivableStreams(ledger, TOKEN, BOB, 200n).amount, 0n);
+    // Only cycle 4 ([180, 240)) has completed since
+    assert.deepEqual(receivableStreams(ledger, TOKEN, BOB, 260n), {
+      amount: 60n,
+      fromCycle: 4n,
+      toCycle: 5n,
+    });
+    assert.equal(receivableStreams(ledger, TOKEN, BOB, 2000n).amount, 850n);
+    // Receiving doesn't change what was streamed
+    assert.equal(balanceOf(ledger, BOB, 200n).streamedIn, 170n);
+  });
+
+  it("receives only the cycles a capped receive_streams covered", () => {
+    const ledger = aliceStreamsToBob();
+    // max_cycles = 1: just cycle 1 ([30, 60))
+    applyReceived(ledger, TOKEN, BOB, 30n, 200n);
+
+    assert.deepEqual(receivableStreams(ledger, TOKEN, BOB, 200n), {
+      amount: 120n,
+      fromCycle: 2n,
+      toCycle: 4n,
+    });
+  });
+
+  it("takes squeezed amounts out of the current cycle", () => {
+    const ledger = aliceStreamsToBob();
+    assert.equal(squeezableStreams(ledger, TOKEN, BOB, ALICE, 200n), 20n);
+    applySqueezed(ledger, TOKEN, BOB, ALICE, 20n, 200n);
+
+    // Squeezing again only reaches what streamed since
+    assert.equal(squeezableStreams(ledger, TOKEN, BOB, ALICE, 200n), 0n);
+    assert.equal(squeezableStreams(ledger, TOKEN, BOB, ALICE, 230n), 30n);
+
+    // Once cycle 4 completes the squeezed 20 isn't received a second time
+    const bob = balanceOf(ledger, BOB, 240n);
+    assert.equal(bob.receivable, 190n);
+    assert.equal(bob.squeezable, 0n);
+    assert.equal(bob.streamedIn, 210n);
+  });
+
+  it("squeezes every configuration set in the current cycle", () => {
+    const ledger = aliceStreamsToBob();
+    // Alice doubles the rate at t=190 with the 840 left, ending at 610
+    applyStreamsSet(ledger, TOKEN, ALICE, [receiver(BOB, 2n * RATE)], 840n, 610n, 190n);
+
+    // [180, 190) at 1/sec and [190, 200) at 2/sec
+    assert.equal(squeezableStreams(ledger, TOKEN, BOB, ALICE, 200n), 30n);
+    assert.equal(receivableStreams(ledger, TOKEN, BOB, 240n).amount, 260n);
+    assert.equal(balanceAt(ledger, TOKEN, ALICE, 240n), 740n);
+
+    // Stopping at t=300 keeps the 620 not yet streamed
+    applyStreamsSet(ledger, TOKEN, ALICE, [], 620n, 300n, 300n);
+    const bob = balanceOf(ledger, BOB, 1000n);
+    assert.equal(bob.streamedIn, 380n);
+    assert.equal(bob.receivable, 380n);
+    assert.equal(balanceAt(ledger, TOKEN, ALICE, 1000n), 620n);
+    assert.equal(balanceOf(ledger, ALICE, 1000n).streamed, 380n);
+  });
+});
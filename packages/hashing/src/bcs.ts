@@ -0,0 +1,54 @@
+// BCS encoding of the receiver lists, as `bcs::to_bytes` lays them out
+//
+// Integers are little-endian at their full width, structs are their fields in
+// declaration order and vectors are prefixed with their ULEB128 length.
+
+import type { SplitsReceiver, StreamReceiver } from "./types.js";
+
+/** A u8 / u32 / u64 / u256 value */
+export function encodeUint(value: bigint, bytes: number): number[] {
+  if (value < 0n || value >= 1n << BigInt(bytes * 8)) {
+    throw new RangeError(`${value} does not fit in u${bytes * 8}`);
+  }
+  const out: number[] = [];
+  for (let i = 0; i < bytes; i++) {
+    out.push(Number((value >> BigInt(i * 8)) & 0xffn));
+  }
+  return out;
+}
+
+/** Vector length prefix */
+export function encodeLength(length: number): number[] {
+  const out: number[] = [];
+  do {
+    let byte = length & 0x7f;
+    length >>>= 7;
+    if (length !== 0) byte |= 0x80;
+    out.push(byte);
+  } while (length !== 0);
+  return out;
+}
+
+/** `vector<streams::StreamReceiver>` */
+export function encodeStreamReceivers(receivers: StreamReceiver[]): Uint8Array {
+  const bytes = encodeLength(receivers.length);
+  for (const r of receivers) {
+    bytes.push(
+      ...encodeUint(r.accountId, 32),
+      ...encodeUint(r.config.streamId, 8),
+      ...encodeUint(r.config.amtPerSec, 32),
+      ...encodeUint(r.config.start, 8),
+      ...encodeUint(r.config.duration, 8)
+    );
+  }
+  return Uint8Array.from(bytes);
+}
+
+/** `vector<splits::SplitsReceiver>` */
+export function encodeSplitsReceivers(receivers: SplitsReceiver[]): Uint8Array {
+  const bytes = encodeLength(receivers.length);
+  for (const r of receivers) {
+    bytes.push(...encodeUint(r.accountId, 32), ...encodeUint(BigInt(r.weight), 4));
+  }
+  return Uint8Array.from(bytes);
+}
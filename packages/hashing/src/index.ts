@@ -0,0 +1,62 @@
+// Hashes the drips contracts keep instead of receiver lists
+//
+// The contracts only store a hash of each account's current receivers (and a
+// hash chain over its streams configurations), then check callers' "current
+// receivers" against it. These match `hash_streams`, `hash_streams_history`
+// and `hash_splits` byte for byte, so the lists can be checked - or
+// transactions built - without a view call.
+
+import { encodeSplitsReceivers, encodeStreamReceivers, encodeUint } from "./bcs.js";
+import { blake2b256 } from "./blake2b.js";
+import type { SplitsReceiver, StreamReceiver } from "./types.js";
+
+export {
+  encodeLength,
+  encodeSplitsReceivers,
+  encodeStreamReceivers,
+  encodeUint,
+} from "./bcs.js";
+export { blake2b, blake2b256 } from "./blake2b.js";
+export type { SplitsReceiver, StreamConfig, StreamReceiver } from "./types.js";
+
+/** `streams::hash_streams` - empty for an empty receiver list */
+export function hashStreams(receivers: StreamReceiver[]): Uint8Array {
+  if (receivers.length === 0) return new Uint8Array();
+  return blake2b256(encodeStreamReceivers(receivers));
+}
+
+/** `streams::hash_streams_history` - one link of the history hash chain */
+export function hashStreamsHistory(
+  oldHistoryHash: Uint8Array,
+  streamsHash: Uint8Array,
+  updateTime: bigint,
+  maxEnd: bigint
+): Uint8Array {
+  return blake2b256(
+    Uint8Array.from([
+      ...oldHistoryHash,
+      ...streamsHash,
+      ...encodeUint(updateTime, 8),
+      ...encodeUint(maxEnd, 8),
+    ])
+  );
+}
+
+/** `splits::hash_splits` - empty for an empty receiver list */
+export function hashSplits(receivers: SplitsReceiver[]): Uint8Array {
+  if (receivers.length === 0) return new Uint8Array();
+  return blake2b256(encodeSplitsReceivers(receivers));
+}
+
+/** 0x-prefixed hex, the way the node returns a `vector<u8>` */
+export function toHex(bytes: Uint8Array): string {
+  return "0x" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const body = hex.startsWith("0x") ? hex.slice(2) : hex;
+  if (body.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(body)) {
+    throw new Error(`Invalid hex: ${hex}`);
+  }
+  return Uint8Array.from(body.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
@@ -0,0 +1,18 @@
+// Receiver structs of streams.move and splits.move - u64 / u256 fields as bigints
+
+export interface StreamConfig {
+  streamId: bigint;
+  amtPerSec: bigint; // With 9 extra decimals
+  start: bigint; // 0 = starts at the update time
+  duration: bigint; // 0 = runs until max_end
+}
+
+export interface StreamReceiver {
+  accountId: bigint;
+  config: StreamConfig;
+}
+
+export interface SplitsReceiver {
+  accountId: bigint;
+  weight: number; // Out of 1,000,000
+}
@@ -0,0 +1,114 @@
+// BLAKE2b and receiver hashes against values from other implementations -
+// nothing here is computed with this package
+//
+//   npm test
+
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  blake2b,
+  blake2b256,
+  hashSplits,
+  hashStreams,
+  hashStreamsHistory,
+  toHex,
+  type SplitsReceiver,
+  type StreamReceiver,
+} from "../src/index.js";
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const ALICE = BigInt("0x" + "a1".repeat(32));
+const BOB = BigInt("0x" + "b0".repeat(32));
+
+describe("blake2b", () => {
+  it("matches the RFC 7693 example", () => {
+    // Appendix A: BLAKE2b-512("abc")
+    assert.equal(
+      toHex(blake2b(utf8("abc"))),
+      "0xba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1" +
+        "7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923"
+    );
+  });
+
+  it("matches OpenSSL's blake2b512 across block boundaries", () => {
+    for (const length of [0, 1, 127, 128, 129, 255, 256, 257, 1000]) {
+      const input = Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xff);
+      assert.equal(
+        toHex(blake2b(input)),
+        "0x" + crypto.createHash("blake2b512").update(input).digest("hex"),
+        `${length} bytes`
+      );
+    }
+  });
+
+  it("parameterizes blake2b-256 rather than truncating", () => {
+    // @noble/hashes 1.8 blake2b with dkLen 32
+    const vectors: Array<[string, string]> = [
+      ["", "0x0e5751c026e543b2e8ab2eb06099daa1d1e5df47778f7787faab45cdf12fe3a8"],
+      ["abc", "0xbddd813c634239723171ef3fee98579b94964e3bb1cb3e427262c8c068d52319"],
+      [
+        "The quick brown fox jumps over the lazy dog",
+        "0x01718cec35cd3d796dd00020e0bfecb473ad23457d063b75eff29c0ffa2e58a9",
+      ],
+    ];
+    for (const [input, expected] of vectors) {
+      assert.equal(toHex(blake2b256(utf8(input))), expected, JSON.stringify(input));
+    }
+  });
+});
+
+// BCS from the Aptos TS SDK's Serializer (5.2) and blake2b-256 from
+// @noble/hashes, in the field order of streams.move / splits.move
+describe("receiver hashes", () => {
+  const streams: StreamReceiver[] = [
+    {
+      accountId: ALICE,
+      config: { streamId: 1n, amtPerSec: 10_000_000_000n, start: 0n, duration: 0n },
+    },
+    {
+      accountId: BOB,
+      config: {
+        streamId: 2n,
+        amtPerSec: 2n ** 200n + 5n,
+        start: 1_700_000_000n,
+        duration: 86_400n,
+      },
+    },
+  ];
+
+  it("hashes streams like hash_streams", () => {
+    assert.equal(
+      toHex(hashStreams(streams)),
+      "0x4e8039d8981c5d551b9ea406c6e5a34a4d5440cbb156700b393cd0ce9b74a045"
+    );
+    assert.equal(hashStreams([]).length, 0);
+  });
+
+  it("chains history like hash_streams_history", () => {
+    assert.equal(
+      toHex(
+        hashStreamsHistory(
+          new Uint8Array(),
+          hashStreams(streams),
+          1_700_000_000n,
+          1_700_086_400n
+        )
+      ),
+      "0x6c7399bdb516425879e3d0da20c56aa261e19e97e8dfaa0b78d7d6c3d2ec1ea9"
+    );
+  });
+
+  it("hashes splits like hash_splits", () => {
+    const splits: SplitsReceiver[] = [
+      { accountId: ALICE, weight: 250_000 },
+      { accountId: BOB, weight: 750_000 },
+    ];
+    assert.equal(
+      toHex(hashSplits(splits)),
+      "0x25648137e7b2358f4994cc0095063f5f81bb46a128e2dbb09b1f438a875feee5"
+    );
+    assert.equal(hashSplits([]).length, 0);
+  });
+});